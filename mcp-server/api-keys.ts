@@ -0,0 +1,97 @@
+import { FactDatabase } from './src/database.js';
+import { generateApiKey, ADMIN_SCOPE } from './src/auth.js';
+import { CreateApiKeySchema } from './src/types.js';
+
+// Manage API keys for the HTTP transport:
+//   bun run keys create <userId> [--name <name>] [--admin] [--expires-in-days <n>]
+//   bun run keys list [userId]
+//   bun run keys revoke <keyId>
+
+const usage = `Usage:
+  bun run keys create <userId> [--name <name>] [--admin] [--expires-in-days <n>]
+  bun run keys list [userId]
+  bun run keys revoke <keyId>`;
+
+const option = (args: string[], name: string) => {
+  const index = args.indexOf(name);
+  return index === -1 ? undefined : args[index + 1];
+};
+
+async function main() {
+  const [command, ...args] = process.argv.slice(2);
+  const db = new FactDatabase();
+
+  try {
+    switch (command) {
+      case 'create': {
+        const expiresInDays = option(args, '--expires-in-days');
+        const validation = CreateApiKeySchema.safeParse({
+          userId: args[0],
+          name: option(args, '--name') || `Key for ${args[0]}`,
+          scopes: args.includes('--admin') ? [ADMIN_SCOPE] : [],
+          ...(expiresInDays && {
+            expiresAt: new Date(Date.now() + Number(expiresInDays) * 24 * 60 * 60 * 1000).toISOString(),
+          }),
+        });
+
+        if (!validation.success || args[0]?.startsWith('--')) {
+          console.error(usage);
+          process.exitCode = 1;
+          return;
+        }
+
+        const { key, keyHash, keyPrefix } = generateApiKey();
+        const apiKey = await db.createApiKey(validation.data, keyHash, keyPrefix);
+
+        console.log(`Created API key ${apiKey.id} for user ${apiKey.userId}${apiKey.scopes.length ? ` (${apiKey.scopes.join(' ')})` : ''}`);
+        console.log('Store it now, it cannot be shown again:');
+        console.log(key);
+        break;
+      }
+
+      case 'list': {
+        const apiKeys = await db.listApiKeys(args[0]);
+        for (const apiKey of apiKeys) {
+          const status = apiKey.revokedAt ? 'revoked' : apiKey.expiresAt && new Date(apiKey.expiresAt) <= new Date() ? 'expired' : 'active';
+          console.log([
+            apiKey.id,
+            `${apiKey.keyPrefix}…`,
+            apiKey.userId,
+            apiKey.name,
+            apiKey.scopes.join(' ') || '-',
+            status,
+            `last used ${apiKey.lastUsedAt || 'never'}`,
+          ].join('\t'));
+        }
+        if (apiKeys.length === 0) {
+          console.log('No API keys');
+        }
+        break;
+      }
+
+      case 'revoke': {
+        if (!args[0]) {
+          console.error(usage);
+          process.exitCode = 1;
+          return;
+        }
+
+        const revoked = await db.revokeApiKey(args[0]);
+        console.log(revoked ? `Revoked API key ${args[0]}` : `No active API key with ID ${args[0]}`);
+        if (!revoked) process.exitCode = 1;
+        break;
+      }
+
+      default:
+        console.error(usage);
+        process.exitCode = 1;
+    }
+  } catch (error) {
+    console.error('❌ API key command failed:', error instanceof Error ? error.message : error);
+    process.exitCode = 1;
+  } finally {
+    await db.disconnect();
+  }
+}
+
+main();
@@ -1,10 +1,33 @@
-import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { McpServer, ResourceTemplate } from '@modelcontextprotocol/sdk/server/mcp.js';
 import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
 import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
 import { z } from 'zod';
 import express from 'express';
 import { randomUUID } from 'crypto';
 import { FactDatabase } from './src/database.js';
+import { startExpirySweeper, parseSweepInterval } from './src/sweeper.js';
+import { createApiRouter, apiErrorHandler, sendError } from './src/routes.js';
+import { buildOpenApiDocument, renderDocsPage } from './src/openapi.js';
+import { createTokenVerifier, jwtOptionsFromEnv, requireAuth, assertUserAccess, assertFactAccess, canAccessUser, isAdmin, isSessionPrincipal } from './src/auth.js';
+import { serializeFacts, parseFacts } from './src/interchange.js';
+import { findPredicateConflict } from './src/predicates.js';
+import { queryGraph, MAX_GRAPH_DEPTH, MAX_GRAPH_PATTERNS, MAX_GRAPH_RESULTS } from './src/graph.js';
+import {
+  FactSchema,
+  FactSourceSchema,
+  ExportFormatSchema,
+  ImportPolicySchema,
+  ImportResultSchema,
+  PredicateSchema,
+  PredicateValueTypeSchema,
+  PredicateCardinalitySchema,
+  EntitySchema,
+  EntityTypeSchema,
+  EntityChangeResultSchema,
+  GraphQueryModeSchema,
+  GraphPatternSchema,
+  GraphResultSchema,
+} from './src/types.js';
 import type { CreateFact, UpdateFact, Fact } from './src/types.js';
 
 // Initialize database
@@ -21,29 +44,629 @@ server.registerTool(
   'create-fact',
   {
     title: 'Create Fact',
-    description: 'Create a new fact in memory',
+    description: 'Create a new fact in memory. The predicate is stored under its canonical name (job and occupation become works_as, see list-predicates). For single-valued predicates (lives_in, works_as, favorite_*, ...) the previous value is marked as superseded and reported back',
     inputSchema: {
       subject: z.string().describe('The subject of the fact'),
-      predicate: z.string().describe('The predicate/relationship'),
+      predicate: z.string().describe('The predicate/relationship; aliases are rewritten to the canonical name'),
       object: z.string().describe('The object/value'),
       userId: z.string().describe('User ID'),
+      confidence: z.number().min(0).max(1).optional().describe('How certain the fact is, from 0 to 1 (default 1)'),
+      source: FactSourceSchema.optional().describe('Where the fact came from: extracted, manual or imported (default manual)'),
+      sourceMessageId: z.string().optional().describe('ID of the chat message the fact was extracted from'),
+      validFrom: z.string().datetime().optional().describe('ISO timestamp from which the fact holds'),
+      validUntil: z.string().datetime().optional().describe('ISO timestamp after which the fact no longer holds and is archived'),
+      subjectEntityId: z.string().optional().describe('ID of the entity the subject refers to (see list-entities); by default the subject is matched by name'),
+      objectEntityId: z.string().optional().describe('ID of the entity the object refers to; by default places, people, organizations and pets are matched by name'),
+      actor: z.string().optional().describe('Who made the change, recorded in fact history'),
+      reason: z.string().optional().describe('Why the change was made, recorded in fact history'),
+    },
+    outputSchema: {
+      fact: FactSchema,
+      superseded: z.array(FactSchema).describe('Facts replaced by this one'),
+    },
+  },
+  async ({ subject, predicate, object, userId, confidence, source, sourceMessageId, validFrom, validUntil, subjectEntityId, objectEntityId, actor, reason }, { authInfo }) => {
+    try {
+      assertUserAccess(authInfo, userId);
+
+      const { fact, superseded } = await db.createFact({
+        subject,
+        predicate,
+        object,
+        userId,
+        confidence,
+        source,
+        sourceMessageId,
+        validFrom,
+        validUntil,
+        subjectEntityId,
+        objectEntityId,
+        timestamp: new Date().toISOString(),
+      }, { actor, reason });
+
+      const supersededText = superseded
+        .map(previous => `\nSuperseded: ${previous.subject} ${previous.predicate} ${previous.object}`)
+        .join('');
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `Created fact: ${fact.subject} ${fact.predicate} ${fact.object}${supersededText}`,
+          },
+        ],
+        structuredContent: { fact, superseded },
+      };
+    } catch (error) {
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `Error creating fact: ${error instanceof Error ? error.message : 'Unknown error'}`,
+          },
+        ],
+        isError: true,
+      };
+    }
+  }
+);
+
+server.registerTool(
+  'get-facts',
+  {
+    title: 'Get Facts',
+    description: 'Retrieve facts for a user. Only currently valid facts are returned unless includeExpired is set',
+    inputSchema: {
+      userId: z.string().describe('User ID'),
+      subject: z.string().optional().describe('Filter by subject'),
+      predicate: z.string().optional().describe('Filter by predicate, including facts stored under one of its aliases'),
+      query: z.string().optional().describe('Full-text search: prefixes (berl*), phrases ("new york") and AND/OR/NOT; matches are ranked and highlighted'),
+      includeSuperseded: z.boolean().optional().describe('Include facts replaced by a newer value'),
+      includeExpired: z.boolean().optional().describe('Include archived facts and facts outside their validity window'),
+      asOf: z.string().datetime().optional().describe('ISO timestamp; return facts as they were at that moment (full-text query is not applied)'),
+      limit: z.number().optional().describe('Maximum number of facts to return'),
+    },
+  },
+  async ({ userId, subject, predicate, query: textQuery, includeSuperseded, includeExpired, asOf, limit }, { authInfo }) => {
+    try {
+      assertUserAccess(authInfo, userId);
+
+      const query: any = { userId };
+      if (subject) query.subject = subject;
+      if (predicate) query.predicate = predicate;
+      if (textQuery) query.query = textQuery;
+      if (includeSuperseded) query.includeSuperseded = includeSuperseded;
+      if (includeExpired) query.includeExpired = includeExpired;
+      if (asOf) query.asOf = asOf;
+      if (limit) query.limit = limit;
+
+      const { facts } = await db.getFacts(query);
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify({
+              userId,
+              facts,
+              totalCount: facts.length,
+            }, null, 2),
+          },
+        ],
+      };
+    } catch (error) {
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `Error retrieving facts: ${error instanceof Error ? error.message : 'Unknown error'}`,
+          },
+        ],
+        isError: true,
+      };
+    }
+  }
+);
+
+server.registerTool(
+  'search-facts',
+  {
+    title: 'Search Facts',
+    description: 'Rank a user\'s facts by semantic relevance to a free-text query',
+    inputSchema: {
+      userId: z.string().describe('User ID'),
+      query: z.string().min(1).describe('Free-text query to match facts against'),
+      limit: z.number().int().positive().max(100).optional().describe('Maximum number of results (default 10)'),
+      minScore: z.number().min(0).max(1).optional().describe('Minimum relevance score between 0 and 1 (default 0.1)'),
+    },
+  },
+  async ({ userId, query, limit, minScore }, { authInfo }) => {
+    try {
+      assertUserAccess(authInfo, userId);
+
+      const results = await db.searchFacts({ userId, query, limit, minScore });
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify({
+              userId,
+              query,
+              results,
+              totalCount: results.length,
+            }, null, 2),
+          },
+        ],
+      };
+    } catch (error) {
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `Error searching facts: ${error instanceof Error ? error.message : 'Unknown error'}`,
+          },
+        ],
+        isError: true,
+      };
+    }
+  }
+);
+
+server.registerTool(
+  'update-fact',
+  {
+    title: 'Update Fact',
+    description: 'Update an existing fact',
+    inputSchema: {
+      id: z.string().describe('Fact ID'),
+      subject: z.string().optional().describe('New subject'),
+      predicate: z.string().optional().describe('New predicate'),
+      object: z.string().optional().describe('New object'),
+      confidence: z.number().min(0).max(1).optional().describe('New confidence, from 0 to 1'),
+      source: FactSourceSchema.optional().describe('New source: extracted, manual or imported'),
+      validFrom: z.string().datetime().nullable().optional().describe('New start of the validity window; null clears it'),
+      validUntil: z.string().datetime().nullable().optional().describe('New end of the validity window; null clears it'),
+      actor: z.string().optional().describe('Who made the change, recorded in fact history'),
+      reason: z.string().optional().describe('Why the change was made, recorded in fact history'),
+    },
+  },
+  async ({ id, subject, predicate, object, confidence, source, validFrom, validUntil, actor, reason }, { authInfo }) => {
+    try {
+      await assertFactAccess(db, authInfo, [id]);
+
+      const updates: UpdateFact = {};
+      if (subject) updates.subject = subject;
+      if (predicate) updates.predicate = predicate;
+      if (object) updates.object = object;
+      if (confidence !== undefined) updates.confidence = confidence;
+      if (source) updates.source = source;
+      if (validFrom !== undefined) updates.validFrom = validFrom;
+      if (validUntil !== undefined) updates.validUntil = validUntil;
+
+      const fact = await db.updateFact(id, updates, { actor, reason });
+      
+      if (!fact) {
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `Fact with ID ${id} not found`,
+            },
+          ],
+          isError: true,
+        };
+      }
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `Updated fact: ${fact.subject} ${fact.predicate} ${fact.object}`,
+          },
+        ],
+      };
+    } catch (error) {
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `Error updating fact: ${error instanceof Error ? error.message : 'Unknown error'}`,
+          },
+        ],
+        isError: true,
+      };
+    }
+  }
+);
+
+server.registerTool(
+  'delete-fact',
+  {
+    title: 'Delete Fact',
+    description: 'Move a fact to the trash. Trashed facts can be restored with restore-fact until they are purged',
+    inputSchema: {
+      id: z.string().describe('Fact ID'),
+      permanent: z.boolean().optional().describe('Delete the fact for good instead of moving it to the trash'),
+      actor: z.string().optional().describe('Who made the change, recorded in fact history'),
+      reason: z.string().optional().describe('Why the change was made, recorded in fact history'),
+    },
+  },
+  async ({ id, permanent, actor, reason }, { authInfo }) => {
+    try {
+      await assertFactAccess(db, authInfo, [id]);
+
+      const deleted = await db.deleteFact(id, { actor, reason }, permanent);
+      
+      if (!deleted) {
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `Fact with ID ${id} not found`,
+            },
+          ],
+          isError: true,
+        };
+      }
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: permanent ? `Permanently deleted fact with ID: ${id}` : `Moved fact to trash: ${id}`,
+          },
+        ],
+      };
+    } catch (error) {
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `Error deleting fact: ${error instanceof Error ? error.message : 'Unknown error'}`,
+          },
+        ],
+        isError: true,
+      };
+    }
+  }
+);
+
+// Batch tools: each call is applied in a single transaction, so either every
+// item is written or none is
+const MAX_BATCH_SIZE = 100;
+
+server.registerTool(
+  'create-facts',
+  {
+    title: 'Create Facts',
+    description: `Create up to ${MAX_BATCH_SIZE} facts atomically. Results are returned in input order, each with the facts it superseded`,
+    inputSchema: {
+      facts: z.array(z.object({
+        subject: z.string().min(1).describe('The subject of the fact'),
+        predicate: z.string().min(1).describe('The predicate/relationship'),
+        object: z.string().min(1).describe('The object/value'),
+        userId: z.string().min(1).describe('User ID'),
+        confidence: z.number().min(0).max(1).optional().describe('How certain the fact is, from 0 to 1 (default 1)'),
+        source: FactSourceSchema.optional().describe('Where the fact came from: extracted, manual or imported (default manual)'),
+        sourceMessageId: z.string().optional().describe('ID of the chat message the fact was extracted from'),
+        validFrom: z.string().datetime().optional().describe('ISO timestamp from which the fact holds'),
+        validUntil: z.string().datetime().optional().describe('ISO timestamp after which the fact no longer holds and is archived'),
+        subjectEntityId: z.string().optional().describe('ID of the entity the subject refers to'),
+        objectEntityId: z.string().optional().describe('ID of the entity the object refers to'),
+      })).min(1).max(MAX_BATCH_SIZE).describe('Facts to create'),
+      actor: z.string().optional().describe('Who made the change, recorded in fact history'),
+      reason: z.string().optional().describe('Why the change was made, recorded in fact history'),
+    },
+    outputSchema: {
+      results: z.array(z.object({
+        fact: FactSchema,
+        superseded: z.array(FactSchema).describe('Facts replaced by this one'),
+      })),
+    },
+  },
+  async ({ facts, actor, reason }, { authInfo }) => {
+    try {
+      facts.forEach(fact => assertUserAccess(authInfo, fact.userId));
+
+      const timestamp = new Date().toISOString();
+      const results = await db.createFacts(
+        facts.map(fact => ({ ...fact, timestamp })),
+        { actor, reason }
+      );
+
+      const lines = results.map(({ fact, superseded }) =>
+        `Created fact: ${fact.subject} ${fact.predicate} ${fact.object}` +
+        superseded.map(previous => `\nSuperseded: ${previous.subject} ${previous.predicate} ${previous.object}`).join('')
+      );
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: lines.join('\n'),
+          },
+        ],
+        structuredContent: { results },
+      };
+    } catch (error) {
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `Error creating facts: ${error instanceof Error ? error.message : 'Unknown error'}`,
+          },
+        ],
+        isError: true,
+      };
+    }
+  }
+);
+
+server.registerTool(
+  'update-facts',
+  {
+    title: 'Update Facts',
+    description: `Update up to ${MAX_BATCH_SIZE} facts atomically. If any fact is missing nothing is changed`,
+    inputSchema: {
+      updates: z.array(z.object({
+        id: z.string().describe('Fact ID'),
+        subject: z.string().min(1).optional().describe('New subject'),
+        predicate: z.string().min(1).optional().describe('New predicate'),
+        object: z.string().min(1).optional().describe('New object'),
+        confidence: z.number().min(0).max(1).optional().describe('New confidence, from 0 to 1'),
+        source: FactSourceSchema.optional().describe('New source: extracted, manual or imported'),
+        validFrom: z.string().datetime().nullable().optional().describe('New start of the validity window; null clears it'),
+        validUntil: z.string().datetime().nullable().optional().describe('New end of the validity window; null clears it'),
+      })).min(1).max(MAX_BATCH_SIZE).describe('Updates to apply'),
+      actor: z.string().optional().describe('Who made the change, recorded in fact history'),
+      reason: z.string().optional().describe('Why the change was made, recorded in fact history'),
+    },
+    outputSchema: {
+      facts: z.array(FactSchema).describe('Updated facts, in input order'),
+    },
+  },
+  async ({ updates, actor, reason }, { authInfo }) => {
+    try {
+      await assertFactAccess(db, authInfo, updates.map(update => update.id));
+
+      const facts = await db.updateFacts(updates, { actor, reason });
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: facts.map(fact => `Updated fact: ${fact.subject} ${fact.predicate} ${fact.object}`).join('\n'),
+          },
+        ],
+        structuredContent: { facts },
+      };
+    } catch (error) {
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `Error updating facts: ${error instanceof Error ? error.message : 'Unknown error'}`,
+          },
+        ],
+        isError: true,
+      };
+    }
+  }
+);
+
+server.registerTool(
+  'delete-facts',
+  {
+    title: 'Delete Facts',
+    description: `Move up to ${MAX_BATCH_SIZE} facts to the trash atomically. If any fact is missing nothing is deleted`,
+    inputSchema: {
+      ids: z.array(z.string()).min(1).max(MAX_BATCH_SIZE).describe('Fact IDs'),
+      permanent: z.boolean().optional().describe('Delete the facts for good instead of moving them to the trash'),
+      actor: z.string().optional().describe('Who made the change, recorded in fact history'),
+      reason: z.string().optional().describe('Why the change was made, recorded in fact history'),
+    },
+    outputSchema: {
+      facts: z.array(FactSchema).describe('Deleted facts, in input order'),
+    },
+  },
+  async ({ ids, permanent, actor, reason }, { authInfo }) => {
+    try {
+      await assertFactAccess(db, authInfo, ids);
+
+      const facts = await db.deleteFacts(ids, { actor, reason }, permanent);
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `${permanent ? 'Permanently deleted' : 'Moved to trash'} ${facts.length} fact${facts.length === 1 ? '' : 's'}: ${ids.join(', ')}`,
+          },
+        ],
+        structuredContent: { facts },
+      };
+    } catch (error) {
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `Error deleting facts: ${error instanceof Error ? error.message : 'Unknown error'}`,
+          },
+        ],
+        isError: true,
+      };
+    }
+  }
+);
+
+server.registerTool(
+  'list-deleted-facts',
+  {
+    title: 'List Deleted Facts',
+    description: 'List the facts in a user\'s trash, most recently deleted first',
+    inputSchema: {
+      userId: z.string().describe('User ID'),
+      limit: z.number().int().positive().max(1000).optional().describe('Maximum number of facts to return (default 50)'),
+      offset: z.number().int().min(0).optional().describe('Number of facts to skip'),
+    },
+  },
+  async ({ userId, limit, offset }, { authInfo }) => {
+    try {
+      assertUserAccess(authInfo, userId);
+
+      const { facts, totalCount } = await db.listDeletedFacts(userId, limit, offset);
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify({
+              userId,
+              facts,
+              totalCount,
+            }, null, 2),
+          },
+        ],
+      };
+    } catch (error) {
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `Error listing deleted facts: ${error instanceof Error ? error.message : 'Unknown error'}`,
+          },
+        ],
+        isError: true,
+      };
+    }
+  }
+);
+
+server.registerTool(
+  'restore-fact',
+  {
+    title: 'Restore Fact',
+    description: 'Move a fact out of the trash. A restored single-valued fact supersedes the value that replaced it',
+    inputSchema: {
+      id: z.string().describe('Fact ID'),
+      actor: z.string().optional().describe('Who made the change, recorded in fact history'),
+      reason: z.string().optional().describe('Why the change was made, recorded in fact history'),
+    },
+    outputSchema: {
+      fact: FactSchema,
+      superseded: z.array(FactSchema).describe('Facts replaced by the restored one'),
+    },
+  },
+  async ({ id, actor, reason }, { authInfo }) => {
+    try {
+      await assertFactAccess(db, authInfo, [id]);
+
+      const restored = await db.restoreFact(id, { actor, reason });
+
+      if (!restored) {
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `Deleted fact with ID ${id} not found`,
+            },
+          ],
+          isError: true,
+        };
+      }
+
+      const { fact, superseded } = restored;
+      const supersededText = superseded
+        .map(previous => `\nSuperseded: ${previous.subject} ${previous.predicate} ${previous.object}`)
+        .join('');
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `Restored fact: ${fact.subject} ${fact.predicate} ${fact.object}${supersededText}`,
+          },
+        ],
+        structuredContent: { fact, superseded },
+      };
+    } catch (error) {
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `Error restoring fact: ${error instanceof Error ? error.message : 'Unknown error'}`,
+          },
+        ],
+        isError: true,
+      };
+    }
+  }
+);
+
+server.registerTool(
+  'purge-facts',
+  {
+    title: 'Purge Facts',
+    description: 'Permanently remove facts from a user\'s trash. Only facts already in the trash are affected',
+    inputSchema: {
+      userId: z.string().describe('User ID'),
+      ids: z.array(z.string()).optional().describe('Only purge these fact IDs (default: the whole trash)'),
+      olderThanDays: z.number().int().min(0).optional().describe('Only purge facts deleted at least this many days ago'),
+      actor: z.string().optional().describe('Who made the change, recorded in fact history'),
+      reason: z.string().optional().describe('Why the change was made, recorded in fact history'),
+    },
+  },
+  async ({ userId, ids, olderThanDays, actor, reason }, { authInfo }) => {
+    try {
+      assertUserAccess(authInfo, userId);
+
+      const purgedCount = await db.purgeFacts({ userId, ids, olderThanDays }, { actor, reason });
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `Purged ${purgedCount} fact${purgedCount === 1 ? '' : 's'} from the trash`,
+          },
+        ],
+      };
+    } catch (error) {
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `Error purging facts: ${error instanceof Error ? error.message : 'Unknown error'}`,
+          },
+        ],
+        isError: true,
+      };
+    }
+  }
+);
+
+server.registerTool(
+  'export-memory',
+  {
+    title: 'Export Memory',
+    description: 'Export a user\'s facts as JSON-LD, Turtle, N-Triples or CSV. Every format keeps confidence, source and validity; the RDF formats add a reified statement per fact for them',
+    inputSchema: {
+      userId: z.string().describe('User ID'),
+      format: ExportFormatSchema.describe('Output format'),
+      includeSuperseded: z.boolean().optional().describe('Also export facts replaced by newer values'),
+      includeExpired: z.boolean().optional().describe('Also export facts whose validity window has ended'),
     },
   },
-  async ({ subject, predicate, object, userId }) => {
+  async ({ userId, format, includeSuperseded, includeExpired }, { authInfo }) => {
     try {
-      const fact = await db.createFact({
-        subject,
-        predicate,
-        object,
-        userId,
-        timestamp: new Date().toISOString(),
-      });
+      assertUserAccess(authInfo, userId);
+
+      const facts = await db.exportFacts(userId, { includeSuperseded, includeExpired });
 
       return {
         content: [
           {
             type: 'text',
-            text: `Created fact: ${fact.subject} ${fact.predicate} ${fact.object}`,
+            text: serializeFacts(facts, format, userId),
           },
         ],
       };
@@ -52,7 +675,7 @@ server.registerTool(
         content: [
           {
             type: 'text',
-            text: `Error creating fact: ${error instanceof Error ? error.message : 'Unknown error'}`,
+            text: `Error exporting memory: ${error instanceof Error ? error.message : 'Unknown error'}`,
           },
         ],
         isError: true,
@@ -62,34 +685,96 @@ server.registerTool(
 );
 
 server.registerTool(
-  'get-facts',
+  'import-memory',
   {
-    title: 'Get Facts',
-    description: 'Retrieve facts for a user',
+    title: 'Import Memory',
+    description: 'Import facts for a user from a JSON-LD, Turtle, N-Triples or CSV export. Triples the user already has are skipped, overwritten or merged according to the policy',
     inputSchema: {
-      userId: z.string().describe('User ID'),
-      subject: z.string().optional().describe('Filter by subject'),
-      predicate: z.string().optional().describe('Filter by predicate'),
-      limit: z.number().optional().describe('Maximum number of facts to return'),
+      userId: z.string().describe('User ID to import the facts for'),
+      format: ExportFormatSchema.describe('Format of the data'),
+      data: z.string().min(1).describe('The exported document'),
+      policy: ImportPolicySchema.optional().describe('What to do with triples that already exist: skip (default), overwrite their confidence and validity, or merge them'),
+      actor: z.string().optional().describe('Who made the change, recorded in fact history'),
+      reason: z.string().optional().describe('Why the change was made, recorded in fact history'),
     },
+    outputSchema: ImportResultSchema.shape,
   },
-  async ({ userId, subject, predicate, limit }) => {
+  async ({ userId, format, data, policy, actor, reason }, { authInfo }) => {
     try {
-      const query: any = { userId };
-      if (subject) query.subject = subject;
-      if (predicate) query.predicate = predicate;
-      if (limit) query.limit = limit;
+      assertUserAccess(authInfo, userId);
 
-      const { facts } = await db.getFacts(query);
+      const facts = parseFacts(data, format);
+      const result = await db.importFacts(userId, facts, policy, { actor, reason });
+
+      const invalidText = result.invalid
+        .map(({ index, error }) => `\nInvalid item ${index}: ${error}`)
+        .join('');
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `Imported ${facts.length} facts: ${result.created} created, ${result.updated} updated, ${result.skipped} skipped${invalidText}`,
+          },
+        ],
+        structuredContent: result,
+      };
+    } catch (error) {
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `Error importing memory: ${error instanceof Error ? error.message : 'Unknown error'}`,
+          },
+        ],
+        isError: true,
+      };
+    }
+  }
+);
+
+server.registerTool(
+  'get-fact-history',
+  {
+    title: 'Get Fact History',
+    description: 'List recorded create/update/delete/restore/purge/supersede/archive revisions for a fact or for all of a user\'s facts, newest first',
+    inputSchema: {
+      factId: z.string().optional().describe('Fact ID to get history for'),
+      userId: z.string().optional().describe('User ID to get history for'),
+      limit: z.number().int().positive().max(1000).optional().describe('Maximum number of revisions to return (default 100)'),
+    },
+  },
+  async ({ factId, userId, limit }, { authInfo }) => {
+    try {
+      if (!factId && !userId) {
+        return {
+          content: [
+            {
+              type: 'text',
+              text: 'Either factId or userId is required',
+            },
+          ],
+          isError: true,
+        };
+      }
+
+      if (userId) {
+        assertUserAccess(authInfo, userId);
+      }
+
+      // Revisions outlive purged facts, so ownership is checked per revision
+      const revisions = (await db.getFactHistory({ factId, userId, limit }))
+        .filter(revision => canAccessUser(authInfo, revision.userId));
 
       return {
         content: [
           {
             type: 'text',
             text: JSON.stringify({
-              userId,
-              facts,
-              totalCount: facts.length,
+              ...(factId && { factId }),
+              ...(userId && { userId }),
+              revisions,
+              totalCount: revisions.length,
             }, null, 2),
           },
         ],
@@ -99,7 +784,7 @@ server.registerTool(
         content: [
           {
             type: 'text',
-            text: `Error retrieving facts: ${error instanceof Error ? error.message : 'Unknown error'}`,
+            text: `Error retrieving fact history: ${error instanceof Error ? error.message : 'Unknown error'}`,
           },
         ],
         isError: true,
@@ -109,52 +794,95 @@ server.registerTool(
 );
 
 server.registerTool(
-  'update-fact',
+  'list-predicates',
   {
-    title: 'Update Fact',
-    description: 'Update an existing fact',
+    title: 'List Predicates',
+    description: 'List the predicate vocabulary: canonical names with their aliases, description, value type (text, number, date, entity) and cardinality (single-valued predicates keep one current value)',
+    inputSchema: {},
+    outputSchema: {
+      predicates: z.array(PredicateSchema),
+    },
+  },
+  async () => {
+    try {
+      const predicates = await db.listPredicates();
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify({ predicates, totalCount: predicates.length }, null, 2),
+          },
+        ],
+        structuredContent: { predicates },
+      };
+    } catch (error) {
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `Error listing predicates: ${error instanceof Error ? error.message : 'Unknown error'}`,
+          },
+        ],
+        isError: true,
+      };
+    }
+  }
+);
+
+server.registerTool(
+  'define-predicate',
+  {
+    title: 'Define Predicate',
+    description: 'Add a predicate to the vocabulary or redefine one. New facts using an alias are stored under the canonical name. The vocabulary is shared by all users, so this needs the memory:admin scope when authentication is enabled',
     inputSchema: {
-      id: z.string().describe('Fact ID'),
-      subject: z.string().optional().describe('New subject'),
-      predicate: z.string().optional().describe('New predicate'),
-      object: z.string().optional().describe('New object'),
+      name: z.string().min(1).describe('Canonical name, e.g. works_as'),
+      aliases: z.array(z.string().min(1)).optional().describe('Other names for the predicate, e.g. job and occupation; replaces the current aliases'),
+      description: z.string().optional().describe('What the predicate means'),
+      valueType: PredicateValueTypeSchema.optional().describe('What kind of object it takes: text (default), number, date or entity'),
+      cardinality: PredicateCardinalitySchema.optional().describe('single keeps one current value per subject, multi (default) accumulates values'),
+    },
+    outputSchema: {
+      predicate: PredicateSchema,
     },
   },
-  async ({ id, subject, predicate, object }) => {
+  async ({ name, aliases, description, valueType, cardinality }, { authInfo }) => {
     try {
-      const updates: UpdateFact = {};
-      if (subject) updates.subject = subject;
-      if (predicate) updates.predicate = predicate;
-      if (object) updates.object = object;
+      if (authInfo && !isAdmin(authInfo)) {
+        throw new Error('Defining predicates requires the memory:admin scope');
+      }
 
-      const fact = await db.updateFact(id, updates);
-      
-      if (!fact) {
+      const conflict = findPredicateConflict({ name, aliases: aliases || [] });
+      if (conflict) {
         return {
           content: [
             {
               type: 'text',
-              text: `Fact with ID ${id} not found`,
+              text: conflict,
             },
           ],
           isError: true,
         };
       }
 
+      const predicate = await db.definePredicate({ name, aliases, description, valueType, cardinality });
+      const aliasText = predicate.aliases.length > 0 ? ` (aliases: ${predicate.aliases.join(', ')})` : '';
+
       return {
         content: [
           {
             type: 'text',
-            text: `Updated fact: ${fact.subject} ${fact.predicate} ${fact.object}`,
+            text: `Defined predicate ${predicate.name}: ${predicate.cardinality}-valued ${predicate.valueType}${aliasText}`,
           },
         ],
+        structuredContent: { predicate },
       };
     } catch (error) {
       return {
         content: [
           {
             type: 'text',
-            text: `Error updating fact: ${error instanceof Error ? error.message : 'Unknown error'}`,
+            text: `Error defining predicate: ${error instanceof Error ? error.message : 'Unknown error'}`,
           },
         ],
         isError: true,
@@ -164,24 +892,73 @@ server.registerTool(
 );
 
 server.registerTool(
-  'delete-fact',
+  'list-entities',
   {
-    title: 'Delete Fact',
-    description: 'Delete a fact from memory',
+    title: 'List Entities',
+    description: 'List the people, places, organizations and pets a user\'s facts are about, with the aliases they have been mentioned by. Facts link to them through subjectEntityId and objectEntityId',
     inputSchema: {
-      id: z.string().describe('Fact ID'),
+      userId: z.string().describe('User ID'),
+      type: EntityTypeSchema.optional().describe('Only entities of this type: person, place, organization, pet or other'),
+      query: z.string().optional().describe('Only entities whose name or an alias contains this text'),
+      limit: z.number().int().positive().optional().describe('Maximum number of entities to return (default 100)'),
+    },
+    outputSchema: {
+      entities: z.array(EntitySchema),
     },
   },
-  async ({ id }) => {
+  async ({ userId, type, query, limit }, { authInfo }) => {
     try {
-      const deleted = await db.deleteFact(id);
-      
-      if (!deleted) {
+      assertUserAccess(authInfo, userId);
+
+      const entities = await db.listEntities({ userId, type, query, limit });
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify({ userId, entities, totalCount: entities.length }, null, 2),
+          },
+        ],
+        structuredContent: { entities },
+      };
+    } catch (error) {
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `Error listing entities: ${error instanceof Error ? error.message : 'Unknown error'}`,
+          },
+        ],
+        isError: true,
+      };
+    }
+  }
+);
+
+server.registerTool(
+  'merge-entities',
+  {
+    title: 'Merge Entities',
+    description: 'Merge entities that turn out to be the same ("Anna" and "my sis"). Facts of the source entities are linked to the target, their names become its aliases and the sources are removed',
+    inputSchema: {
+      targetId: z.string().describe('Entity to keep'),
+      sourceIds: z.array(z.string()).min(1).describe('Entities to merge into the target'),
+    },
+    outputSchema: EntityChangeResultSchema.shape,
+  },
+  async ({ targetId, sourceIds }, { authInfo }) => {
+    try {
+      const target = await db.getEntity(targetId);
+      const result = target && canAccessUser(authInfo, target.userId)
+        ? await db.mergeEntities(targetId, sourceIds)
+        : null;
+
+      if (!result) {
         return {
           content: [
             {
               type: 'text',
-              text: `Fact with ID ${id} not found`,
+              text: 'Entities not found, or they belong to different users',
             },
           ],
           isError: true,
@@ -192,16 +969,122 @@ server.registerTool(
         content: [
           {
             type: 'text',
-            text: `Deleted fact with ID: ${id}`,
+            text: `Merged into ${result.entity.name} (aliases: ${result.entity.aliases.join(', ') || 'none'}); ${result.movedLinks} fact links moved`,
           },
         ],
+        structuredContent: result,
       };
     } catch (error) {
       return {
         content: [
           {
             type: 'text',
-            text: `Error deleting fact: ${error instanceof Error ? error.message : 'Unknown error'}`,
+            text: `Error merging entities: ${error instanceof Error ? error.message : 'Unknown error'}`,
+          },
+        ],
+        isError: true,
+      };
+    }
+  }
+);
+
+server.registerTool(
+  'split-entity',
+  {
+    title: 'Split Entity',
+    description: 'Split a new entity off one that was wrongly merged or matched, e.g. when "Anna" the sister and "Anna" the colleague became one. The given aliases and the links of the given facts move to the new entity',
+    inputSchema: {
+      entityId: z.string().describe('Entity to split'),
+      name: z.string().min(1).describe('Name of the new entity'),
+      type: EntityTypeSchema.optional().describe('Type of the new entity (default: that of the entity being split)'),
+      aliases: z.array(z.string().min(1)).optional().describe('Aliases that belong to the new entity'),
+      factIds: z.array(z.string()).optional().describe('Facts whose subject or object refers to the new entity'),
+    },
+    outputSchema: EntityChangeResultSchema.shape,
+  },
+  async ({ entityId, name, type, aliases, factIds }, { authInfo }) => {
+    try {
+      const entity = await db.getEntity(entityId);
+      const result = entity && canAccessUser(authInfo, entity.userId)
+        ? await db.splitEntity(entityId, { name, type, aliases, factIds })
+        : null;
+
+      if (!result) {
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `Entity with ID ${entityId} not found`,
+            },
+          ],
+          isError: true,
+        };
+      }
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `Split ${result.created!.name} off ${result.entity.name}; ${result.movedLinks} fact links moved`,
+          },
+        ],
+        structuredContent: result,
+      };
+    } catch (error) {
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `Error splitting entity: ${error instanceof Error ? error.message : 'Unknown error'}`,
+          },
+        ],
+        isError: true,
+      };
+    }
+  }
+);
+
+server.registerTool(
+  'query-graph',
+  {
+    title: 'Query Graph',
+    description: 'Traverse a user\'s current facts as a graph of entities. '
+      + 'neighborhood: the facts within depth hops of an entity. '
+      + 'path: follow predicates hop by hop from an entity (user → has_sibling → married_to → works_at answers "where does my sister\'s husband work?"), or find the shortest connection to another entity with to. '
+      + 'pattern: match triples with ?variables, e.g. [{subject: "user", predicate: "has_sibling", object: "?s"}, {subject: "?s", predicate: "lives_in", object: "?city"}]',
+    inputSchema: {
+      userId: z.string().describe('User ID'),
+      mode: GraphQueryModeSchema.describe('neighborhood, path or pattern'),
+      entity: z.string().optional().describe('Entity ID, name or alias to start from (default: the user)'),
+      predicates: z.array(z.string().min(1)).max(MAX_GRAPH_DEPTH).optional().describe('path: predicates to follow in order; prefix one with ^ to follow it backwards, or use * for any. neighborhood: only follow these predicates'),
+      to: z.string().optional().describe('path: entity to find the shortest connection to, instead of following predicates'),
+      patterns: z.array(GraphPatternSchema).max(MAX_GRAPH_PATTERNS).optional().describe('pattern: triples to match; terms starting with ? are variables'),
+      depth: z.number().int().min(1).max(MAX_GRAPH_DEPTH).optional().describe(`Hops to expand or search (neighborhood default 1, shortest path default ${MAX_GRAPH_DEPTH})`),
+      limit: z.number().int().positive().max(MAX_GRAPH_RESULTS).optional().describe('Maximum number of facts, paths or matches to return (default 20)'),
+    },
+    outputSchema: GraphResultSchema.shape,
+  },
+  async (query, { authInfo }) => {
+    try {
+      assertUserAccess(authInfo, query.userId);
+
+      const result = queryGraph(await db.getGraph(query.userId), query);
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify(result, null, 2),
+          },
+        ],
+        structuredContent: result,
+      };
+    } catch (error) {
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `Error querying graph: ${error instanceof Error ? error.message : 'Unknown error'}`,
           },
         ],
         isError: true,
@@ -213,27 +1096,38 @@ server.registerTool(
 // Register memory context resource
 server.registerResource(
   'memory-context',
-  'memory://context/{userId}',
+  new ResourceTemplate('memory://context/{userId}', { list: undefined }),
   {
     title: 'Memory Context',
-    description: 'User memory context as a structured knowledge graph',
+    description: 'User memory context as a structured knowledge graph. Append ?asOf=<ISO timestamp> to read it as it was at that moment',
     mimeType: 'application/json',
   },
-  async (uri) => {
+  async (uri, _variables, { authInfo }) => {
     try {
       // Extract userId from URI
-      const match = uri.href.match(/memory:\/\/context\/(.+)/);
+      const match = uri.href.match(/memory:\/\/context\/([^?]+)/);
       if (!match) {
         throw new Error('Invalid memory context URI format');
       }
       
       const userId = decodeURIComponent(match[1]);
-      const { facts } = await db.getFacts({ userId });
+      assertUserAccess(authInfo, userId);
+
+      const asOf = uri.searchParams.get('asOf');
+      if (asOf && Number.isNaN(Date.parse(asOf))) {
+        throw new Error('Invalid asOf timestamp');
+      }
+
+      const { facts } = await db.getFacts({
+        userId,
+        ...(asOf && { asOf: new Date(asOf).toISOString() }),
+      });
 
       const memoryContext = {
         userId,
         facts,
         totalCount: facts.length,
+        ...(asOf && { asOf: new Date(asOf).toISOString() }),
         timestamp: new Date().toISOString(),
       };
 
@@ -268,13 +1162,13 @@ server.registerResource(
 // Register facts summary resource
 server.registerResource(
   'facts-summary',
-  'memory://summary/{userId}',
+  new ResourceTemplate('memory://summary/{userId}', { list: undefined }),
   {
     title: 'Facts Summary',
     description: 'Summary of user facts by predicate',
     mimeType: 'application/json',
   },
-  async (uri) => {
+  async (uri, _variables, { authInfo }) => {
     try {
       // Extract userId from URI
       const match = uri.href.match(/memory:\/\/summary\/(.+)/);
@@ -283,6 +1177,8 @@ server.registerResource(
       }
       
       const userId = decodeURIComponent(match[1]);
+      assertUserAccess(authInfo, userId);
+
       const summary = await db.getUserFactsSummary(userId);
 
       return {
@@ -321,6 +1217,14 @@ server.registerResource(
 async function setupHttpServer(port: number = 3001) {
   const app = express();
   app.use(express.json());
+
+  // Bearer auth for /mcp and /api/v1. MCP_AUTH=off restores the old open
+  // behaviour for local development.
+  const authEnabled = process.env.MCP_AUTH !== 'off';
+  const verifier = createTokenVerifier(db, jwtOptionsFromEnv());
+  if (!authEnabled) {
+    console.warn('⚠️ MCP_AUTH=off: any client can read and change any user\'s facts');
+  }
   
   // CORS headers for Next.js app
   app.use((req, res, next) => {
@@ -338,6 +1242,21 @@ async function setupHttpServer(port: number = 3001) {
 
   // Store transports by session ID
   const transports: { [sessionId: string]: StreamableHTTPServerTransport } = {};
+  // Principal (token clientId) each session was opened with
+  const sessionPrincipals: { [sessionId: string]: string } = {};
+
+  if (authEnabled) {
+    app.use('/mcp', requireAuth(verifier, (res, status, message) => {
+      res.status(status).json({
+        jsonrpc: '2.0',
+        error: {
+          code: -32001,
+          message,
+        },
+        id: null,
+      });
+    }));
+  }
 
   // Handle MCP requests
   app.all('/mcp', async (req, res) => {
@@ -346,14 +1265,32 @@ async function setupHttpServer(port: number = 3001) {
       let transport: StreamableHTTPServerTransport;
 
       if (sessionId && transports[sessionId]) {
+        // A session stays bound to the principal that opened it
+        if (authEnabled && !isSessionPrincipal(sessionPrincipals[sessionId], req.auth)) {
+          res.status(403).json({
+            jsonrpc: '2.0',
+            error: {
+              code: -32001,
+              message: 'Session belongs to a different principal',
+            },
+            id: null,
+          });
+          return;
+        }
+
         // Reuse existing transport
         transport = transports[sessionId];
       } else {
+        const principal = req.auth?.clientId;
+
         // Create new transport
         transport = new StreamableHTTPServerTransport({
           sessionIdGenerator: () => randomUUID(),
           onsessioninitialized: (sessionId) => {
             transports[sessionId] = transport;
+            if (principal) {
+              sessionPrincipals[sessionId] = principal;
+            }
           },
           enableDnsRebindingProtection: false, // Disable for local development
         });
@@ -362,6 +1299,7 @@ async function setupHttpServer(port: number = 3001) {
         transport.onclose = () => {
           if (transport.sessionId) {
             delete transports[transport.sessionId];
+            delete sessionPrincipals[transport.sessionId];
           }
         };
 
@@ -386,6 +1324,28 @@ async function setupHttpServer(port: number = 3001) {
     }
   });
 
+  // OpenAPI contract for the REST API, generated once from the zod schemas
+  const openApiDocument = buildOpenApiDocument({ serverUrl: '/api/v1', version: '1.0.0' });
+  const docsPage = renderDocsPage(openApiDocument, '/openapi.json');
+
+  app.get('/openapi.json', (req, res) => {
+    res.json(openApiDocument);
+  });
+
+  app.get('/docs', (req, res) => {
+    res.type('html').send(docsPage);
+  });
+
+  // REST API for non-MCP consumers, sharing the same database
+  if (authEnabled) {
+    app.use('/api/v1', requireAuth(verifier, (res, status, message) => {
+      sendError(res, status, status === 401 ? 'unauthorized' : 'internal_error', message);
+    }));
+  }
+  app.use('/api/v1', createApiRouter(db));
+  // Malformed JSON is rejected by express.json() before the router runs
+  app.use('/api/v1', apiErrorHandler);
+
   // Health check endpoint with comprehensive diagnostics
   app.get('/health', async (req, res) => {
     const startTime = Date.now();
@@ -468,6 +1428,7 @@ async function setupHttpServer(port: number = 3001) {
   const httpServer = app.listen(port, () => {
     console.log(`MCP Server running on HTTP transport at http://localhost:${port}`);
     console.log(`MCP endpoint: http://localhost:${port}/mcp`);
+    console.log(`REST API: http://localhost:${port}/api/v1 (docs at /docs)`);
     console.log(`Health check: http://localhost:${port}/health`);
   });
 
@@ -481,6 +1442,9 @@ async function main() {
     await db.connect();
     console.log('Database connected successfully');
 
+    // Archive facts whose validity window has ended
+    const stopSweeper = startExpirySweeper(db, parseSweepInterval(process.env.FACT_SWEEP_INTERVAL_MS));
+
     // Get transport type from command line arguments
     const transportType = process.argv[2] || 'stdio';
     const port = parseInt(process.env.PORT || '3001');
@@ -492,6 +1456,7 @@ async function main() {
       // Handle graceful shutdown
       process.on('SIGINT', async () => {
         console.log('\nShutting down MCP HTTP server...');
+        stopSweeper();
         httpServer.close(() => {
           console.log('HTTP server closed');
         });
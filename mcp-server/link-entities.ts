@@ -0,0 +1,33 @@
+import { FactDatabase } from './src/database.js';
+
+// Link facts stored before entities existed to the user's entities. Safe to
+// run more than once; it only touches facts that have no entity yet.
+//   bun run db:link-entities [--batch-size <n>]
+
+const usage = 'Usage: bun run db:link-entities [--batch-size <n>]';
+
+async function main() {
+  const args = process.argv.slice(2);
+  const index = args.indexOf('--batch-size');
+  const batchSize = index === -1 ? undefined : Number(args[index + 1]);
+
+  if (batchSize !== undefined && (!Number.isInteger(batchSize) || batchSize < 1)) {
+    console.error(usage);
+    process.exitCode = 1;
+    return;
+  }
+
+  const db = new FactDatabase();
+
+  try {
+    const linked = await db.linkUnlinkedFacts(batchSize);
+    console.log(linked > 0 ? `🔗 Linked ${linked} facts to entities` : 'No facts to link');
+  } catch (error) {
+    console.error('❌ Linking facts to entities failed:', error instanceof Error ? error.message : error);
+    process.exitCode = 1;
+  } finally {
+    await db.disconnect();
+  }
+}
+
+main();
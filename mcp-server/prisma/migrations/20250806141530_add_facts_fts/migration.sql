@@ -0,0 +1,33 @@
+-- CreateVirtualTable
+-- Full-text index over fact triples. Prisma does not model virtual tables,
+-- so it is kept in sync with "facts" by the triggers below.
+CREATE VIRTUAL TABLE "facts_fts" USING fts5(
+    "factId" UNINDEXED,
+    "userId" UNINDEXED,
+    "subject",
+    "predicate",
+    "object",
+    tokenize = 'porter unicode61'
+);
+
+-- Backfill existing facts
+INSERT INTO "facts_fts" ("factId", "userId", "subject", "predicate", "object")
+SELECT "id", "userId", "subject", "predicate", "object" FROM "facts";
+
+-- CreateTrigger
+CREATE TRIGGER "facts_fts_after_insert" AFTER INSERT ON "facts" BEGIN
+    INSERT INTO "facts_fts" ("factId", "userId", "subject", "predicate", "object")
+    VALUES (NEW."id", NEW."userId", NEW."subject", NEW."predicate", NEW."object");
+END;
+
+-- CreateTrigger
+CREATE TRIGGER "facts_fts_after_update" AFTER UPDATE OF "subject", "predicate", "object", "userId" ON "facts" BEGIN
+    DELETE FROM "facts_fts" WHERE "factId" = OLD."id";
+    INSERT INTO "facts_fts" ("factId", "userId", "subject", "predicate", "object")
+    VALUES (NEW."id", NEW."userId", NEW."subject", NEW."predicate", NEW."object");
+END;
+
+-- CreateTrigger
+CREATE TRIGGER "facts_fts_after_delete" AFTER DELETE ON "facts" BEGIN
+    DELETE FROM "facts_fts" WHERE "factId" = OLD."id";
+END;
@@ -0,0 +1,24 @@
+-- CreateTable
+CREATE TABLE "fact_revisions" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "factId" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "action" TEXT NOT NULL,
+    "subject" TEXT NOT NULL,
+    "predicate" TEXT NOT NULL,
+    "object" TEXT NOT NULL,
+    "actor" TEXT,
+    "reason" TEXT,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+-- CreateIndex
+CREATE INDEX "fact_revisions_factId_idx" ON "fact_revisions"("factId");
+
+-- CreateIndex
+CREATE INDEX "fact_revisions_userId_createdAt_idx" ON "fact_revisions"("userId", "createdAt");
+
+-- Backfill a create revision for every existing fact
+INSERT INTO "fact_revisions" ("id", "factId", "userId", "action", "subject", "predicate", "object", "actor", "reason", "createdAt")
+SELECT 'backfill_' || "id", "id", "userId", 'create', "subject", "predicate", "object", 'migration', 'Backfilled from existing fact', "createdAt"
+FROM "facts";
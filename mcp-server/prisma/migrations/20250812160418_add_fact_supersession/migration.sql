@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "facts" ADD COLUMN "supersededAt" DATETIME;
+ALTER TABLE "facts" ADD COLUMN "supersededById" TEXT;
@@ -0,0 +1,4 @@
+-- AlterTable
+ALTER TABLE "facts" ADD COLUMN "confidence" REAL NOT NULL DEFAULT 1;
+ALTER TABLE "facts" ADD COLUMN "source" TEXT NOT NULL DEFAULT 'manual';
+ALTER TABLE "facts" ADD COLUMN "sourceMessageId" TEXT;
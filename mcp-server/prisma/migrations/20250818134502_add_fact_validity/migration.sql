@@ -0,0 +1,7 @@
+-- AlterTable
+ALTER TABLE "facts" ADD COLUMN "validFrom" DATETIME;
+ALTER TABLE "facts" ADD COLUMN "validUntil" DATETIME;
+ALTER TABLE "facts" ADD COLUMN "archivedAt" DATETIME;
+
+-- CreateIndex
+CREATE INDEX "facts_archivedAt_validUntil_idx" ON "facts"("archivedAt", "validUntil");
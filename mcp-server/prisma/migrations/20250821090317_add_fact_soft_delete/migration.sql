@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "facts" ADD COLUMN "deletedAt" DATETIME;
+
+-- CreateIndex
+CREATE INDEX "facts_userId_deletedAt_idx" ON "facts"("userId", "deletedAt");
@@ -0,0 +1,14 @@
+-- CreateTable
+CREATE TABLE "predicates" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "name" TEXT NOT NULL,
+    "aliases" TEXT NOT NULL DEFAULT '',
+    "description" TEXT,
+    "valueType" TEXT NOT NULL DEFAULT 'text',
+    "cardinality" TEXT NOT NULL DEFAULT 'multi',
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "predicates_name_key" ON "predicates"("name");
@@ -0,0 +1,25 @@
+-- CreateTable
+CREATE TABLE "entities" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "userId" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "type" TEXT NOT NULL DEFAULT 'other',
+    "aliases" TEXT NOT NULL DEFAULT '[]',
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL
+);
+
+-- AlterTable
+-- SQLite can add a foreign key column in place when it defaults to NULL,
+-- which keeps the full-text search triggers on "facts"
+ALTER TABLE "facts" ADD COLUMN "subjectEntityId" TEXT REFERENCES "entities" ("id") ON DELETE SET NULL ON UPDATE CASCADE;
+ALTER TABLE "facts" ADD COLUMN "objectEntityId" TEXT REFERENCES "entities" ("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- CreateIndex
+CREATE INDEX "entities_userId_name_idx" ON "entities"("userId", "name");
+
+-- CreateIndex
+CREATE INDEX "facts_subjectEntityId_idx" ON "facts"("subjectEntityId");
+
+-- CreateIndex
+CREATE INDEX "facts_objectEntityId_idx" ON "facts"("objectEntityId");
@@ -0,0 +1,13 @@
+-- AlterTable
+ALTER TABLE "fact_revisions" ADD COLUMN "confidence" REAL;
+ALTER TABLE "fact_revisions" ADD COLUMN "source" TEXT;
+ALTER TABLE "fact_revisions" ADD COLUMN "validFrom" DATETIME;
+ALTER TABLE "fact_revisions" ADD COLUMN "validUntil" DATETIME;
+
+-- Earlier revisions did not record these; take them from the fact as it is
+-- now. Revisions of purged facts keep them null.
+UPDATE "fact_revisions"
+SET "confidence" = (SELECT "confidence" FROM "facts" WHERE "facts"."id" = "fact_revisions"."factId"),
+    "source" = (SELECT "source" FROM "facts" WHERE "facts"."id" = "fact_revisions"."factId"),
+    "validFrom" = (SELECT "validFrom" FROM "facts" WHERE "facts"."id" = "fact_revisions"."factId"),
+    "validUntil" = (SELECT "validUntil" FROM "facts" WHERE "facts"."id" = "fact_revisions"."factId");
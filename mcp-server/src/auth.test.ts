@@ -0,0 +1,155 @@
+import { describe, expect, test } from 'bun:test';
+import { createHmac, generateKeyPairSync, sign } from 'crypto';
+import type { Request, Response } from 'express';
+import type { AuthInfo } from '@modelcontextprotocol/sdk/server/auth/types.js';
+import { InvalidTokenError } from '@modelcontextprotocol/sdk/server/auth/errors.js';
+import type { FactDatabase } from './database.js';
+import type { Fact } from './types.js';
+import { ADMIN_SCOPE, assertFactAccess, createTokenVerifier, isSessionPrincipal, requireAuth } from './auth.js';
+
+const SECRET = 'test-secret';
+const now = () => Math.floor(Date.now() / 1000);
+
+const encode = (value: unknown) => Buffer.from(JSON.stringify(value)).toString('base64url');
+
+const signHs256 = (header: unknown, payload: unknown, secret: string = SECRET) => {
+  const unsigned = `${encode(header)}.${encode(payload)}`;
+  return `${unsigned}.${createHmac('sha256', secret).update(unsigned).digest('base64url')}`;
+};
+
+const facts: Record<string, Fact> = {
+  'fact-alice': { id: 'fact-alice', subject: 'user', predicate: 'likes', object: 'tea', userId: 'alice' },
+};
+
+const db = {
+  getFactById: async (id: string) => facts[id] ?? null,
+} as unknown as FactDatabase;
+
+const verifier = createTokenVerifier(db, { secret: SECRET });
+
+const auth = (userId: string, scopes: string[] = []): AuthInfo => ({
+  token: 'token',
+  clientId: `jwt:local:${userId}`,
+  scopes,
+  extra: { userId },
+});
+
+describe('JWT verification', () => {
+  test('accepts a token with a valid signature', async () => {
+    const exp = now() + 60;
+    const info = await verifier.verifyAccessToken(
+      signHs256({ alg: 'HS256', typ: 'JWT' }, { sub: 'alice', exp, scope: 'memory:read memory:write' })
+    );
+
+    expect(info.extra?.userId).toBe('alice');
+    expect(info.clientId).toBe('jwt:local:alice');
+    expect(info.scopes).toEqual(['memory:read', 'memory:write']);
+    expect(info.expiresAt).toBe(exp);
+  });
+
+  test('accepts an ES256 token signed with the configured key', async () => {
+    const { privateKey, publicKey } = generateKeyPairSync('ec', { namedCurve: 'P-256' });
+    const unsigned = `${encode({ alg: 'ES256' })}.${encode({ sub: 'alice', exp: now() + 60 })}`;
+    const signature = sign('sha256', Buffer.from(unsigned), { key: privateKey, dsaEncoding: 'ieee-p1363' });
+    const es256 = createTokenVerifier(db, { publicKey: publicKey.export({ type: 'spki', format: 'pem' }).toString() });
+
+    const info = await es256.verifyAccessToken(`${unsigned}.${signature.toString('base64url')}`);
+    expect(info.extra?.userId).toBe('alice');
+  });
+
+  test('rejects a token signed with another secret', async () => {
+    const token = signHs256({ alg: 'HS256' }, { sub: 'alice', exp: now() + 60 }, 'other-secret');
+    await expect(verifier.verifyAccessToken(token)).rejects.toThrow('Invalid JWT signature');
+  });
+
+  test('rejects a token whose claims were changed after signing', async () => {
+    const [header, , signature] = signHs256({ alg: 'HS256' }, { sub: 'alice', exp: now() + 60 }).split('.');
+    const token = `${header}.${encode({ sub: 'bob', exp: now() + 60 })}.${signature}`;
+    await expect(verifier.verifyAccessToken(token)).rejects.toThrow('Invalid JWT signature');
+  });
+
+  test('rejects unsigned tokens', async () => {
+    const token = `${encode({ alg: 'none' })}.${encode({ sub: 'alice', exp: now() + 60 })}.`;
+    await expect(verifier.verifyAccessToken(token)).rejects.toThrow(InvalidTokenError);
+  });
+
+  test('rejects expired tokens', async () => {
+    const token = signHs256({ alg: 'HS256' }, { sub: 'alice', exp: now() - 1 });
+    await expect(verifier.verifyAccessToken(token)).rejects.toThrow('JWT has expired');
+  });
+
+  test('rejects tokens without an expiry', async () => {
+    const token = signHs256({ alg: 'HS256' }, { sub: 'alice' });
+    await expect(verifier.verifyAccessToken(token)).rejects.toThrow('JWT has no expiry');
+  });
+
+  test('rejects a header or payload that is not an object', async () => {
+    for (const [header, payload] of [[null, { sub: 'alice' }], [42, { sub: 'alice' }], [{ alg: 'HS256' }, null], [{ alg: 'HS256' }, []]]) {
+      const token = `${encode(header)}.${encode(payload)}.signature`;
+      await expect(verifier.verifyAccessToken(token)).rejects.toThrow('Malformed JWT');
+    }
+  });
+});
+
+describe('requireAuth', () => {
+  const run = async (authorization?: string) => {
+    const headers: Record<string, string> = {};
+    const errors: { status: number; message: string }[] = [];
+    let nextCalled = false;
+
+    const req = { headers: { authorization } } as unknown as Request;
+    const res = {
+      set: (name: string, value: string) => {
+        if (/[\r\n]/.test(value)) throw new TypeError('Invalid character in header content');
+        headers[name] = value;
+      },
+    } as unknown as Response;
+
+    await requireAuth(verifier, (_res, status, message) => errors.push({ status, message }))(req, res, () => {
+      nextCalled = true;
+    });
+    return { headers, errors, nextCalled };
+  };
+
+  test('lets valid tokens through', async () => {
+    const result = await run(`Bearer ${signHs256({ alg: 'HS256' }, { sub: 'alice', exp: now() + 60 })}`);
+    expect(result.nextCalled).toBe(true);
+    expect(result.errors).toEqual([]);
+  });
+
+  test('answers 401 for malformed tokens', async () => {
+    const result = await run(`Bearer ${encode(null)}.${encode(null)}.x`);
+    expect(result.errors).toEqual([{ status: 401, message: 'Malformed JWT' }]);
+  });
+
+  test('does not copy the algorithm into WWW-Authenticate', async () => {
+    const result = await run(`Bearer ${encode({ alg: 'x\r\nSet-Cookie: a=b' })}.${encode({ sub: 'alice' })}.x`);
+    expect(result.errors).toEqual([{ status: 401, message: 'Unsupported JWT algorithm' }]);
+    expect(result.headers['WWW-Authenticate']).not.toContain('Set-Cookie');
+  });
+});
+
+describe('session principals', () => {
+  test('a session only accepts the principal that opened it', () => {
+    expect(isSessionPrincipal('jwt:local:alice', auth('alice'))).toBe(true);
+    expect(isSessionPrincipal('jwt:local:alice', auth('bob'))).toBe(false);
+    expect(isSessionPrincipal('jwt:local:alice', undefined)).toBe(false);
+    expect(isSessionPrincipal(undefined, auth('alice'))).toBe(false);
+  });
+});
+
+describe('assertFactAccess', () => {
+  test('lets owners, admins and trusted transports through', async () => {
+    await expect(assertFactAccess(db, auth('alice'), ['fact-alice'])).resolves.toBeUndefined();
+    await expect(assertFactAccess(db, auth('bob', [ADMIN_SCOPE]), ['fact-alice'])).resolves.toBeUndefined();
+    await expect(assertFactAccess(db, undefined, ['fact-alice'])).resolves.toBeUndefined();
+  });
+
+  test('reports another user\'s fact as missing', async () => {
+    await expect(assertFactAccess(db, auth('bob'), ['fact-alice'])).rejects.toThrow('Fact with ID fact-alice not found');
+  });
+
+  test('leaves unknown IDs to the caller', async () => {
+    await expect(assertFactAccess(db, auth('bob'), ['missing'])).resolves.toBeUndefined();
+  });
+});
@@ -0,0 +1,224 @@
+import { createHash, createHmac, createPublicKey, randomBytes, timingSafeEqual, verify } from 'crypto';
+import { existsSync, readFileSync } from 'fs';
+import type { Request, Response, NextFunction, RequestHandler } from 'express';
+import type { AuthInfo } from '@modelcontextprotocol/sdk/server/auth/types.js';
+import type { OAuthTokenVerifier } from '@modelcontextprotocol/sdk/server/auth/provider.js';
+import { InvalidTokenError } from '@modelcontextprotocol/sdk/server/auth/errors.js';
+import type { FactDatabase } from './database.js';
+
+// Bearer-token authentication for the HTTP transport and the REST API.
+//
+// A token is either an API key ("mm_..."), stored hashed in the api_keys
+// table, or a JWT signed with a local key (MCP_JWT_SECRET for HS256, or
+// MCP_JWT_PUBLIC_KEY for RS256/ES256). Either way it resolves to a principal
+// userId, and callers may only touch that user's facts unless the token has
+// the memory:admin scope.
+
+declare module 'express-serve-static-core' {
+  interface Request {
+    auth?: AuthInfo;
+  }
+}
+
+export const ADMIN_SCOPE = 'memory:admin';
+
+const API_KEY_PREFIX = 'mm_';
+// Characters of the key kept in the database to tell keys apart
+const API_KEY_DISPLAY_LENGTH = 10;
+
+export const generateApiKey = () => {
+  const key = `${API_KEY_PREFIX}${randomBytes(32).toString('base64url')}`;
+  return { key, keyHash: hashApiKey(key), keyPrefix: key.slice(0, API_KEY_DISPLAY_LENGTH) };
+};
+
+// Keys are 256 random bits, so a plain SHA-256 is enough to store them
+export const hashApiKey = (key: string) => createHash('sha256').update(key).digest('hex');
+
+export interface JwtOptions {
+  secret?: string;
+  // PEM contents or a path to a PEM file
+  publicKey?: string;
+  issuer?: string;
+  audience?: string;
+}
+
+export const jwtOptionsFromEnv = (): JwtOptions => ({
+  secret: process.env.MCP_JWT_SECRET || undefined,
+  publicKey: process.env.MCP_JWT_PUBLIC_KEY || undefined,
+  issuer: process.env.MCP_JWT_ISSUER || undefined,
+  audience: process.env.MCP_JWT_AUDIENCE || undefined,
+});
+
+const decodeSegment = (segment: string): Record<string, unknown> => {
+  let value: unknown;
+  try {
+    value = JSON.parse(Buffer.from(segment, 'base64url').toString('utf8'));
+  } catch {
+    throw new InvalidTokenError('Malformed JWT');
+  }
+  // The header and the claims must both be JSON objects
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    throw new InvalidTokenError('Malformed JWT');
+  }
+  return value as Record<string, unknown>;
+};
+
+const verifyJwt = (token: string, options: JwtOptions): AuthInfo => {
+  const [encodedHeader, encodedPayload, encodedSignature] = token.split('.');
+  const header = decodeSegment(encodedHeader);
+  const payload = decodeSegment(encodedPayload);
+  const signature = Buffer.from(encodedSignature, 'base64url');
+  const signed = Buffer.from(`${encodedHeader}.${encodedPayload}`);
+
+  let valid = false;
+  if (header.alg === 'HS256' && options.secret) {
+    const expected = createHmac('sha256', options.secret).update(signed).digest();
+    valid = expected.length === signature.length && timingSafeEqual(expected, signature);
+  } else if ((header.alg === 'RS256' || header.alg === 'ES256') && options.publicKey) {
+    const pem = existsSync(options.publicKey) ? readFileSync(options.publicKey, 'utf8') : options.publicKey;
+    const key = createPublicKey(pem);
+    try {
+      valid = verify('sha256', signed, header.alg === 'ES256' ? { key, dsaEncoding: 'ieee-p1363' } : key, signature);
+    } catch {
+      // Signatures of the wrong shape make verify throw rather than return false
+      valid = false;
+    }
+  } else {
+    // The algorithm comes from the client, so it is not echoed back
+    throw new InvalidTokenError('Unsupported JWT algorithm');
+  }
+
+  if (!valid) {
+    throw new InvalidTokenError('Invalid JWT signature');
+  }
+
+  const now = Math.floor(Date.now() / 1000);
+  if (typeof payload.sub !== 'string' || !payload.sub) {
+    throw new InvalidTokenError('JWT has no subject');
+  }
+  // Tokens must expire; there is no revocation list for JWTs
+  if (typeof payload.exp !== 'number') {
+    throw new InvalidTokenError('JWT has no expiry');
+  }
+  if (payload.exp <= now) {
+    throw new InvalidTokenError('JWT has expired');
+  }
+  if (typeof payload.nbf === 'number' && payload.nbf > now) {
+    throw new InvalidTokenError('JWT is not valid yet');
+  }
+  if (options.issuer && payload.iss !== options.issuer) {
+    throw new InvalidTokenError('JWT issuer is not accepted');
+  }
+  const audiences = Array.isArray(payload.aud) ? payload.aud : [payload.aud];
+  if (options.audience && !audiences.includes(options.audience)) {
+    throw new InvalidTokenError('JWT audience is not accepted');
+  }
+
+  const scopes: string[] = typeof payload.scope === 'string'
+    ? payload.scope.split(' ').filter(Boolean)
+    : Array.isArray(payload.scopes) ? payload.scopes : [];
+
+  return {
+    token,
+    clientId: `jwt:${payload.iss || 'local'}:${payload.sub}`,
+    scopes,
+    expiresAt: payload.exp,
+    extra: { userId: payload.sub },
+  };
+};
+
+export const createTokenVerifier = (db: FactDatabase, jwt: JwtOptions = {}): OAuthTokenVerifier => ({
+  async verifyAccessToken(token: string): Promise<AuthInfo> {
+    if (token.startsWith(API_KEY_PREFIX)) {
+      const apiKey = await db.getApiKeyByHash(hashApiKey(token));
+
+      if (!apiKey) {
+        throw new InvalidTokenError('Invalid API key');
+      }
+      if (apiKey.revokedAt) {
+        throw new InvalidTokenError('API key has been revoked');
+      }
+      if (apiKey.expiresAt && new Date(apiKey.expiresAt) <= new Date()) {
+        throw new InvalidTokenError('API key has expired');
+      }
+
+      void db.touchApiKey(apiKey.id);
+
+      return {
+        token,
+        clientId: `key:${apiKey.id}`,
+        scopes: apiKey.scopes,
+        ...(apiKey.expiresAt && { expiresAt: Math.floor(new Date(apiKey.expiresAt).getTime() / 1000) }),
+        extra: { userId: apiKey.userId },
+      };
+    }
+
+    if ((jwt.secret || jwt.publicKey) && token.split('.').length === 3) {
+      return verifyJwt(token, jwt);
+    }
+
+    throw new InvalidTokenError('Unrecognized bearer token');
+  },
+});
+
+// Reject requests without a valid bearer token; onError renders the failure
+// in the format of the API being protected
+export const requireAuth = (
+  verifier: OAuthTokenVerifier,
+  onError: (res: Response, status: number, message: string) => void
+): RequestHandler => async (req: Request, res: Response, next: NextFunction) => {
+  const [type, token] = req.headers.authorization?.split(' ') ?? [];
+
+  if (type?.toLowerCase() !== 'bearer' || !token) {
+    res.set('WWW-Authenticate', 'Bearer');
+    onError(res, 401, 'Missing bearer token');
+    return;
+  }
+
+  try {
+    req.auth = await verifier.verifyAccessToken(token);
+    next();
+  } catch (error) {
+    if (error instanceof InvalidTokenError) {
+      res.set('WWW-Authenticate', `Bearer error="${error.errorCode}", error_description="${error.message}"`);
+      onError(res, 401, error.message);
+      return;
+    }
+    console.error('❌ Error verifying bearer token:', error);
+    onError(res, 500, 'Failed to verify bearer token');
+  }
+};
+
+// A session stays bound to the principal (token clientId) that opened it
+export const isSessionPrincipal = (sessionPrincipal: string | undefined, auth?: AuthInfo) =>
+  sessionPrincipal !== undefined && sessionPrincipal === auth?.clientId;
+
+export const principalUserId = (auth?: AuthInfo) => auth?.extra?.userId as string | undefined;
+
+export const isAdmin = (auth?: AuthInfo) => auth?.scopes.includes(ADMIN_SCOPE) ?? false;
+
+// No auth info means a trusted transport: stdio, or HTTP with MCP_AUTH=off
+export const canAccessUser = (auth: AuthInfo | undefined, userId: string) =>
+  !auth || isAdmin(auth) || principalUserId(auth) === userId;
+
+export const assertUserAccess = (auth: AuthInfo | undefined, userId: string) => {
+  if (!canAccessUser(auth, userId)) {
+    throw new Error(`Not allowed to access facts of user ${userId}`);
+  }
+};
+
+// Facts owned by someone else are reported as missing, so that IDs cannot be
+// probed. Unknown IDs pass and are reported by the caller as usual.
+export const canAccessFact = async (db: FactDatabase, auth: AuthInfo | undefined, id: string) => {
+  if (!auth || isAdmin(auth)) return true;
+  const fact = await db.getFactById(id, true);
+  return !fact || canAccessUser(auth, fact.userId);
+};
+
+export const assertFactAccess = async (db: FactDatabase, auth: AuthInfo | undefined, ids: string[]) => {
+  for (const id of ids) {
+    if (!(await canAccessFact(db, auth, id))) {
+      throw new Error(`Fact with ID ${id} not found`);
+    }
+  }
+};
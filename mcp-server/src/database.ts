@@ -1,5 +1,60 @@
-import { PrismaClient } from '@prisma/client';
-import type { Fact, CreateFact, UpdateFact, Query } from './types.js';
+import { PrismaClient, Prisma } from '@prisma/client';
+import type {
+  Fact,
+  FactSource,
+  CreateFact,
+  CreateFactResult,
+  UpdateFact,
+  Query,
+  SearchQuery,
+  SearchResult,
+  RevisionMeta,
+  RevisionAction,
+  FactRevision,
+  HistoryQuery,
+  PurgeQuery,
+  FactsSummary,
+  ImportedFact,
+  ImportPolicy,
+  ImportResult,
+  ApiKey,
+  CreateApiKey,
+  Predicate,
+  DefinePredicate,
+  PredicateCardinality,
+  PredicateValueType,
+  Entity,
+  EntityType,
+  EntityQuery,
+  SplitEntity,
+  EntityChangeResult,
+} from './types.js';
+import { CreateFactSchema } from './types.js';
+import {
+  embedText,
+  factToText,
+  cosineSimilarity,
+  lexicalOverlap,
+  tokenize,
+  serializeEmbedding,
+  parseEmbedding,
+} from './embedding.js';
+import {
+  isSingleValued,
+  normalizePredicateKey,
+  canonicalPredicate,
+  predicateForms,
+  getPredicate,
+  listPredicates,
+  registerPredicate,
+} from './predicates.js';
+import {
+  subjectEntityType,
+  objectEntityType,
+  isMentionOf,
+  mergeAliases,
+  normalizeMention,
+} from './entities.js';
 
 type PrismaFact = {
   id: string;
@@ -7,11 +62,91 @@ type PrismaFact = {
   predicate: string;
   object: string;
   userId: string;
+  embedding: string | null;
+  confidence: number;
+  source: string;
+  sourceMessageId: string | null;
+  supersededAt: Date | null;
+  supersededById: string | null;
+  validFrom: Date | null;
+  validUntil: Date | null;
+  archivedAt: Date | null;
+  deletedAt: Date | null;
+  subjectEntityId: string | null;
+  objectEntityId: string | null;
   timestamp: Date;
   createdAt: Date;
   updatedAt: Date;
 };
 
+type PrismaFactRevision = {
+  id: string;
+  factId: string;
+  userId: string;
+  action: string;
+  subject: string;
+  predicate: string;
+  object: string;
+  confidence: number | null;
+  source: string | null;
+  validFrom: Date | null;
+  validUntil: Date | null;
+  actor: string | null;
+  reason: string | null;
+  createdAt: Date;
+};
+
+type PrismaEntity = {
+  id: string;
+  userId: string;
+  name: string;
+  type: string;
+  aliases: string;
+  createdAt: Date;
+  updatedAt: Date;
+};
+
+type PrismaPredicate = {
+  id: string;
+  name: string;
+  aliases: string;
+  description: string | null;
+  valueType: string;
+  cardinality: string;
+  createdAt: Date;
+  updatedAt: Date;
+};
+
+type PrismaApiKey = {
+  id: string;
+  name: string;
+  keyHash: string;
+  keyPrefix: string;
+  userId: string;
+  scopes: string;
+  expiresAt: Date | null;
+  lastUsedAt: Date | null;
+  revokedAt: Date | null;
+  createdAt: Date;
+};
+
+type FullTextMatch = {
+  factId: string;
+  rank: number;
+  subject: string;
+  predicate: string;
+  object: string;
+};
+
+const HIGHLIGHT_OPEN = '<mark>';
+const HIGHLIGHT_CLOSE = '</mark>';
+const FULL_TEXT_MATCH_LIMIT = 1000;
+// Batch writes run in one transaction, which may take longer than a single write
+const BATCH_TIMEOUT_MS = 15000;
+
+// Facts linked to entities per transaction by linkUnlinkedFacts
+const LINK_BATCH_SIZE = 200;
+
 // Simple in-memory cache for frequently accessed data
 class FactCache {
   private cache = new Map<string, { data: Fact[], timestamp: number }>();
@@ -77,6 +212,7 @@ export class FactDatabase {
       await this.prisma.$connect();
       this.isConnected = true;
       console.log('✅ Connected to SQLite database with optimized settings');
+      await this.loadPredicates();
     } catch (error) {
       console.error('❌ Unable to connect to the database:', error);
       throw error; 
@@ -114,38 +250,272 @@ export class FactDatabase {
       predicate: prismaFact.predicate,
       object: prismaFact.object,
       userId: prismaFact.userId,
+      confidence: prismaFact.confidence,
+      source: prismaFact.source as FactSource,
+      ...(prismaFact.sourceMessageId && { sourceMessageId: prismaFact.sourceMessageId }),
       timestamp: prismaFact.timestamp.toISOString(),
       createdAt: prismaFact.createdAt.toISOString(),
       updatedAt: prismaFact.updatedAt.toISOString(),
+      ...(prismaFact.supersededAt && { supersededAt: prismaFact.supersededAt.toISOString() }),
+      ...(prismaFact.supersededById && { supersededById: prismaFact.supersededById }),
+      ...(prismaFact.validFrom && { validFrom: prismaFact.validFrom.toISOString() }),
+      ...(prismaFact.validUntil && { validUntil: prismaFact.validUntil.toISOString() }),
+      ...(prismaFact.archivedAt && { archivedAt: prismaFact.archivedAt.toISOString() }),
+      ...(prismaFact.deletedAt && { deletedAt: prismaFact.deletedAt.toISOString() }),
+      ...(prismaFact.subjectEntityId && { subjectEntityId: prismaFact.subjectEntityId }),
+      ...(prismaFact.objectEntityId && { objectEntityId: prismaFact.objectEntityId }),
     };
   }
 
-  async createFact(fact: CreateFact): Promise<Fact> {
-    try {
-      await this.connect(); // Ensure connection
-      
-      // Check for duplicate first (with timeout)
-      const existing = await Promise.race([
-        this.findDuplicateFact(fact),
-        new Promise<null>((_, reject) => 
-          setTimeout(() => reject(new Error('Duplicate check timeout')), 3000)
-        )
-      ]);
-      
-      if (existing) {
-        return existing;
-      }
+  // Facts that are neither superseded, archived nor in the trash and whose
+  // validity window contains the given moment
+  private currentFactsWhere(now: Date = new Date()): Prisma.FactWhereInput {
+    return {
+      supersededAt: null,
+      archivedAt: null,
+      deletedAt: null,
+      AND: [
+        { OR: [{ validFrom: null }, { validFrom: { lte: now } }] },
+        { OR: [{ validUntil: null }, { validUntil: { gt: now } }] },
+      ],
+    };
+  }
+
+  private mapPrismaRevisionToRevision(revision: PrismaFactRevision): FactRevision {
+    return {
+      id: revision.id,
+      factId: revision.factId,
+      userId: revision.userId,
+      action: revision.action as RevisionAction,
+      subject: revision.subject,
+      predicate: revision.predicate,
+      object: revision.object,
+      actor: revision.actor,
+      reason: revision.reason,
+      createdAt: revision.createdAt.toISOString(),
+    };
+  }
+
+  // Snapshot a fact into the revision log inside the caller's transaction
+  private async recordRevision(
+    tx: Prisma.TransactionClient,
+    fact: PrismaFact,
+    action: RevisionAction,
+    meta: RevisionMeta = {}
+  ): Promise<void> {
+    await tx.factRevision.create({
+      data: {
+        factId: fact.id,
+        userId: fact.userId,
+        action,
+        subject: fact.subject,
+        predicate: fact.predicate,
+        object: fact.object,
+        confidence: fact.confidence,
+        source: fact.source,
+        validFrom: fact.validFrom,
+        validUntil: fact.validUntil,
+        actor: meta.actor ?? null,
+        reason: meta.reason ?? null,
+      },
+    });
+  }
+
+  // Create (or re-assert) a fact inside the caller's transaction. For
+  // single-valued predicates every other current value of the same subject
+  // and predicate is marked as superseded by this one.
+  private async createFactInTx(
+    tx: Prisma.TransactionClient,
+    fact: CreateFact,
+    meta?: RevisionMeta
+  ): Promise<{ row: PrismaFact; superseded: PrismaFact[] }> {
+    // "job" and "occupation" are stored as works_as
+    fact = { ...fact, predicate: canonicalPredicate(fact.predicate) };
+
+    const duplicate = await tx.fact.findFirst({
+      where: {
+        userId: fact.userId,
+        subject: fact.subject,
+        predicate: fact.predicate,
+        object: fact.object,
+      },
+    });
+
+    const validity = {
+      ...(fact.validFrom && { validFrom: new Date(fact.validFrom) }),
+      ...(fact.validUntil && { validUntil: new Date(fact.validUntil) }),
+    };
 
-      const created = await Promise.race([
-        this.prisma.fact.create({
+    if (duplicate && !duplicate.supersededAt && !duplicate.archivedAt && !duplicate.deletedAt) {
+      // Restating a known fact with more certainty, or for a new period,
+      // reinforces it
+      const reinforce = fact.confidence !== undefined && fact.confidence > duplicate.confidence;
+      if (reinforce || Object.keys(validity).length > 0) {
+        const reinforced = await tx.fact.update({
+          where: { id: duplicate.id },
           data: {
-            subject: fact.subject,
-            predicate: fact.predicate,
-            object: fact.object,
-            userId: fact.userId,
-            timestamp: fact.timestamp ? new Date(fact.timestamp) : new Date(),
+            ...(reinforce && { confidence: fact.confidence }),
+            ...validity,
           },
-        }),
+        });
+        await this.recordRevision(tx, reinforced, 'update', meta);
+        return { row: reinforced, superseded: [] };
+      }
+      return { row: duplicate, superseded: [] };
+    }
+
+    const links = await this.linkEntitiesInTx(tx, fact);
+
+    let row: PrismaFact;
+    if (duplicate) {
+      // A previously replaced, expired or deleted value is current again
+      // ("moved back to Berlin")
+      row = await tx.fact.update({
+        where: { id: duplicate.id },
+        data: {
+          ...links,
+          supersededAt: null,
+          supersededById: null,
+          archivedAt: null,
+          deletedAt: null,
+          validFrom: validity.validFrom ?? null,
+          validUntil: validity.validUntil ?? null,
+          ...(fact.confidence !== undefined && { confidence: fact.confidence }),
+          ...(fact.source && { source: fact.source }),
+          ...(fact.sourceMessageId && { sourceMessageId: fact.sourceMessageId }),
+        },
+      });
+    } else {
+      row = await tx.fact.create({
+        data: {
+          subject: fact.subject,
+          predicate: fact.predicate,
+          object: fact.object,
+          userId: fact.userId,
+          ...(fact.confidence !== undefined && { confidence: fact.confidence }),
+          ...(fact.source && { source: fact.source }),
+          sourceMessageId: fact.sourceMessageId ?? null,
+          ...validity,
+          ...links,
+          embedding: serializeEmbedding(embedText(factToText(fact))),
+          timestamp: fact.timestamp ? new Date(fact.timestamp) : new Date(),
+        },
+      });
+    }
+    await this.recordRevision(tx, row, 'create', meta);
+
+    const superseded = await this.supersedePreviousValues(tx, row, meta);
+    return { row, superseded };
+  }
+
+  // Resolve a mention to one of the user's entities, creating the entity
+  // when nothing matches. A known entity ID passed along wins over matching
+  // by name and learns the mention as an alias. Batches pass the user's
+  // entities in `known`, which is kept up to date, instead of reading them
+  // for every mention.
+  private async resolveEntityInTx(
+    tx: Prisma.TransactionClient,
+    userId: string,
+    mention: string,
+    type: EntityType,
+    entityId?: string,
+    known?: Entity[]
+  ): Promise<string> {
+    const entities = known
+      ?? (await tx.entity.findMany({ where: { userId } })).map(row => this.mapPrismaEntityToEntity(row));
+    const entity = entities.find(candidate => candidate.id === entityId)
+      ?? entities.find(candidate => isMentionOf(candidate, mention));
+
+    if (!entity) {
+      const created = await tx.entity.create({
+        data: { userId, name: mention.trim(), type },
+      });
+      known?.push(this.mapPrismaEntityToEntity(created));
+      return created.id;
+    }
+
+    // Learn new names, and the type once a fact reveals it
+    const aliases = isMentionOf(entity, mention) ? entity.aliases : mergeAliases(entity.name, [...entity.aliases, mention]);
+    const upgradeType = entity.type === 'other' && type !== 'other';
+    if (aliases !== entity.aliases || upgradeType) {
+      await tx.entity.update({
+        where: { id: entity.id },
+        data: {
+          aliases: JSON.stringify(aliases),
+          ...(upgradeType && { type }),
+        },
+      });
+      entity.aliases = aliases;
+      if (upgradeType) entity.type = type;
+    }
+    return entity.id;
+  }
+
+  // Link a fact's subject, and its object unless that is a plain value, to
+  // the user's entities
+  private async linkEntitiesInTx(
+    tx: Prisma.TransactionClient,
+    fact: Pick<CreateFact, 'userId' | 'subject' | 'predicate' | 'object' | 'subjectEntityId' | 'objectEntityId'>,
+    known?: Entity[]
+  ): Promise<{ subjectEntityId: string; objectEntityId: string | null }> {
+    const subjectEntityId = await this.resolveEntityInTx(
+      tx, fact.userId, fact.subject, subjectEntityType(fact.subject), fact.subjectEntityId, known
+    );
+
+    const objectType = objectEntityType(fact.predicate);
+    const objectEntityId = objectType || fact.objectEntityId
+      ? await this.resolveEntityInTx(tx, fact.userId, fact.object, objectType || 'other', fact.objectEntityId, known)
+      : null;
+
+    return { subjectEntityId, objectEntityId };
+  }
+
+  // For single-valued predicates, mark every other current value of the
+  // same subject and predicate as superseded by the given fact
+  private async supersedePreviousValues(
+    tx: Prisma.TransactionClient,
+    row: PrismaFact,
+    meta?: RevisionMeta
+  ): Promise<PrismaFact[]> {
+    if (!isSingleValued(row.predicate)) {
+      return [];
+    }
+
+    const previousValues = await tx.fact.findMany({
+      where: {
+        userId: row.userId,
+        subject: row.subject,
+        predicate: { in: predicateForms(row.predicate) },
+        supersededAt: null,
+        archivedAt: null,
+        deletedAt: null,
+        id: { not: row.id },
+      },
+    });
+
+    const supersededAt = new Date();
+    const superseded: PrismaFact[] = [];
+    for (const previous of previousValues) {
+      const updated = await tx.fact.update({
+        where: { id: previous.id },
+        data: { supersededAt, supersededById: row.id },
+      });
+      await this.recordRevision(tx, updated, 'supersede', {
+        actor: meta?.actor,
+        reason: `Superseded by "${row.object}"`,
+      });
+      superseded.push(updated);
+    }
+
+    return superseded;
+  }
+
+  async createFact(fact: CreateFact, meta?: RevisionMeta): Promise<CreateFactResult> {
+    try {
+      await this.connect(); // Ensure connection
+
+      const result = await Promise.race([
+        this.prisma.$transaction((tx) => this.createFactInTx(tx, fact, meta)),
         new Promise<never>((_, reject) => 
           setTimeout(() => reject(new Error('Create fact timeout')), 5000)
         )
@@ -154,7 +524,10 @@ export class FactDatabase {
       // Invalidate cache for this user
       this.cache.invalidateUser(fact.userId);
       
-      return this.mapPrismaFactToFact(created);
+      return {
+        fact: this.mapPrismaFactToFact(result.row),
+        superseded: result.superseded.map(row => this.mapPrismaFactToFact(row)),
+      };
     } catch (error) {
       console.error('❌ Error creating fact:', error);
       if (error instanceof Error && error.message.includes('timeout')) {
@@ -164,13 +537,13 @@ export class FactDatabase {
     }
   }
 
-  async getFactById(id: string): Promise<Fact | null> {
+  async getFactById(id: string, includeDeleted: boolean = false): Promise<Fact | null> {
     try {
       await this.connect(); // Ensure connection
       
       const fact = await Promise.race([
-        this.prisma.fact.findUnique({
-          where: { id },
+        this.prisma.fact.findFirst({
+          where: { id, ...(!includeDeleted && { deletedAt: null }) },
         }),
         new Promise<null>((_, reject) => 
           setTimeout(() => reject(new Error('Query timeout')), 3000)
@@ -191,7 +564,7 @@ export class FactDatabase {
     try {
       await this.connect(); // Ensure connection
       
-      const whereClause: any = {};
+      const whereClause: Prisma.FactWhereInput = query.includeExpired ? { deletedAt: null } : this.currentFactsWhere();
 
       if (query.userId) {
         whereClause.userId = query.userId;
@@ -202,13 +575,27 @@ export class FactDatabase {
       }
 
       if (query.predicate) {
-        whereClause.predicate = query.predicate;
+        whereClause.predicate = { in: predicateForms(query.predicate) };
       }
 
       if (query.object) {
         whereClause.object = query.object;
       }
 
+      if (query.includeSuperseded) {
+        delete whereClause.supersededAt;
+      } else {
+        whereClause.supersededAt = null;
+      }
+
+      if (query.asOf) {
+        return await this.getFactsAsOf(query, new Date(query.asOf));
+      }
+
+      if (query.query) {
+        return await this.getFactsByFullText(query, whereClause);
+      }
+
       // Get total count
       const totalCount = await Promise.race([
         this.prisma.fact.count({
@@ -248,28 +635,220 @@ export class FactDatabase {
     }
   }
 
-  async updateFact(id: string, updates: UpdateFact): Promise<Fact | null> {
+  // Replay the revision log up to a moment in time. The latest revision of
+  // each fact wins; facts whose latest revision is a delete or purge did not
+  // exist, facts whose latest revision is a supersede or an archive were no
+  // longer current, and facts whose validity window did not contain the
+  // moment had expired or not started yet.
+  private async getFactsAsOf(query: Query, asOf: Date): Promise<{ facts: Fact[]; totalCount: number }> {
+    const revisions = await Promise.race([
+      this.prisma.factRevision.findMany({
+        where: {
+          ...(query.userId && { userId: query.userId }),
+          createdAt: { lte: asOf },
+        },
+        orderBy: [{ createdAt: 'asc' }, { id: 'asc' }],
+      }),
+      new Promise<never>((_, reject) => 
+        setTimeout(() => reject(new Error('Query timeout')), 5000)
+      )
+    ]);
+
+    const states = new Map<string, { createdAt: Date; latest: PrismaFactRevision }>();
+    for (const revision of revisions) {
+      const state = states.get(revision.factId);
+      states.set(revision.factId, {
+        createdAt: state?.createdAt ?? revision.createdAt,
+        latest: revision,
+      });
+    }
+
+    const validAt = (revision: PrismaFactRevision) =>
+      (!revision.validFrom || revision.validFrom <= asOf) && (!revision.validUntil || revision.validUntil > asOf);
+
+    const facts: Fact[] = [...states.values()]
+      .filter(({ latest }) => latest.action !== 'delete' && latest.action !== 'purge')
+      .filter(({ latest }) => query.includeSuperseded || latest.action !== 'supersede')
+      .filter(({ latest }) => query.includeExpired || (latest.action !== 'archive' && validAt(latest)))
+      .filter(({ latest }) =>
+        (!query.subject || latest.subject === query.subject) &&
+        (!query.predicate || predicateForms(query.predicate).includes(latest.predicate)) &&
+        (!query.object || latest.object === query.object)
+      )
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime())
+      .map(({ createdAt, latest }) => ({
+        id: latest.factId,
+        subject: latest.subject,
+        predicate: latest.predicate,
+        object: latest.object,
+        userId: latest.userId,
+        ...(latest.confidence !== null && { confidence: latest.confidence }),
+        ...(latest.source && { source: latest.source as FactSource }),
+        ...(latest.validFrom && { validFrom: latest.validFrom.toISOString() }),
+        ...(latest.validUntil && { validUntil: latest.validUntil.toISOString() }),
+        timestamp: createdAt.toISOString(),
+        createdAt: createdAt.toISOString(),
+        updatedAt: latest.createdAt.toISOString(),
+      }));
+
+    const limit = query.limit || 100;
+    const offset = query.offset || 0;
+
+    return {
+      facts: facts.slice(offset, offset + limit),
+      totalCount: facts.length,
+    };
+  }
+
+  // Run the full-text query first, then apply the remaining filters and
+  // pagination to the ranked matches
+  private async getFactsByFullText(query: Query, whereClause: Prisma.FactWhereInput): Promise<{ facts: Fact[]; totalCount: number }> {
+    const matches = await this.matchFullText(query.query!, query.userId);
+    const matchById = new Map(matches.map(match => [match.factId, match]));
+
+    const rows = await Promise.race([
+      this.prisma.fact.findMany({
+        where: { ...whereClause, id: { in: matches.map(match => match.factId) } },
+      }),
+      new Promise<never>((_, reject) => 
+        setTimeout(() => reject(new Error('Query timeout')), 5000)
+      )
+    ]);
+
+    const ranked = rows.sort((a: PrismaFact, b: PrismaFact) => matchById.get(a.id)!.rank - matchById.get(b.id)!.rank);
+    const limit = query.limit || 100;
+    const offset = query.offset || 0;
+
+    return {
+      facts: ranked.slice(offset, offset + limit).map((row: PrismaFact) => {
+        const match = matchById.get(row.id)!;
+        return {
+          ...this.mapPrismaFactToFact(row),
+          highlights: {
+            subject: match.subject,
+            predicate: match.predicate,
+            object: match.object,
+          },
+        };
+      }),
+      totalCount: ranked.length,
+    };
+  }
+
+  private async matchFullText(expression: string, userId?: string): Promise<FullTextMatch[]> {
+    const run = (match: string) => this.prisma.$queryRaw<FullTextMatch[]>`
+      SELECT "factId",
+        bm25("facts_fts") AS "rank",
+        highlight("facts_fts", 2, ${HIGHLIGHT_OPEN}, ${HIGHLIGHT_CLOSE}) AS "subject",
+        highlight("facts_fts", 3, ${HIGHLIGHT_OPEN}, ${HIGHLIGHT_CLOSE}) AS "predicate",
+        highlight("facts_fts", 4, ${HIGHLIGHT_OPEN}, ${HIGHLIGHT_CLOSE}) AS "object"
+      FROM "facts_fts"
+      WHERE "facts_fts" MATCH ${match}
+      ${userId ? Prisma.sql`AND "userId" = ${userId}` : Prisma.empty}
+      ORDER BY "rank"
+      LIMIT ${FULL_TEXT_MATCH_LIMIT}
+    `;
+
+    try {
+      return await run(expression);
+    } catch (error) {
+      // Free text such as "what's my job?" is not valid FTS5 syntax, so
+      // retry with every term quoted as a literal
+      if (error instanceof Error && error.message.includes('fts5')) {
+        const terms = expression.match(/[\p{L}\p{N}]+/gu) || [];
+        if (terms.length === 0) return [];
+        return run(terms.map(term => `"${term}"`).join(' '));
+      }
+      throw error;
+    }
+  }
+
+  // Apply an update inside the caller's transaction; null when the fact
+  // does not exist or is in the trash
+  private async updateFactInTx(
+    tx: Prisma.TransactionClient,
+    id: string,
+    updates: UpdateFact,
+    meta?: RevisionMeta
+  ): Promise<PrismaFact | null> {
+    const existing = await tx.fact.findFirst({
+      where: { id, deletedAt: null },
+    });
+    if (!existing) {
+      return null;
+    }
+
+    if (updates.predicate) {
+      updates = { ...updates, predicate: canonicalPredicate(updates.predicate) };
+    }
+
+    // Recompute the embedding, and the entity links when the triple changes
+    const triple = {
+      subject: updates.subject || existing.subject,
+      predicate: updates.predicate || existing.predicate,
+      object: updates.object || existing.object,
+    };
+    const changed = triple.subject !== existing.subject
+      || triple.predicate !== existing.predicate
+      || triple.object !== existing.object;
+    const embedding = serializeEmbedding(embedText(factToText(triple)));
+
+    // Only the side that changed is resolved again: after a split two
+    // entities may share a name, and matching by name would undo it
+    const links = changed
+      ? await this.linkEntitiesInTx(tx, {
+        ...triple,
+        userId: existing.userId,
+        ...(triple.subject === existing.subject && existing.subjectEntityId && { subjectEntityId: existing.subjectEntityId }),
+        ...(triple.object === existing.object && existing.objectEntityId && { objectEntityId: existing.objectEntityId }),
+      })
+      : {};
+
+    const row = await tx.fact.update({
+      where: { id },
+      data: {
+        ...(updates.subject && { subject: updates.subject }),
+        ...(updates.predicate && { predicate: updates.predicate }),
+        ...(updates.object && { object: updates.object }),
+        ...(updates.confidence !== undefined && { confidence: updates.confidence }),
+        ...(updates.source && { source: updates.source }),
+        ...(updates.validFrom !== undefined && {
+          validFrom: updates.validFrom ? new Date(updates.validFrom) : null,
+        }),
+        ...(updates.validUntil !== undefined && {
+          validUntil: updates.validUntil ? new Date(updates.validUntil) : null,
+        }),
+        ...links,
+        embedding,
+      },
+    });
+    await this.recordRevision(tx, row, 'update', meta);
+
+    // An edit may give a current fact a new value of a single-valued
+    // predicate ("lives_in Berlin" edited to "lives_in Paris")
+    if (changed && !row.supersededAt && !row.archivedAt) {
+      await this.supersedePreviousValues(tx, row, meta);
+    }
+    return row;
+  }
+
+  async updateFact(id: string, updates: UpdateFact, meta?: RevisionMeta): Promise<Fact | null> {
     try {
       await this.connect(); // Ensure connection
-      
+
       const updated = await Promise.race([
-        this.prisma.fact.update({
-          where: { id },
-          data: {
-            ...(updates.subject && { subject: updates.subject }),
-            ...(updates.predicate && { predicate: updates.predicate }),
-            ...(updates.object && { object: updates.object }),
-          },
-        }),
+        this.prisma.$transaction((tx) => this.updateFactInTx(tx, id, updates, meta)),
         new Promise<never>((_, reject) => 
           setTimeout(() => reject(new Error('Update timeout')), 5000)
         )
       ]);
 
-      // Invalidate cache for this user
-      if (updated) {
-        this.cache.invalidateUser(updated.userId);
+      if (!updated) {
+        return null;
       }
+
+      // Invalidate cache for this user
+      this.cache.invalidateUser(updated.userId);
       
       return this.mapPrismaFactToFact(updated);
     } catch (error) {
@@ -281,23 +860,62 @@ export class FactDatabase {
     }
   }
 
-  async deleteFact(id: string): Promise<boolean> {
+  // Trash (or permanently delete) a fact inside the caller's transaction;
+  // null when there is nothing to delete
+  private async deleteFactInTx(
+    tx: Prisma.TransactionClient,
+    id: string,
+    meta?: RevisionMeta,
+    permanent: boolean = false
+  ): Promise<PrismaFact | null> {
+    if (permanent) {
+      const existing = await tx.fact.findUnique({
+        where: { id },
+      });
+      if (!existing) {
+        return null;
+      }
+
+      const row = await tx.fact.delete({
+        where: { id },
+      });
+      await this.recordRevision(tx, row, 'purge', meta);
+      return row;
+    }
+
+    const existing = await tx.fact.findFirst({
+      where: { id, deletedAt: null },
+    });
+    if (!existing) {
+      return null;
+    }
+
+    const row = await tx.fact.update({
+      where: { id },
+      data: { deletedAt: new Date() },
+    });
+    await this.recordRevision(tx, row, 'delete', meta);
+    return row;
+  }
+
+  // Move a fact to the trash, or remove it for good when permanent is set
+  async deleteFact(id: string, meta?: RevisionMeta, permanent: boolean = false): Promise<boolean> {
     try {
       await this.connect(); // Ensure connection
       
       const deleted = await Promise.race([
-        this.prisma.fact.delete({
-          where: { id },
-        }),
+        this.prisma.$transaction((tx) => this.deleteFactInTx(tx, id, meta, permanent)),
         new Promise<never>((_, reject) => 
           setTimeout(() => reject(new Error('Delete timeout')), 5000)
         )
       ]);
 
-      // Invalidate cache for this user
-      if (deleted) {
-        this.cache.invalidateUser(deleted.userId);
+      if (!deleted) {
+        return false;
       }
+
+      // Invalidate cache for this user
+      this.cache.invalidateUser(deleted.userId);
       
       return true;
     } catch (error) {
@@ -309,114 +927,647 @@ export class FactDatabase {
     }
   }
 
-  async deleteAllFactsForUser(userId: string): Promise<number> {
+  // Batch variants of createFact, updateFact and deleteFact. Each batch runs
+  // in a single transaction: either every item is applied or none is, and
+  // results are returned in input order.
+
+  async createFacts(facts: CreateFact[], meta?: RevisionMeta): Promise<CreateFactResult[]> {
     try {
       await this.connect(); // Ensure connection
-      const result = await Promise.race([
-        this.prisma.fact.deleteMany({
-          where: { userId },
-        }),
-        new Promise<number>((_, reject) => 
-          setTimeout(() => reject(new Error('Delete user facts timeout')), 5000)
+
+      const results = await Promise.race([
+        this.prisma.$transaction(async (tx) => {
+          const created: { row: PrismaFact; superseded: PrismaFact[] }[] = [];
+          for (const fact of facts) {
+            created.push(await this.createFactInTx(tx, fact, meta));
+          }
+          return created;
+        }, { timeout: BATCH_TIMEOUT_MS }),
+        new Promise<never>((_, reject) => 
+          setTimeout(() => reject(new Error('Create facts timeout')), BATCH_TIMEOUT_MS)
         )
       ]);
-      // Invalidate cache for this user
-      this.cache.invalidateUser(userId);
-      return result.count;
+
+      for (const userId of new Set(facts.map(fact => fact.userId))) {
+        this.cache.invalidateUser(userId);
+      }
+
+      return results.map(result => ({
+        fact: this.mapPrismaFactToFact(result.row),
+        superseded: result.superseded.map(row => this.mapPrismaFactToFact(row)),
+      }));
     } catch (error) {
-      console.error('❌ Error deleting user facts:', error);
+      console.error('❌ Error creating facts:', error);
       if (error instanceof Error && error.message.includes('timeout')) {
-        throw new Error('Database delete user facts timeout - please try again');
+        throw new Error('Database operation timeout - please try again');
       }
-      throw new Error('Failed to delete user facts');
+      throw new Error('Failed to create facts');
     }
   }
 
-  async findDuplicateFact(fact: CreateFact): Promise<Fact | null> {
+  async updateFacts(updates: (UpdateFact & { id: string })[], meta?: RevisionMeta): Promise<Fact[]> {
     try {
       await this.connect(); // Ensure connection
-      const existing = await Promise.race([
-        this.prisma.fact.findFirst({
-          where: {
-            userId: fact.userId,
-            subject: fact.subject,
-            predicate: fact.predicate,
-            object: fact.object,
-          },
-        }),
-        new Promise<null>((_, reject) => 
-          setTimeout(() => reject(new Error('Duplicate fact check timeout')), 3000)
+
+      const rows = await Promise.race([
+        this.prisma.$transaction(async (tx) => {
+          const updated: PrismaFact[] = [];
+          for (const [index, { id, ...changes }] of updates.entries()) {
+            const row = await this.updateFactInTx(tx, id, changes, meta);
+            if (!row) {
+              // Abort the whole batch
+              throw new Error(`Item ${index}: fact ${id} not found`);
+            }
+            updated.push(row);
+          }
+          return updated;
+        }, { timeout: BATCH_TIMEOUT_MS }),
+        new Promise<never>((_, reject) => 
+          setTimeout(() => reject(new Error('Update facts timeout')), BATCH_TIMEOUT_MS)
         )
       ]);
 
-      return existing ? this.mapPrismaFactToFact(existing) : null;
+      for (const userId of new Set(rows.map(row => row.userId))) {
+        this.cache.invalidateUser(userId);
+      }
+
+      return rows.map(row => this.mapPrismaFactToFact(row));
     } catch (error) {
-      console.error('❌ Error finding duplicate fact:', error);
+      console.error('❌ Error updating facts:', error);
       if (error instanceof Error && error.message.includes('timeout')) {
-        throw new Error('Database duplicate fact check timeout - please try again');
+        throw new Error('Database update timeout - please try again');
       }
-      return null;
+      if (error instanceof Error && error.message.startsWith('Item ')) {
+        throw error;
+      }
+      throw new Error('Failed to update facts');
     }
   }
 
-  async getUserFactsSummary(userId: string): Promise<{ 
-    predicateCount: Record<string, number>; 
-    totalFacts: number;
-  }> {
+  async deleteFacts(ids: string[], meta?: RevisionMeta, permanent: boolean = false): Promise<Fact[]> {
     try {
       await this.connect(); // Ensure connection
-      const totalFacts = await Promise.race([
-        this.prisma.fact.count({
-          where: { userId },
-        }),
-        new Promise<number>((_, reject) => 
-          setTimeout(() => reject(new Error('Query timeout')), 5000)
-        )
-      ]);
 
-      const predicateGroups = await Promise.race([
-        this.prisma.fact.groupBy({
-          by: ['predicate'],
-          where: { userId },
-          _count: {
-            predicate: true,
-          },
-        }),
-        new Promise<any[]>((_, reject) => 
-          setTimeout(() => reject(new Error('Query timeout')), 5000)
+      const rows = await Promise.race([
+        this.prisma.$transaction(async (tx) => {
+          const deleted: PrismaFact[] = [];
+          for (const [index, id] of ids.entries()) {
+            const row = await this.deleteFactInTx(tx, id, meta, permanent);
+            if (!row) {
+              // Abort the whole batch
+              throw new Error(`Item ${index}: fact ${id} not found`);
+            }
+            deleted.push(row);
+          }
+          return deleted;
+        }, { timeout: BATCH_TIMEOUT_MS }),
+        new Promise<never>((_, reject) => 
+          setTimeout(() => reject(new Error('Delete facts timeout')), BATCH_TIMEOUT_MS)
         )
       ]);
 
-      const predicateCount: Record<string, number> = {};
-      predicateGroups.forEach((group: { predicate: string; _count: { predicate: number } }) => {
-        predicateCount[group.predicate] = group._count.predicate;
-      });
+      for (const userId of new Set(rows.map(row => row.userId))) {
+        this.cache.invalidateUser(userId);
+      }
 
-      return { predicateCount, totalFacts };
+      return rows.map(row => this.mapPrismaFactToFact(row));
     } catch (error) {
-      console.error('❌ Error getting user facts summary:', error);
+      console.error('❌ Error deleting facts:', error);
       if (error instanceof Error && error.message.includes('timeout')) {
-        throw new Error('Database user facts summary timeout - please try again');
+        throw new Error('Database delete timeout - please try again');
       }
-      throw new Error('Failed to get facts summary');
+      if (error instanceof Error && error.message.startsWith('Item ')) {
+        throw error;
+      }
+      throw new Error('Failed to delete facts');
     }
   }
 
-  async getFactsByUserId(userId: string, limit: number = 50, offset: number = 0): Promise<Fact[]> {
+  // Move all of a user's facts to the trash
+  async deleteAllFactsForUser(userId: string, meta?: RevisionMeta): Promise<number> {
     try {
       await this.connect(); // Ensure connection
-      
-      // Check cache first
-      const cacheKey = `user:${userId}:limit:${limit}:offset:${offset}`;
-      const cached = this.cache.get(cacheKey);
-      if (cached) {
-        return cached;
-      }
-
-      const facts = await Promise.race([
-        this.prisma.fact.findMany({
-          where: { userId },
-          orderBy: { createdAt: 'desc' },
+      const where = { userId, deletedAt: null };
+      const result = await Promise.race([
+        this.prisma.$transaction(async (tx) => {
+          const rows = await tx.fact.findMany({ where });
+          const deletedAt = new Date();
+          for (const row of rows) {
+            await this.recordRevision(tx, row, 'delete', meta);
+          }
+          return tx.fact.updateMany({
+            where: { id: { in: rows.map(row => row.id) } },
+            data: { deletedAt },
+          });
+        }),
+        new Promise<number>((_, reject) => 
+          setTimeout(() => reject(new Error('Delete user facts timeout')), 5000)
+        )
+      ]);
+      // Invalidate cache for this user
+      this.cache.invalidateUser(userId);
+      return result.count;
+    } catch (error) {
+      console.error('❌ Error deleting user facts:', error);
+      if (error instanceof Error && error.message.includes('timeout')) {
+        throw new Error('Database delete user facts timeout - please try again');
+      }
+      throw new Error('Failed to delete user facts');
+    }
+  }
+
+  async listDeletedFacts(userId: string, limit: number = 50, offset: number = 0): Promise<{ facts: Fact[]; totalCount: number }> {
+    try {
+      await this.connect(); // Ensure connection
+      const where = { userId, deletedAt: { not: null } };
+
+      const [rows, totalCount] = await Promise.race([
+        Promise.all([
+          this.prisma.fact.findMany({
+            where,
+            orderBy: { deletedAt: 'desc' },
+            take: limit,
+            skip: offset,
+          }),
+          this.prisma.fact.count({ where }),
+        ]),
+        new Promise<never>((_, reject) => 
+          setTimeout(() => reject(new Error('Query timeout')), 5000)
+        )
+      ]);
+
+      return {
+        facts: rows.map((row: PrismaFact) => this.mapPrismaFactToFact(row)),
+        totalCount,
+      };
+    } catch (error) {
+      console.error('❌ Error listing deleted facts:', error);
+      if (error instanceof Error && error.message.includes('timeout')) {
+        throw new Error('Database query timeout - please try again');
+      }
+      throw new Error('Failed to list deleted facts');
+    }
+  }
+
+  // Take a fact out of the trash. A restored single-valued fact becomes the
+  // current value again, superseding whatever replaced it in the meantime.
+  async restoreFact(id: string, meta?: RevisionMeta): Promise<CreateFactResult | null> {
+    try {
+      await this.connect(); // Ensure connection
+
+      const result = await Promise.race([
+        this.prisma.$transaction(async (tx) => {
+          const existing = await tx.fact.findFirst({
+            where: { id, deletedAt: { not: null } },
+          });
+          if (!existing) {
+            return null;
+          }
+
+          // Facts trashed before entities existed are linked on the way out
+          const links = existing.subjectEntityId ? {} : await this.linkEntitiesInTx(tx, {
+            userId: existing.userId,
+            subject: existing.subject,
+            predicate: existing.predicate,
+            object: existing.object,
+          });
+
+          const row = await tx.fact.update({
+            where: { id },
+            data: { deletedAt: null, ...links },
+          });
+          await this.recordRevision(tx, row, 'restore', meta);
+
+          const superseded = row.supersededAt || row.archivedAt
+            ? []
+            : await this.supersedePreviousValues(tx, row, meta);
+          return { row, superseded };
+        }),
+        new Promise<never>((_, reject) => 
+          setTimeout(() => reject(new Error('Restore timeout')), 5000)
+        )
+      ]);
+
+      if (!result) {
+        return null;
+      }
+
+      // Invalidate cache for this user
+      this.cache.invalidateUser(result.row.userId);
+
+      return {
+        fact: this.mapPrismaFactToFact(result.row),
+        superseded: result.superseded.map(row => this.mapPrismaFactToFact(row)),
+      };
+    } catch (error) {
+      console.error('❌ Error restoring fact:', error);
+      if (error instanceof Error && error.message.includes('timeout')) {
+        throw new Error('Database restore timeout - please try again');
+      }
+      throw new Error('Failed to restore fact');
+    }
+  }
+
+  // Permanently remove facts from a user's trash. Facts that are not in the
+  // trash are never touched.
+  async purgeFacts(query: PurgeQuery, meta?: RevisionMeta): Promise<number> {
+    try {
+      await this.connect(); // Ensure connection
+
+      const deletedBefore = new Date();
+      deletedBefore.setDate(deletedBefore.getDate() - (query.olderThanDays ?? 0));
+
+      const where: Prisma.FactWhereInput = {
+        userId: query.userId,
+        deletedAt: query.olderThanDays !== undefined ? { lte: deletedBefore } : { not: null },
+        ...(query.ids && { id: { in: query.ids } }),
+      };
+
+      const purged = await Promise.race([
+        this.prisma.$transaction(async (tx) => {
+          const rows = await tx.fact.findMany({ where });
+          for (const row of rows) {
+            await this.recordRevision(tx, row, 'purge', meta);
+          }
+          await tx.fact.deleteMany({
+            where: { id: { in: rows.map(row => row.id) } },
+          });
+          return rows.length;
+        }),
+        new Promise<never>((_, reject) => 
+          setTimeout(() => reject(new Error('Purge timeout')), 5000)
+        )
+      ]);
+
+      return purged;
+    } catch (error) {
+      console.error('❌ Error purging facts:', error);
+      if (error instanceof Error && error.message.includes('timeout')) {
+        throw new Error('Database purge timeout - please try again');
+      }
+      throw new Error('Failed to purge facts');
+    }
+  }
+
+  async getFactHistory(query: HistoryQuery): Promise<FactRevision[]> {
+    try {
+      await this.connect(); // Ensure connection
+
+      const revisions = await Promise.race([
+        this.prisma.factRevision.findMany({
+          where: {
+            ...(query.factId && { factId: query.factId }),
+            ...(query.userId && { userId: query.userId }),
+          },
+          orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+          take: query.limit || 100,
+        }),
+        new Promise<never>((_, reject) => 
+          setTimeout(() => reject(new Error('Query timeout')), 5000)
+        )
+      ]);
+
+      return revisions.map((revision: PrismaFactRevision) => this.mapPrismaRevisionToRevision(revision));
+    } catch (error) {
+      console.error('❌ Error getting fact history:', error);
+      if (error instanceof Error && error.message.includes('timeout')) {
+        throw new Error('Database query timeout - please try again');
+      }
+      throw new Error('Failed to get fact history');
+    }
+  }
+
+  async findDuplicateFact(fact: CreateFact): Promise<Fact | null> {
+    try {
+      await this.connect(); // Ensure connection
+      const existing = await Promise.race([
+        this.prisma.fact.findFirst({
+          where: {
+            userId: fact.userId,
+            subject: fact.subject,
+            predicate: canonicalPredicate(fact.predicate),
+            object: fact.object,
+          },
+        }),
+        new Promise<null>((_, reject) => 
+          setTimeout(() => reject(new Error('Duplicate fact check timeout')), 3000)
+        )
+      ]);
+
+      return existing ? this.mapPrismaFactToFact(existing) : null;
+    } catch (error) {
+      console.error('❌ Error finding duplicate fact:', error);
+      if (error instanceof Error && error.message.includes('timeout')) {
+        throw new Error('Database duplicate fact check timeout - please try again');
+      }
+      return null;
+    }
+  }
+
+  // All of a user's facts for export, oldest first so that re-importing
+  // replays single-valued predicates in the order they were learned
+  async exportFacts(
+    userId: string,
+    options: { includeSuperseded?: boolean; includeExpired?: boolean } = {}
+  ): Promise<Fact[]> {
+    try {
+      await this.connect(); // Ensure connection
+
+      const whereClause: Prisma.FactWhereInput = options.includeExpired
+        ? { deletedAt: null }
+        : this.currentFactsWhere();
+      if (!options.includeSuperseded) {
+        whereClause.supersededAt = null;
+      } else {
+        delete whereClause.supersededAt;
+      }
+
+      const facts = await Promise.race([
+        this.prisma.fact.findMany({
+          where: { ...whereClause, userId },
+          orderBy: { timestamp: 'asc' },
+        }),
+        new Promise<never>((_, reject) => 
+          setTimeout(() => reject(new Error('Export timeout')), BATCH_TIMEOUT_MS)
+        )
+      ]);
+
+      return facts.map(fact => this.mapPrismaFactToFact(fact));
+    } catch (error) {
+      console.error('❌ Error exporting facts:', error);
+      if (error instanceof Error && error.message.includes('timeout')) {
+        throw new Error('Database export timeout - please try again');
+      }
+      throw new Error('Failed to export facts');
+    }
+  }
+
+  // Import triples parsed from an export. A triple the user already has
+  // (see findDuplicateFact) is handled by the policy:
+  //   skip      - keep the existing fact untouched
+  //   overwrite - replace its confidence and validity with the imported ones
+  //   merge     - keep the higher confidence and the wider validity window
+  // Anything else, including triples sitting in the trash, is created with
+  // source "imported". All creates and updates run in one transaction, so a
+  // failed import leaves the store untouched.
+  async importFacts(
+    userId: string,
+    facts: ImportedFact[],
+    policy: ImportPolicy = 'skip',
+    meta?: RevisionMeta
+  ): Promise<ImportResult> {
+    const result: ImportResult = { created: 0, updated: 0, skipped: 0, invalid: [] };
+    const valid: CreateFact[] = [];
+    const seen = new Set<string>();
+    const tripleKey = (fact: Pick<CreateFact, 'subject' | 'predicate' | 'object'>) =>
+      JSON.stringify([fact.subject, fact.predicate, fact.object]);
+
+    // Exports may use date-only values; the store wants full timestamps
+    const toDateTime = (value?: string) => {
+      if (!value) return undefined;
+      const date = new Date(value);
+      return isNaN(date.getTime()) ? value : date.toISOString();
+    };
+
+    for (const [index, imported] of facts.entries()) {
+      const validation = CreateFactSchema.safeParse({
+        subject: imported.subject.trim(),
+        predicate: canonicalPredicate(imported.predicate),
+        object: imported.object.trim(),
+        userId,
+        confidence: imported.confidence,
+        source: 'imported',
+        validFrom: toDateTime(imported.validFrom),
+        validUntil: toDateTime(imported.validUntil),
+        timestamp: toDateTime(imported.timestamp),
+      });
+
+      if (!validation.success) {
+        result.invalid.push({
+          index,
+          error: validation.error.errors.map(issue => `${issue.path.join('.')}: ${issue.message}`).join('; '),
+        });
+        continue;
+      }
+
+      const key = tripleKey(validation.data);
+      if (seen.has(key)) {
+        result.skipped++;
+        continue;
+      }
+      seen.add(key);
+      valid.push(validation.data);
+    }
+
+    if (valid.length === 0) {
+      return result;
+    }
+
+    const importMeta = { actor: meta?.actor, reason: meta?.reason || `Imported (${policy})` };
+
+    try {
+      await this.connect(); // Ensure connection
+
+      const counts = await Promise.race([
+        this.prisma.$transaction(async (tx) => {
+          // The user's facts about the imported subjects, read once
+          const rows = await tx.fact.findMany({
+            where: { userId, subject: { in: [...new Set(valid.map(fact => fact.subject))] } },
+          });
+          const existingByTriple = new Map<string, Fact>();
+          for (const row of rows) {
+            const key = tripleKey(row);
+            // Prefer a fact outside the trash
+            if (!existingByTriple.get(key) || existingByTriple.get(key)!.deletedAt) {
+              existingByTriple.set(key, this.mapPrismaFactToFact(row));
+            }
+          }
+
+          const creates: CreateFact[] = [];
+          const updates: (UpdateFact & { id: string })[] = [];
+          let skipped = 0;
+
+          for (const fact of valid) {
+            const existing = existingByTriple.get(tripleKey(fact));
+            if (!existing || existing.deletedAt) {
+              creates.push(fact);
+              continue;
+            }
+
+            const changes: UpdateFact = {};
+            if (policy === 'overwrite') {
+              changes.confidence = fact.confidence ?? 1;
+              changes.source = 'imported';
+              changes.validFrom = fact.validFrom ?? null;
+              changes.validUntil = fact.validUntil ?? null;
+            } else if (policy === 'merge') {
+              changes.confidence = Math.max(existing.confidence ?? 1, fact.confidence ?? 0);
+              // An open bound on either side wins
+              changes.validFrom = existing.validFrom && fact.validFrom
+                ? (existing.validFrom < fact.validFrom ? existing.validFrom : fact.validFrom)
+                : null;
+              changes.validUntil = existing.validUntil && fact.validUntil
+                ? (existing.validUntil > fact.validUntil ? existing.validUntil : fact.validUntil)
+                : null;
+            }
+
+            const changed = (Object.keys(changes) as (keyof UpdateFact)[]).some(field =>
+              (changes[field] ?? null) !== (existing[field] ?? null)
+            );
+            if (!changed) {
+              skipped++;
+              continue;
+            }
+            updates.push({ id: existing.id!, ...changes });
+          }
+
+          // Replay in the order the facts were learned so the latest value of
+          // a single-valued predicate ends up current
+          creates.sort((a, b) => (a.timestamp || '').localeCompare(b.timestamp || ''));
+          for (const fact of creates) {
+            await this.createFactInTx(tx, fact, importMeta);
+          }
+          for (const { id, ...changes } of updates) {
+            await this.updateFactInTx(tx, id, changes, importMeta);
+          }
+
+          return { created: creates.length, updated: updates.length, skipped };
+        }, { timeout: BATCH_TIMEOUT_MS }),
+        new Promise<never>((_, reject) => 
+          setTimeout(() => reject(new Error('Import timeout')), BATCH_TIMEOUT_MS)
+        )
+      ]);
+
+      this.cache.invalidateUser(userId);
+
+      return {
+        ...result,
+        created: counts.created,
+        updated: counts.updated,
+        skipped: result.skipped + counts.skipped,
+      };
+    } catch (error) {
+      console.error('❌ Error importing facts:', error);
+      if (error instanceof Error && error.message.includes('timeout')) {
+        throw new Error('Database import timeout - please try again');
+      }
+      throw new Error('Failed to import facts');
+    }
+  }
+
+  // Rank a user's facts against a free-text query using local embeddings
+  // blended with exact token overlap
+  async searchFacts(search: SearchQuery): Promise<SearchResult[]> {
+    try {
+      await this.connect(); // Ensure connection
+
+      const rows = await Promise.race([
+        this.prisma.fact.findMany({
+          where: { userId: search.userId, ...this.currentFactsWhere() },
+        }),
+        new Promise<never>((_, reject) => 
+          setTimeout(() => reject(new Error('Query timeout')), 5000)
+        )
+      ]);
+
+      const queryVector = embedText(search.query);
+      const queryTokens = tokenize(search.query);
+      const minScore = search.minScore ?? 0.1;
+      const backfill: { id: string; embedding: string }[] = [];
+
+      const results = rows.map((row: PrismaFact) => {
+        const text = factToText(row);
+        let vector = parseEmbedding(row.embedding);
+
+        // Facts created before embeddings existed are embedded lazily
+        if (!vector) {
+          vector = embedText(text);
+          backfill.push({ id: row.id, embedding: serializeEmbedding(vector) });
+        }
+
+        const score = 0.7 * cosineSimilarity(queryVector, vector) + 0.3 * lexicalOverlap(queryTokens, text);
+        return { fact: this.mapPrismaFactToFact(row), score: Number(score.toFixed(4)) };
+      });
+
+      if (backfill.length > 0) {
+        await this.prisma.$transaction(
+          backfill.map(({ id, embedding }) =>
+            this.prisma.fact.update({ where: { id }, data: { embedding } })
+          )
+        ).catch((error: unknown) => console.warn('⚠️ Failed to backfill fact embeddings:', error));
+      }
+
+      return results
+        .filter(result => result.score >= minScore)
+        .sort((a, b) => b.score - a.score)
+        .slice(0, search.limit || 10);
+    } catch (error) {
+      console.error('❌ Error searching facts:', error);
+      if (error instanceof Error && error.message.includes('timeout')) {
+        throw new Error('Database search timeout - please try again');
+      }
+      throw new Error('Failed to search facts');
+    }
+  }
+
+  async getUserFactsSummary(userId: string): Promise<FactsSummary> {
+    try {
+      await this.connect(); // Ensure connection
+      const totalFacts = await Promise.race([
+        this.prisma.fact.count({
+          where: { userId, ...this.currentFactsWhere() },
+        }),
+        new Promise<number>((_, reject) => 
+          setTimeout(() => reject(new Error('Query timeout')), 5000)
+        )
+      ]);
+
+      const predicateGroups = await Promise.race([
+        this.prisma.fact.groupBy({
+          by: ['predicate'],
+          where: { userId, ...this.currentFactsWhere() },
+          _count: {
+            predicate: true,
+          },
+        }),
+        new Promise<any[]>((_, reject) => 
+          setTimeout(() => reject(new Error('Query timeout')), 5000)
+        )
+      ]);
+
+      // Facts stored under an alias before it was known count towards the
+      // canonical predicate
+      const predicateCount: Record<string, number> = {};
+      predicateGroups.forEach((group: { predicate: string; _count: { predicate: number } }) => {
+        const predicate = canonicalPredicate(group.predicate);
+        predicateCount[predicate] = (predicateCount[predicate] || 0) + group._count.predicate;
+      });
+
+      return { predicateCount, totalFacts };
+    } catch (error) {
+      console.error('❌ Error getting user facts summary:', error);
+      if (error instanceof Error && error.message.includes('timeout')) {
+        throw new Error('Database user facts summary timeout - please try again');
+      }
+      throw new Error('Failed to get facts summary');
+    }
+  }
+
+  async getFactsByUserId(userId: string, limit: number = 50, offset: number = 0): Promise<Fact[]> {
+    try {
+      await this.connect(); // Ensure connection
+      
+      // Check cache first
+      const cacheKey = `user:${userId}:limit:${limit}:offset:${offset}`;
+      const cached = this.cache.get(cacheKey);
+      if (cached) {
+        return cached;
+      }
+
+      const facts = await Promise.race([
+        this.prisma.fact.findMany({
+          where: { userId, ...this.currentFactsWhere() },
+          orderBy: { createdAt: 'desc' },
           take: limit,
           skip: offset,
         }),
@@ -440,6 +1591,52 @@ export class FactDatabase {
     }
   }
 
+  // Archive facts whose validity window has ended. Archived facts drop out
+  // of current reads but stay in the table and the revision log.
+  async archiveExpiredFacts(now: Date = new Date()): Promise<number> {
+    try {
+      await this.connect(); // Ensure connection
+
+      const archived = await Promise.race([
+        this.prisma.$transaction(async (tx) => {
+          const rows = await tx.fact.findMany({
+            where: {
+              archivedAt: null,
+              deletedAt: null,
+              validUntil: { lte: now },
+            },
+          });
+          for (const row of rows) {
+            const updated = await tx.fact.update({
+              where: { id: row.id },
+              data: { archivedAt: now },
+            });
+            await this.recordRevision(tx, updated, 'archive', {
+              actor: 'system',
+              reason: 'Validity window ended',
+            });
+          }
+          return rows;
+        }),
+        new Promise<never>((_, reject) => 
+          setTimeout(() => reject(new Error('Archive expired facts timeout')), 5000)
+        )
+      ]);
+
+      for (const userId of new Set(archived.map((row: PrismaFact) => row.userId))) {
+        this.cache.invalidateUser(userId);
+      }
+
+      return archived.length;
+    } catch (error) {
+      console.error('❌ Error archiving expired facts:', error);
+      if (error instanceof Error && error.message.includes('timeout')) {
+        throw new Error('Database archive expired facts timeout - please try again');
+      }
+      throw new Error('Failed to archive expired facts');
+    }
+  }
+
   // Clean up old facts (optional utility)
   async cleanupOldFacts(olderThanDays: number = 90): Promise<number> {
     try {
@@ -447,13 +1644,22 @@ export class FactDatabase {
       const cutoffDate = new Date();
       cutoffDate.setDate(cutoffDate.getDate() - olderThanDays);
 
+      const where = {
+        createdAt: {
+          lt: cutoffDate,
+        },
+      };
+
       const result = await Promise.race([
-        this.prisma.fact.deleteMany({
-          where: {
-            createdAt: {
-              lt: cutoffDate,
-            },
-          },
+        this.prisma.$transaction(async (tx) => {
+          const rows = await tx.fact.findMany({ where });
+          for (const row of rows) {
+            await this.recordRevision(tx, row, 'purge', {
+              actor: 'system',
+              reason: `Cleanup of facts older than ${olderThanDays} days`,
+            });
+          }
+          return tx.fact.deleteMany({ where });
         }),
         new Promise<number>((_, reject) => 
           setTimeout(() => reject(new Error('Cleanup old facts timeout')), 5000)
@@ -469,4 +1675,474 @@ export class FactDatabase {
       throw new Error('Failed to cleanup old facts');
     }
   }
+
+  private mapPrismaEntityToEntity(entity: PrismaEntity): Entity {
+    return {
+      id: entity.id,
+      userId: entity.userId,
+      name: entity.name,
+      type: entity.type as EntityType,
+      aliases: JSON.parse(entity.aliases) as string[],
+      createdAt: entity.createdAt.toISOString(),
+      updatedAt: entity.updatedAt.toISOString(),
+    };
+  }
+
+  // Every fact gets a subject entity when it is created, so facts without
+  // one predate entities. Run once after upgrading (bun run db:link-entities);
+  // each batch is its own transaction, so an interrupted run picks up where
+  // it stopped. Trashed and superseded facts are left alone: they are linked
+  // if they ever become current again. Returns the number of facts linked.
+  async linkUnlinkedFacts(batchSize: number = LINK_BATCH_SIZE): Promise<number> {
+    try {
+      await this.connect(); // Ensure connection
+
+      let linked = 0;
+      for (;;) {
+        const batch = await this.prisma.fact.findMany({
+          where: { subjectEntityId: null, supersededAt: null, deletedAt: null },
+          orderBy: { timestamp: 'asc' },
+          take: batchSize,
+        });
+        if (batch.length === 0) break;
+
+        await this.prisma.$transaction(async (tx) => {
+          const entitiesByUser = new Map<string, Entity[]>();
+          for (const fact of batch) {
+            let known = entitiesByUser.get(fact.userId);
+            if (!known) {
+              known = (await tx.entity.findMany({ where: { userId: fact.userId } }))
+                .map(row => this.mapPrismaEntityToEntity(row));
+              entitiesByUser.set(fact.userId, known);
+            }
+
+            await tx.fact.update({
+              where: { id: fact.id },
+              data: await this.linkEntitiesInTx(tx, {
+                userId: fact.userId,
+                subject: fact.subject,
+                predicate: fact.predicate,
+                object: fact.object,
+              }, known),
+            });
+          }
+        }, { timeout: BATCH_TIMEOUT_MS });
+
+        for (const userId of new Set(batch.map(fact => fact.userId))) {
+          this.cache.invalidateUser(userId);
+        }
+        linked += batch.length;
+      }
+
+      return linked;
+    } catch (error) {
+      console.error('❌ Error linking facts to entities:', error);
+      throw new Error('Failed to link facts to entities');
+    }
+  }
+
+  async getEntity(id: string): Promise<Entity | null> {
+    try {
+      await this.connect(); // Ensure connection
+
+      const entity = await Promise.race([
+        this.prisma.entity.findUnique({ where: { id } }),
+        new Promise<null>((_, reject) => 
+          setTimeout(() => reject(new Error('Query timeout')), 3000)
+        )
+      ]);
+
+      return entity ? this.mapPrismaEntityToEntity(entity) : null;
+    } catch (error) {
+      console.error('❌ Error getting entity:', error);
+      if (error instanceof Error && error.message.includes('timeout')) {
+        throw new Error('Database query timeout - please try again');
+      }
+      throw new Error('Failed to get entity');
+    }
+  }
+
+  async listEntities(query: EntityQuery): Promise<Entity[]> {
+    try {
+      await this.connect(); // Ensure connection
+
+      const rows = await Promise.race([
+        this.prisma.entity.findMany({
+          where: { userId: query.userId, ...(query.type && { type: query.type }) },
+          orderBy: { name: 'asc' },
+        }),
+        new Promise<never>((_, reject) => 
+          setTimeout(() => reject(new Error('Query timeout')), 5000)
+        )
+      ]);
+
+      // Aliases are JSON-encoded, so names are matched here
+      const text = query.query && normalizeMention(query.query);
+      return rows
+        .map(row => this.mapPrismaEntityToEntity(row))
+        .filter(entity => !text || [entity.name, ...entity.aliases].some(name => normalizeMention(name).includes(text)))
+        .slice(0, query.limit || 100);
+    } catch (error) {
+      console.error('❌ Error listing entities:', error);
+      if (error instanceof Error && error.message.includes('timeout')) {
+        throw new Error('Database query timeout - please try again');
+      }
+      throw new Error('Failed to list entities');
+    }
+  }
+
+  // A user's entities with the facts currently linking them, for graph
+  // queries (see graph.ts)
+  async getGraph(userId: string): Promise<{ entities: Entity[]; facts: Fact[] }> {
+    try {
+      await this.connect(); // Ensure connection
+
+      const [entities, facts] = await Promise.race([
+        Promise.all([
+          this.prisma.entity.findMany({ where: { userId } }),
+          this.prisma.fact.findMany({
+            where: { userId, ...this.currentFactsWhere() },
+            orderBy: { createdAt: 'asc' },
+          }),
+        ]),
+        new Promise<never>((_, reject) => 
+          setTimeout(() => reject(new Error('Query timeout')), 5000)
+        )
+      ]);
+
+      return {
+        entities: entities.map(entity => this.mapPrismaEntityToEntity(entity)),
+        facts: facts.map(fact => this.mapPrismaFactToFact(fact)),
+      };
+    } catch (error) {
+      console.error('❌ Error loading graph:', error);
+      if (error instanceof Error && error.message.includes('timeout')) {
+        throw new Error('Database query timeout - please try again');
+      }
+      throw new Error('Failed to load graph');
+    }
+  }
+
+  // Fold the source entities into the target: their facts point at the
+  // target, their names become its aliases and they are removed. Null when
+  // an entity is missing or they do not all belong to the same user.
+  async mergeEntities(targetId: string, sourceIds: string[]): Promise<EntityChangeResult | null> {
+    try {
+      await this.connect(); // Ensure connection
+
+      const result = await Promise.race([
+        this.prisma.$transaction(async (tx) => {
+          const target = await tx.entity.findUnique({ where: { id: targetId } });
+          const ids = sourceIds.filter(id => id !== targetId);
+          const sources = await tx.entity.findMany({ where: { id: { in: ids } } });
+          if (!target || sources.length !== new Set(ids).size || sources.some(source => source.userId !== target.userId)) {
+            return null;
+          }
+
+          const subjects = await tx.fact.updateMany({
+            where: { subjectEntityId: { in: ids } },
+            data: { subjectEntityId: target.id },
+          });
+          const objects = await tx.fact.updateMany({
+            where: { objectEntityId: { in: ids } },
+            data: { objectEntityId: target.id },
+          });
+
+          const merged = this.mapPrismaEntityToEntity(target);
+          const mergedSources = sources.map(source => this.mapPrismaEntityToEntity(source));
+          const type = merged.type !== 'other'
+            ? merged.type
+            : mergedSources.find(source => source.type !== 'other')?.type ?? 'other';
+
+          const updated = await tx.entity.update({
+            where: { id: target.id },
+            data: {
+              type,
+              aliases: JSON.stringify(mergeAliases(merged.name, [
+                ...merged.aliases,
+                ...mergedSources.flatMap(source => [source.name, ...source.aliases]),
+              ])),
+            },
+          });
+          await tx.entity.deleteMany({ where: { id: { in: ids } } });
+
+          return {
+            entity: this.mapPrismaEntityToEntity(updated),
+            movedLinks: subjects.count + objects.count,
+          };
+        }),
+        new Promise<never>((_, reject) => 
+          setTimeout(() => reject(new Error('Merge entities timeout')), 5000)
+        )
+      ]);
+
+      if (result) {
+        this.cache.invalidateUser(result.entity.userId);
+      }
+      return result;
+    } catch (error) {
+      console.error('❌ Error merging entities:', error);
+      if (error instanceof Error && error.message.includes('timeout')) {
+        throw new Error('Database operation timeout - please try again');
+      }
+      throw new Error('Failed to merge entities');
+    }
+  }
+
+  // Split a new entity off an existing one, taking the given aliases and the
+  // links of the given facts with it. Null when the entity does not exist.
+  async splitEntity(entityId: string, split: SplitEntity): Promise<EntityChangeResult | null> {
+    try {
+      await this.connect(); // Ensure connection
+
+      const result = await Promise.race([
+        this.prisma.$transaction(async (tx) => {
+          const row = await tx.entity.findUnique({ where: { id: entityId } });
+          if (!row) {
+            return null;
+          }
+          const entity = this.mapPrismaEntityToEntity(row);
+
+          const created = await tx.entity.create({
+            data: {
+              userId: entity.userId,
+              name: split.name.trim(),
+              type: split.type ?? entity.type,
+              aliases: JSON.stringify(mergeAliases(split.name, split.aliases || [])),
+            },
+          });
+
+          const moved = new Set([split.name, ...(split.aliases || [])].map(normalizeMention));
+          const updated = await tx.entity.update({
+            where: { id: entity.id },
+            data: {
+              aliases: JSON.stringify(entity.aliases.filter(alias => !moved.has(normalizeMention(alias)))),
+            },
+          });
+
+          const factIds = split.factIds || [];
+          const subjects = await tx.fact.updateMany({
+            where: { id: { in: factIds }, subjectEntityId: entity.id },
+            data: { subjectEntityId: created.id },
+          });
+          const objects = await tx.fact.updateMany({
+            where: { id: { in: factIds }, objectEntityId: entity.id },
+            data: { objectEntityId: created.id },
+          });
+
+          return {
+            entity: this.mapPrismaEntityToEntity(updated),
+            created: this.mapPrismaEntityToEntity(created),
+            movedLinks: subjects.count + objects.count,
+          };
+        }),
+        new Promise<never>((_, reject) => 
+          setTimeout(() => reject(new Error('Split entity timeout')), 5000)
+        )
+      ]);
+
+      if (result) {
+        this.cache.invalidateUser(result.entity.userId);
+      }
+      return result;
+    } catch (error) {
+      console.error('❌ Error splitting entity:', error);
+      if (error instanceof Error && error.message.includes('timeout')) {
+        throw new Error('Database operation timeout - please try again');
+      }
+      throw new Error('Failed to split entity');
+    }
+  }
+
+  private registerPrismaPredicate(predicate: PrismaPredicate): Predicate {
+    return registerPredicate({
+      name: predicate.name,
+      aliases: predicate.aliases.split(' ').filter(Boolean),
+      ...(predicate.description && { description: predicate.description }),
+      valueType: predicate.valueType as PredicateValueType,
+      cardinality: predicate.cardinality as PredicateCardinality,
+    }, true);
+  }
+
+  // Stored definitions extend the built-in vocabulary once connected. Without
+  // them facts are still normalized against the built-in vocabulary.
+  private async loadPredicates(): Promise<void> {
+    try {
+      const predicates = await this.prisma.predicate.findMany();
+      predicates.forEach(predicate => this.registerPrismaPredicate(predicate));
+    } catch (error) {
+      console.warn('⚠️ Failed to load predicate definitions:', error);
+    }
+  }
+
+  async listPredicates(): Promise<Predicate[]> {
+    await this.connect(); // Ensure stored definitions are loaded
+    return listPredicates();
+  }
+
+  // Add a predicate to the vocabulary or redefine one. Fields that are left
+  // out keep their current value; aliases replace the current ones. The
+  // caller checks for clashing names first (see findPredicateConflict).
+  async definePredicate(definition: DefinePredicate): Promise<Predicate> {
+    try {
+      await this.connect(); // Ensure connection
+
+      const name = normalizePredicateKey(definition.name);
+      const current = getPredicate(name);
+      const data = {
+        aliases: (definition.aliases ?? current?.aliases ?? []).map(normalizePredicateKey).join(' '),
+        description: definition.description ?? current?.description ?? null,
+        valueType: definition.valueType ?? current?.valueType ?? 'text',
+        cardinality: definition.cardinality ?? current?.cardinality ?? 'multi',
+      };
+
+      const predicate = await Promise.race([
+        this.prisma.predicate.upsert({
+          where: { name },
+          create: { name, ...data },
+          update: data,
+        }),
+        new Promise<never>((_, reject) => 
+          setTimeout(() => reject(new Error('Define predicate timeout')), 5000)
+        )
+      ]);
+
+      return this.registerPrismaPredicate(predicate);
+    } catch (error) {
+      console.error('❌ Error defining predicate:', error);
+      if (error instanceof Error && error.message.includes('timeout')) {
+        throw new Error('Database operation timeout - please try again');
+      }
+      throw new Error('Failed to define predicate');
+    }
+  }
+
+  private mapPrismaApiKeyToApiKey(apiKey: PrismaApiKey): ApiKey {
+    return {
+      id: apiKey.id,
+      name: apiKey.name,
+      keyPrefix: apiKey.keyPrefix,
+      userId: apiKey.userId,
+      scopes: apiKey.scopes.split(' ').filter(Boolean),
+      ...(apiKey.expiresAt && { expiresAt: apiKey.expiresAt.toISOString() }),
+      ...(apiKey.lastUsedAt && { lastUsedAt: apiKey.lastUsedAt.toISOString() }),
+      ...(apiKey.revokedAt && { revokedAt: apiKey.revokedAt.toISOString() }),
+      createdAt: apiKey.createdAt.toISOString(),
+    };
+  }
+
+  // API keys are generated and hashed by the caller (see auth.ts); only the
+  // hash and a short prefix are stored
+  async createApiKey(input: CreateApiKey, keyHash: string, keyPrefix: string): Promise<ApiKey> {
+    try {
+      await this.connect(); // Ensure connection
+
+      const apiKey = await Promise.race([
+        this.prisma.apiKey.create({
+          data: {
+            name: input.name,
+            userId: input.userId,
+            keyHash,
+            keyPrefix,
+            scopes: (input.scopes || []).join(' '),
+            expiresAt: input.expiresAt ? new Date(input.expiresAt) : null,
+          },
+        }),
+        new Promise<never>((_, reject) => 
+          setTimeout(() => reject(new Error('Create API key timeout')), 5000)
+        )
+      ]);
+
+      return this.mapPrismaApiKeyToApiKey(apiKey);
+    } catch (error) {
+      console.error('❌ Error creating API key:', error);
+      if (error instanceof Error && error.message.includes('timeout')) {
+        throw new Error('Database operation timeout - please try again');
+      }
+      throw new Error('Failed to create API key');
+    }
+  }
+
+  // Look up a key by hash, including revoked and expired keys so the caller
+  // can say why a key was rejected
+  async getApiKeyByHash(keyHash: string): Promise<ApiKey | null> {
+    try {
+      await this.connect(); // Ensure connection
+
+      const apiKey = await Promise.race([
+        this.prisma.apiKey.findUnique({ where: { keyHash } }),
+        new Promise<null>((_, reject) => 
+          setTimeout(() => reject(new Error('Query timeout')), 3000)
+        )
+      ]);
+
+      return apiKey ? this.mapPrismaApiKeyToApiKey(apiKey) : null;
+    } catch (error) {
+      console.error('❌ Error getting API key:', error);
+      if (error instanceof Error && error.message.includes('timeout')) {
+        throw new Error('Database query timeout - please try again');
+      }
+      throw new Error('Failed to get API key');
+    }
+  }
+
+  async listApiKeys(userId?: string): Promise<ApiKey[]> {
+    try {
+      await this.connect(); // Ensure connection
+
+      const apiKeys = await Promise.race([
+        this.prisma.apiKey.findMany({
+          where: userId ? { userId } : {},
+          orderBy: { createdAt: 'desc' },
+        }),
+        new Promise<never>((_, reject) => 
+          setTimeout(() => reject(new Error('Query timeout')), 5000)
+        )
+      ]);
+
+      return apiKeys.map(apiKey => this.mapPrismaApiKeyToApiKey(apiKey));
+    } catch (error) {
+      console.error('❌ Error listing API keys:', error);
+      if (error instanceof Error && error.message.includes('timeout')) {
+        throw new Error('Database query timeout - please try again');
+      }
+      throw new Error('Failed to list API keys');
+    }
+  }
+
+  async revokeApiKey(id: string): Promise<boolean> {
+    try {
+      await this.connect(); // Ensure connection
+
+      const result = await Promise.race([
+        this.prisma.apiKey.updateMany({
+          where: { id, revokedAt: null },
+          data: { revokedAt: new Date() },
+        }),
+        new Promise<never>((_, reject) => 
+          setTimeout(() => reject(new Error('Revoke API key timeout')), 5000)
+        )
+      ]);
+
+      return result.count > 0;
+    } catch (error) {
+      console.error('❌ Error revoking API key:', error);
+      if (error instanceof Error && error.message.includes('timeout')) {
+        throw new Error('Database operation timeout - please try again');
+      }
+      throw new Error('Failed to revoke API key');
+    }
+  }
+
+  // Best effort: a failed usage stamp must not fail the request
+  async touchApiKey(id: string): Promise<void> {
+    try {
+      await this.prisma.apiKey.update({
+        where: { id },
+        data: { lastUsedAt: new Date() },
+      });
+    } catch (error) {
+      console.error('❌ Error updating API key usage:', error);
+    }
+  }
 } 
\ No newline at end of file
@@ -0,0 +1,98 @@
+// Local text embeddings used for semantic fact search.
+// Vectors are built with feature hashing over word tokens and character
+// trigrams, so no external embedding service is required.
+
+export const EMBEDDING_DIMENSIONS = 256;
+
+const STOP_WORDS = new Set([
+  'a', 'an', 'the', 'and', 'or', 'of', 'to', 'in', 'on', 'at', 'for', 'with',
+  'is', 'are', 'was', 'were', 'be', 'my', 'me', 'i', 'you', 'your', 'do', 'does',
+  'what', 'where', 'who', 'how', 'when', 'which', 'that', 'this', 'it', 'as',
+]);
+
+type FactText = {
+  subject: string;
+  predicate: string;
+  object: string;
+};
+
+// FNV-1a hash, good enough for spreading features across buckets
+const hashFeature = (feature: string): number => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < feature.length; i++) {
+    hash ^= feature.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+export const tokenize = (text: string): string[] => {
+  return text
+    .toLowerCase()
+    .replace(/_/g, ' ')
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter(token => token.length > 0 && !STOP_WORDS.has(token));
+};
+
+export const factToText = (fact: FactText): string => {
+  return `${fact.subject} ${fact.predicate.replace(/_/g, ' ')} ${fact.object}`;
+};
+
+export const embedText = (text: string): number[] => {
+  const vector = new Array<number>(EMBEDDING_DIMENSIONS).fill(0);
+
+  const addFeature = (feature: string, weight: number) => {
+    const hash = hashFeature(feature);
+    const index = hash % EMBEDDING_DIMENSIONS;
+    // Use one hash bit as the sign to reduce collision bias
+    const sign = (hash & 0x80000000) === 0 ? 1 : -1;
+    vector[index] += sign * weight;
+  };
+
+  for (const token of tokenize(text)) {
+    addFeature(`w:${token}`, 1);
+
+    // Character trigrams let "teacher" match "teaching" and tolerate typos
+    const padded = `#${token}#`;
+    for (let i = 0; i + 3 <= padded.length; i++) {
+      addFeature(`c:${padded.slice(i, i + 3)}`, 0.5);
+    }
+  }
+
+  const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+  return norm === 0 ? vector : vector.map(value => value / norm);
+};
+
+export const cosineSimilarity = (a: number[], b: number[]): number => {
+  if (a.length !== b.length) return 0;
+
+  let dot = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+  }
+  return dot;
+};
+
+// Fraction of query tokens that appear verbatim in the fact
+export const lexicalOverlap = (queryTokens: string[], text: string): number => {
+  if (queryTokens.length === 0) return 0;
+
+  const factTokens = new Set(tokenize(text));
+  const matched = queryTokens.filter(token => factTokens.has(token)).length;
+  return matched / queryTokens.length;
+};
+
+export const serializeEmbedding = (vector: number[]): string => {
+  return JSON.stringify(vector.map(value => Number(value.toFixed(6))));
+};
+
+export const parseEmbedding = (value: string | null): number[] | null => {
+  if (!value) return null;
+
+  try {
+    const parsed = JSON.parse(value);
+    return Array.isArray(parsed) && parsed.length === EMBEDDING_DIMENSIONS ? parsed : null;
+  } catch {
+    return null;
+  }
+};
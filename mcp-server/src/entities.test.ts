@@ -0,0 +1,298 @@
+import { describe, expect, mock, test } from 'bun:test';
+import * as prismaClient from '@prisma/client';
+import { isMentionOf, mergeAliases, objectEntityType, subjectEntityType } from './entities.js';
+
+// FactDatabase runs without a query engine, against an in-memory stand-in
+// for the Prisma client that understands the queries the entity code makes:
+// equality, null, `in`, `not`, `lte`/`gt`, AND/OR, ordering by one field and
+// `take`.
+
+type Row = Record<string, unknown> & { id: string };
+type Where = Record<string, unknown>;
+
+const sameValue = (a: unknown, b: unknown) =>
+  a instanceof Date && b instanceof Date ? a.getTime() === b.getTime() : a === b;
+
+const matches = (row: Row, where: Where = {}): boolean =>
+  Object.entries(where).every(([field, condition]) => {
+    if (field === 'AND') return (condition as Where[]).every(part => matches(row, part));
+    if (field === 'OR') return (condition as Where[]).some(part => matches(row, part));
+
+    const value = row[field] ?? null;
+    if (condition === null || typeof condition !== 'object' || condition instanceof Date) {
+      return sameValue(value, condition);
+    }
+    const { in: oneOf, not, lte, gt } = condition as { in?: unknown[]; not?: unknown; lte?: Date; gt?: Date };
+    return (oneOf === undefined || oneOf.some(candidate => sameValue(value, candidate)))
+      && (!('not' in condition) || !sameValue(value, not))
+      && (lte === undefined || (value instanceof Date && value <= lte))
+      && (gt === undefined || (value instanceof Date && value > gt));
+  });
+
+class FakeTable {
+  rows: Row[] = [];
+  private created = 0;
+
+  constructor(private prefix: string, private defaults: () => Record<string, unknown> = () => ({})) {}
+
+  async findMany({ where, orderBy, take }: { where?: Where; orderBy?: Record<string, 'asc' | 'desc'>; take?: number } = {}) {
+    let rows = this.rows.filter(row => matches(row, where));
+    const [field, direction] = Object.entries(orderBy || {})[0] || [];
+    if (field) {
+      rows = [...rows].sort((a, b) => {
+        const order = (a[field] as number) < (b[field] as number) ? -1 : (a[field] as number) > (b[field] as number) ? 1 : 0;
+        return direction === 'desc' ? -order : order;
+      });
+    }
+    return rows.slice(0, take).map(row => ({ ...row }));
+  }
+
+  async findFirst(args: { where?: Where }) {
+    return (await this.findMany(args))[0] ?? null;
+  }
+
+  async findUnique(args: { where: Where }) {
+    return this.findFirst(args);
+  }
+
+  async create({ data }: { data: Record<string, unknown> }) {
+    this.created++;
+    const now = new Date();
+    const row: Row = { id: `${this.prefix}-${this.created}`, ...this.defaults(), createdAt: now, updatedAt: now, ...data };
+    this.rows.push(row);
+    return { ...row };
+  }
+
+  async update({ where, data }: { where: Where; data: Record<string, unknown> }) {
+    const row = this.rows.find(candidate => matches(candidate, where));
+    if (!row) throw new Error(`No ${this.prefix} matches ${JSON.stringify(where)}`);
+    Object.assign(row, data, { updatedAt: new Date() });
+    return { ...row };
+  }
+
+  async updateMany({ where, data }: { where: Where; data: Record<string, unknown> }) {
+    const rows = this.rows.filter(row => matches(row, where));
+    rows.forEach(row => Object.assign(row, data, { updatedAt: new Date() }));
+    return { count: rows.length };
+  }
+
+  async deleteMany({ where }: { where: Where }) {
+    const count = this.rows.length;
+    this.rows = this.rows.filter(row => !matches(row, where));
+    return { count: count - this.rows.length };
+  }
+}
+
+const createFakePrisma = () => {
+  const prisma = {
+    fact: new FakeTable('fact', () => ({
+      confidence: 1,
+      source: 'manual',
+      sourceMessageId: null,
+      supersededAt: null,
+      supersededById: null,
+      validFrom: null,
+      validUntil: null,
+      archivedAt: null,
+      deletedAt: null,
+      subjectEntityId: null,
+      objectEntityId: null,
+      timestamp: new Date(),
+    })),
+    entity: new FakeTable('entity', () => ({ type: 'other', aliases: '[]' })),
+    factRevision: new FakeTable('revision'),
+    predicate: new FakeTable('predicate'),
+    $connect: async () => {},
+    $transaction: async <T>(run: (tx: unknown) => Promise<T>) => run(prisma),
+  };
+  return prisma;
+};
+
+let createdPrisma: ReturnType<typeof createFakePrisma>;
+mock.module('@prisma/client', () => ({
+  ...prismaClient,
+  PrismaClient: function PrismaClient() {
+    createdPrisma = createFakePrisma();
+    return createdPrisma;
+  },
+}));
+const { FactDatabase } = await import('./database.js');
+
+const createDatabase = () => {
+  const db = new FactDatabase();
+  return { db, prisma: createdPrisma };
+};
+
+const entityNamed = (prisma: ReturnType<typeof createDatabase>['prisma'], userId: string, name: string) =>
+  prisma.entity.rows.filter(row => row.userId === userId && row.name === name);
+
+describe('entity helpers', () => {
+  test('type subjects and objects', () => {
+    expect(subjectEntityType(' User ')).toBe('person');
+    expect(subjectEntityType('Anna')).toBe('other');
+    expect(objectEntityType('resides_in')).toBe('place');
+    expect(objectEntityType('likes')).toBeNull();
+  });
+
+  test('match mentions by name or alias, ignoring case and spacing', () => {
+    const anna = { name: 'Anna', aliases: ['my  sister'] };
+    expect(isMentionOf(anna, 'anna')).toBe(true);
+    expect(isMentionOf(anna, 'My Sister ')).toBe(true);
+    expect(isMentionOf(anna, 'Annie')).toBe(false);
+  });
+
+  test('drop duplicate aliases and the name itself', () => {
+    expect(mergeAliases('Anna', ['anna', ' Annie ', 'ANNIE', '', 'my sister'])).toEqual(['Annie', 'my sister']);
+  });
+});
+
+describe('entity resolution', () => {
+  test('links facts to one entity per name and learns aliases and types', async () => {
+    const { db, prisma } = createDatabase();
+
+    const sibling = await db.createFact({ subject: 'user', predicate: 'has_sibling', object: 'Anna', userId: 'alice' });
+    const home = await db.createFact({ subject: 'user', predicate: 'lives_in', object: 'Berlin', userId: 'alice' });
+    const hobby = await db.createFact({ subject: 'user', predicate: 'likes', object: 'tea', userId: 'alice' });
+
+    const [user] = entityNamed(prisma, 'alice', 'user');
+    const [anna] = entityNamed(prisma, 'alice', 'Anna');
+    expect(user.type).toBe('person');
+    expect(anna.type).toBe('person');
+    expect(sibling.fact).toMatchObject({ subjectEntityId: user.id, objectEntityId: anna.id });
+    expect(home.fact.subjectEntityId).toBe(user.id);
+    expect(hobby.fact.subjectEntityId).toBe(user.id);
+    expect(hobby.fact.objectEntityId).toBeUndefined();
+
+    // A mention passed with a known entity ID becomes an alias ...
+    const job = await db.createFact({
+      subject: 'my sister', predicate: 'works_at', object: 'Acme', userId: 'alice', subjectEntityId: anna.id,
+    });
+    expect(job.fact.subjectEntityId).toBe(anna.id);
+    expect(JSON.parse(entityNamed(prisma, 'alice', 'Anna')[0].aliases as string)).toEqual(['my sister']);
+
+    // ... that later mentions resolve through
+    const pet = await db.createFact({ subject: 'My Sister', predicate: 'has_pet', object: 'Rex', userId: 'alice' });
+    expect(pet.fact.subjectEntityId).toBe(anna.id);
+
+    // An entity first seen as a subject gets its type from a later fact
+    await db.createFact({ subject: 'Globex', predicate: 'founded_in', object: '1990', userId: 'alice' });
+    expect(entityNamed(prisma, 'alice', 'Globex')[0].type).toBe('other');
+    await db.createFact({ subject: 'Anna', predicate: 'works_at', object: 'globex', userId: 'alice' });
+    expect(entityNamed(prisma, 'alice', 'Globex')[0].type).toBe('organization');
+
+    // Users never share entities
+    const other = await db.createFact({ subject: 'user', predicate: 'has_sibling', object: 'Anna', userId: 'bob' });
+    expect(other.fact.objectEntityId).not.toBe(anna.id);
+  });
+});
+
+describe('merging and splitting entities', () => {
+  test('merge moves every link to the target and keeps the names as aliases', async () => {
+    const { db, prisma } = createDatabase();
+    const sibling = await db.createFact({ subject: 'user', predicate: 'has_sibling', object: 'Anna', userId: 'alice' });
+    const home = await db.createFact({ subject: 'Annie', predicate: 'lives_in', object: 'Berlin', userId: 'alice' });
+    const [anna] = entityNamed(prisma, 'alice', 'Anna');
+    const [annie] = entityNamed(prisma, 'alice', 'Annie');
+
+    const result = await db.mergeEntities(anna.id, [annie.id]);
+
+    expect(result).toMatchObject({ entity: { id: anna.id, name: 'Anna', type: 'person', aliases: ['Annie'] }, movedLinks: 1 });
+    expect(await db.getEntity(annie.id)).toBeNull();
+    expect((await db.getFactById(home.fact.id!))?.subjectEntityId).toBe(anna.id);
+    expect((await db.getFactById(sibling.fact.id!))?.objectEntityId).toBe(anna.id);
+
+    // New mentions of the merged name resolve to the target
+    const job = await db.createFact({ subject: 'annie', predicate: 'works_at', object: 'Acme', userId: 'alice' });
+    expect(job.fact.subjectEntityId).toBe(anna.id);
+  });
+
+  test('merge refuses entities of another user', async () => {
+    const { db, prisma } = createDatabase();
+    await db.createFact({ subject: 'user', predicate: 'has_sibling', object: 'Anna', userId: 'alice' });
+    await db.createFact({ subject: 'user', predicate: 'has_sibling', object: 'Anna', userId: 'bob' });
+    const [alicesAnna] = entityNamed(prisma, 'alice', 'Anna');
+    const [bobsAnna] = entityNamed(prisma, 'bob', 'Anna');
+
+    expect(await db.mergeEntities(alicesAnna.id, [bobsAnna.id])).toBeNull();
+    expect(await db.getEntity(bobsAnna.id)).not.toBeNull();
+  });
+
+  test('split moves the given facts and aliases to a new entity', async () => {
+    const { db, prisma } = createDatabase();
+    const brother = await db.createFact({ subject: 'user', predicate: 'has_sibling', object: 'Alex', userId: 'alice' });
+    const son = await db.createFact({ subject: 'user', predicate: 'has_child', object: 'alex', userId: 'alice' });
+    await db.createFact({ subject: 'Alex', predicate: 'studies_at', object: 'MIT', userId: 'alice', subjectEntityId: son.fact.objectEntityId });
+    await db.createFact({ subject: 'little Alex', predicate: 'has_pet', object: 'Rex', userId: 'alice', subjectEntityId: son.fact.objectEntityId });
+    const [alex] = entityNamed(prisma, 'alice', 'Alex');
+    expect(son.fact.objectEntityId).toBe(alex.id);
+
+    const result = await db.splitEntity(alex.id, { name: 'Alex', aliases: ['little Alex'], factIds: [son.fact.id!] });
+
+    expect(result?.entity).toMatchObject({ id: alex.id, aliases: [] });
+    expect(result?.created).toMatchObject({ name: 'Alex', type: 'person', aliases: ['little Alex'] });
+    expect(result?.movedLinks).toBe(1);
+    expect((await db.getFactById(son.fact.id!))?.objectEntityId).toBe(result!.created!.id);
+    expect((await db.getFactById(brother.fact.id!))?.objectEntityId).toBe(alex.id);
+  });
+
+  test('an edit keeps the link of the side that did not change', async () => {
+    const { db, prisma } = createDatabase();
+    await db.createFact({ subject: 'user', predicate: 'has_sibling', object: 'Alex', userId: 'alice' });
+    const son = await db.createFact({ subject: 'user', predicate: 'has_child', object: 'Alex', userId: 'alice' });
+    const [alex] = entityNamed(prisma, 'alice', 'Alex');
+    const split = await db.splitEntity(alex.id, { name: 'Alex', factIds: [son.fact.id!] });
+    const sonId = split!.created!.id;
+
+    // Both entities are called Alex: resolving the object by name again
+    // would hand the son's fact back to the brother
+    const moved = await db.updateFact(son.fact.id!, { subject: 'Anna' });
+    expect(moved?.objectEntityId).toBe(sonId);
+    expect(moved?.subjectEntityId).toBe(entityNamed(prisma, 'alice', 'Anna')[0].id);
+
+    const renamed = await db.updateFact(son.fact.id!, { predicate: 'has_kid' });
+    expect(renamed?.objectEntityId).toBe(sonId);
+
+    const reworded = await db.updateFact(son.fact.id!, { object: 'Alexander' });
+    expect(reworded?.subjectEntityId).toBe(moved!.subjectEntityId!);
+    expect(reworded?.objectEntityId).not.toBe(sonId);
+  });
+});
+
+describe('linking facts from before entities', () => {
+  test('links current facts in batches and leaves trashed and superseded ones alone', async () => {
+    const { db, prisma } = createDatabase();
+    const row = (id: string, userId: string, subject: string, predicate: string, object: string, extra: Record<string, unknown> = {}) =>
+      prisma.fact.create({ data: { id, userId, subject, predicate, object, timestamp: new Date(2024, 0, prisma.fact.rows.length + 1), ...extra } });
+
+    await row('f-1', 'alice', 'user', 'has_sibling', 'Anna');
+    await row('f-2', 'alice', 'Anna', 'lives_in', 'Berlin');
+    await row('f-3', 'alice', 'user', 'lives_in', 'berlin');
+    await row('f-4', 'bob', 'user', 'has_sibling', 'Anna');
+    await row('f-5', 'alice', 'user', 'likes', 'tea');
+    await row('f-trashed', 'alice', 'user', 'has_pet', 'Rex', { deletedAt: new Date() });
+    await row('f-superseded', 'alice', 'user', 'lives_in', 'Porto', { supersededAt: new Date(), supersededById: 'f-3' });
+
+    expect(await db.linkUnlinkedFacts(2)).toBe(5);
+
+    const linkOf = (id: string) => {
+      const fact = prisma.fact.rows.find(candidate => candidate.id === id)!;
+      return [fact.subjectEntityId, fact.objectEntityId];
+    };
+    const [user] = entityNamed(prisma, 'alice', 'user');
+    const [anna] = entityNamed(prisma, 'alice', 'Anna');
+    const [berlin] = entityNamed(prisma, 'alice', 'Berlin');
+
+    // Facts from different batches share their entities
+    expect(entityNamed(prisma, 'alice', 'user')).toHaveLength(1);
+    expect(linkOf('f-1')).toEqual([user.id, anna.id]);
+    expect(linkOf('f-2')).toEqual([anna.id, berlin.id]);
+    expect(linkOf('f-3')).toEqual([user.id, berlin.id]);
+    expect(linkOf('f-5')).toEqual([user.id, null]);
+    expect(linkOf('f-4')[1]).toBe(entityNamed(prisma, 'bob', 'Anna')[0].id);
+    expect(linkOf('f-trashed')).toEqual([null, null]);
+    expect(linkOf('f-superseded')).toEqual([null, null]);
+
+    // Nothing is left for a second run
+    expect(await db.linkUnlinkedFacts(2)).toBe(0);
+  });
+});
@@ -0,0 +1,63 @@
+import type { Entity, EntityType } from './types.js';
+import { canonicalPredicate, getPredicate } from './predicates.js';
+
+// Entity resolution. Fact subjects, and objects that name a person, place,
+// organization or pet, are linked to entities so that "Anna", "my sister
+// Anna" and "my sis" are one node of the graph. Mentions are matched against
+// entity names and aliases; the extractor links mentions that only it can
+// tell apart by passing the entity ID with the fact.
+
+// The subject of facts about the user themselves
+export const USER_ENTITY_NAME = 'user';
+
+// Objects of these predicates are entities of the given type
+const OBJECT_ENTITY_TYPES: Record<string, EntityType> = {
+  born_in: 'place',
+  hometown: 'place',
+  lives_in: 'place',
+  visited: 'place',
+  works_at: 'organization',
+  studies_at: 'organization',
+  married_to: 'person',
+  has_child: 'person',
+  has_sibling: 'person',
+  has_pet: 'pet',
+};
+
+export const normalizeMention = (mention: string): string => {
+  return mention.trim().toLowerCase().replace(/\s+/g, ' ');
+};
+
+export const subjectEntityType = (subject: string): EntityType => {
+  return normalizeMention(subject) === USER_ENTITY_NAME ? 'person' : 'other';
+};
+
+// The type of entity a fact's object refers to, or null when the object is
+// a plain value such as an age or a hobby
+export const objectEntityType = (predicate: string): EntityType | null => {
+  const name = canonicalPredicate(predicate);
+  if (OBJECT_ENTITY_TYPES[name]) return OBJECT_ENTITY_TYPES[name];
+  return getPredicate(name)?.valueType === 'entity' ? 'other' : null;
+};
+
+export const entityMentions = (entity: Pick<Entity, 'name' | 'aliases'>): string[] => {
+  return [entity.name, ...entity.aliases];
+};
+
+export const isMentionOf = (entity: Pick<Entity, 'name' | 'aliases'>, mention: string): boolean => {
+  const key = normalizeMention(mention);
+  return entityMentions(entity).some(name => normalizeMention(name) === key);
+};
+
+// Aliases without duplicates (ignoring case) and without the entity's name
+export const mergeAliases = (name: string, aliases: string[]): string[] => {
+  const seen = new Set([normalizeMention(name)]);
+  return aliases
+    .map(alias => alias.trim())
+    .filter(alias => {
+      const key = normalizeMention(alias);
+      if (!key || seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    });
+};
@@ -0,0 +1,154 @@
+import { describe, expect, test } from 'bun:test';
+import type { Entity, Fact, GraphQuery, GraphResult } from './types.js';
+import { queryGraph } from './graph.js';
+
+const entity = (id: string, name: string, type: Entity['type'], aliases: string[] = []): Entity => ({
+  id,
+  userId: 'alice',
+  name,
+  type,
+  aliases,
+  createdAt: '2024-01-01T00:00:00.000Z',
+  updatedAt: '2024-01-01T00:00:00.000Z',
+});
+
+const entities = [
+  entity('e-user', 'user', 'person'),
+  entity('e-anna', 'Anna', 'person', ['my sister']),
+  entity('e-ben', 'Ben', 'person'),
+  entity('e-acme', 'Acme', 'organization'),
+  entity('e-berlin', 'Berlin', 'place'),
+];
+
+const fact = (id: string, subject: string, predicate: string, object: string, subjectEntityId?: string, objectEntityId?: string): Fact => ({
+  id,
+  subject,
+  predicate,
+  object,
+  userId: 'alice',
+  ...(subjectEntityId && { subjectEntityId }),
+  ...(objectEntityId && { objectEntityId }),
+});
+
+// user → has_sibling → Anna → married_to → Ben → works_at → Acme, both the
+// user and Anna live in Berlin, and "tea" is a plain value the user and Tom
+// (never linked to an entity) share
+const facts = [
+  fact('f-sibling', 'user', 'has_sibling', 'Anna', 'e-user', 'e-anna'),
+  fact('f-spouse', 'Anna', 'spouse', 'Ben', 'e-anna', 'e-ben'),
+  fact('f-employer', 'Ben', 'works_at', 'Acme', 'e-ben', 'e-acme'),
+  fact('f-anna-berlin', 'Anna', 'lives_in', 'Berlin', 'e-anna', 'e-berlin'),
+  fact('f-user-berlin', 'user', 'lives_in', 'Berlin', 'e-user', 'e-berlin'),
+  fact('f-user-tea', 'user', 'likes', 'tea', 'e-user'),
+  fact('f-tom-tea', 'Tom', 'likes', 'Tea'),
+];
+
+const query = (options: Omit<GraphQuery, 'userId'>): GraphResult => queryGraph({ entities, facts }, { userId: 'alice', ...options });
+
+const factIds = (result: { facts?: Fact[] }) => result.facts?.map(found => found.id);
+const nodeNames = (nodes: { name: string }[] = []) => nodes.map(node => node.name);
+
+describe('neighborhood queries', () => {
+  test('start at the user and follow facts in both directions', () => {
+    const oneHop = query({ mode: 'neighborhood' });
+    expect(factIds(oneHop)).toEqual(['f-sibling', 'f-user-berlin', 'f-user-tea']);
+    expect(oneHop.nodes).toEqual([
+      { id: 'e-user', name: 'user', type: 'person' },
+      { id: 'e-anna', name: 'Anna', type: 'person' },
+      { id: 'e-berlin', name: 'Berlin', type: 'place' },
+      { name: 'tea' },
+    ]);
+
+    const twoHops = query({ mode: 'neighborhood', depth: 2 });
+    expect(factIds(twoHops)).toEqual(['f-sibling', 'f-user-berlin', 'f-user-tea', 'f-spouse', 'f-anna-berlin', 'f-tom-tea']);
+    expect(nodeNames(twoHops.nodes)).toEqual(['user', 'Anna', 'Berlin', 'tea', 'Ben', 'Tom']);
+    expect(twoHops.truncated).toBe(false);
+  });
+
+  test('resolve the start by alias and keep to the given predicates', () => {
+    const result = query({ mode: 'neighborhood', entity: 'My Sister', depth: 2, predicates: ['resides_in'] });
+    expect(factIds(result)).toEqual(['f-anna-berlin', 'f-user-berlin']);
+  });
+
+  test('stop at the limit', () => {
+    const result = query({ mode: 'neighborhood', depth: 4, limit: 2 });
+    expect(factIds(result)).toEqual(['f-sibling', 'f-user-berlin']);
+    expect(result.truncated).toBe(true);
+  });
+
+  test('reject unknown starting points', () => {
+    expect(() => query({ mode: 'neighborhood', entity: 'Zoe' })).toThrow('Nothing called "Zoe" is known');
+  });
+});
+
+describe('path queries', () => {
+  test('follow predicates hop by hop through their aliases', () => {
+    const result = query({ mode: 'path', predicates: ['sibling', 'married_to', 'employer'] });
+    expect(result.paths).toHaveLength(1);
+    expect(nodeNames(result.paths![0].nodes)).toEqual(['user', 'Anna', 'Ben', 'Acme']);
+    expect(factIds(result.paths![0])).toEqual(['f-sibling', 'f-spouse', 'f-employer']);
+  });
+
+  test('follow a predicate backwards with "^"', () => {
+    const result = query({ mode: 'path', entity: 'Ben', predicates: ['^married_to', '^has_sibling'] });
+    expect(nodeNames(result.paths![0].nodes)).toEqual(['Ben', 'Anna', 'user']);
+  });
+
+  test('match any predicate with "*"', () => {
+    const result = query({ mode: 'path', entity: 'Anna', predicates: ['*'] });
+    expect(result.paths!.map(path => nodeNames(path.nodes))).toEqual([['Anna', 'Ben'], ['Anna', 'Berlin']]);
+  });
+
+  test('find the shortest connection within the depth', () => {
+    const result = query({ mode: 'path', entity: 'Tom', to: 'Berlin' });
+    expect(nodeNames(result.paths![0].nodes)).toEqual(['Tom', 'tea', 'user', 'Berlin']);
+    expect(factIds(result.paths![0])).toEqual(['f-tom-tea', 'f-user-tea', 'f-user-berlin']);
+
+    expect(query({ mode: 'path', entity: 'Tom', to: 'Berlin', depth: 2 }).paths).toEqual([]);
+  });
+
+  test('need either a target or predicates', () => {
+    expect(() => query({ mode: 'path' })).toThrow('Path queries take "to" or 1 to 4 predicates');
+  });
+});
+
+describe('pattern queries', () => {
+  test('join patterns on their variables', () => {
+    const result = query({
+      mode: 'pattern',
+      patterns: [
+        { subject: 'user', predicate: 'has_sibling', object: '?sibling' },
+        { subject: '?sibling', predicate: 'lives_in', object: '?city' },
+      ],
+    });
+    expect(result.matches).toEqual([
+      {
+        bindings: {
+          sibling: { id: 'e-anna', name: 'Anna', type: 'person' },
+          city: { id: 'e-berlin', name: 'Berlin', type: 'place' },
+        },
+        facts: [facts[0], facts[3]],
+      },
+    ]);
+  });
+
+  test('bind a variable to the same node everywhere it appears', () => {
+    const result = query({
+      mode: 'pattern',
+      patterns: [
+        { subject: '?person', predicate: 'lives_in', object: '?city' },
+        { subject: 'user', predicate: '?relation', object: '?person' },
+      ],
+    });
+    expect(result.matches!.map(match => nodeNames(Object.values(match.bindings)))).toEqual([['Anna', 'Berlin', 'has_sibling']]);
+  });
+
+  test('match plain values by their text', () => {
+    const result = query({ mode: 'pattern', patterns: [{ subject: '?who', predicate: 'likes', object: 'TEA' }] });
+    expect(result.matches!.map(match => match.bindings.who.name)).toEqual(['user', 'Tom']);
+  });
+
+  test('take one to five patterns', () => {
+    expect(() => query({ mode: 'pattern', patterns: [] })).toThrow('Pattern queries take 1 to 5 patterns');
+  });
+});
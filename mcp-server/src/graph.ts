@@ -0,0 +1,298 @@
+import type { Entity, Fact, GraphNode, GraphPattern, GraphQuery, GraphResult } from './types.js';
+import { canonicalPredicate } from './predicates.js';
+import { isMentionOf, normalizeMention, USER_ENTITY_NAME } from './entities.js';
+
+// Graph queries over a user's current facts. Entities are the nodes and facts
+// the edges between them; objects that are plain values (an age, a hobby)
+// are leaves. Facts not linked to an entity are matched by their text.
+
+export const MAX_GRAPH_DEPTH = 4;
+export const MAX_GRAPH_PATTERNS = 5;
+export const MAX_GRAPH_RESULTS = 100;
+const DEFAULT_GRAPH_RESULTS = 20;
+
+// Bound on the partial paths and matches kept between steps, so that a loose
+// query cannot exhaust memory
+const MAX_PARTIAL_RESULTS = 10000;
+
+export interface FactGraph {
+  entities: Entity[];
+  facts: Fact[];
+}
+
+interface KeyPath {
+  keys: string[];
+  facts: Fact[];
+}
+
+const textKey = (text: string) => `text:${normalizeMention(text)}`;
+const subjectKey = (fact: Fact) => fact.subjectEntityId ?? textKey(fact.subject);
+const objectKey = (fact: Fact) => fact.objectEntityId ?? textKey(fact.object);
+const predicateKey = (fact: Fact) => `predicate:${canonicalPredicate(fact.predicate)}`;
+
+const isVariable = (term: string) => term.startsWith('?');
+
+// "*" matches every predicate; others match through their aliases
+const predicateMatcher = (predicate: string) => {
+  if (predicate === '*') return () => true;
+  const name = canonicalPredicate(predicate);
+  return (fact: Fact) => canonicalPredicate(fact.predicate) === name;
+};
+
+const addEdge = (edges: Map<string, Fact[]>, key: string, fact: Fact) => {
+  const keyEdges = edges.get(key);
+  if (keyEdges) keyEdges.push(fact);
+  else edges.set(key, [fact]);
+};
+
+class GraphIndex {
+  readonly facts: Fact[];
+  private entities: Map<string, Entity>;
+  private labels = new Map<string, string>();
+  private outgoing = new Map<string, Fact[]>();
+  private incoming = new Map<string, Fact[]>();
+
+  constructor(graph: FactGraph) {
+    this.facts = graph.facts;
+    this.entities = new Map(graph.entities.map(entity => [entity.id, entity]));
+
+    for (const fact of graph.facts) {
+      const from = subjectKey(fact);
+      const to = objectKey(fact);
+      addEdge(this.outgoing, from, fact);
+      addEdge(this.incoming, to, fact);
+      if (!this.labels.has(from)) this.labels.set(from, fact.subject);
+      if (!this.labels.has(to)) this.labels.set(to, fact.object);
+    }
+  }
+
+  // The node an entity ID, name or alias refers to, or the text of a
+  // subject or object that is not linked to an entity
+  resolve(reference: string): string | null {
+    if (this.entities.has(reference)) return reference;
+
+    const entity = [...this.entities.values()].find(candidate => isMentionOf(candidate, reference));
+    if (entity) return entity.id;
+
+    const key = textKey(reference);
+    return this.labels.has(key) ? key : null;
+  }
+
+  node(key: string): GraphNode {
+    const entity = this.entities.get(key);
+    if (entity) {
+      return { id: entity.id, name: entity.name, type: entity.type };
+    }
+    return { name: key.startsWith('predicate:') ? key.slice('predicate:'.length) : this.labels.get(key) ?? key };
+  }
+
+  edges(key: string, direction: 'out' | 'in'): Fact[] {
+    return (direction === 'out' ? this.outgoing : this.incoming).get(key) || [];
+  }
+
+  // Facts touching a node in either direction, with the node at their other end
+  neighbours(key: string): [Fact, string][] {
+    return [
+      ...this.edges(key, 'out').map((fact): [Fact, string] => [fact, objectKey(fact)]),
+      ...this.edges(key, 'in').map((fact): [Fact, string] => [fact, subjectKey(fact)]),
+    ];
+  }
+
+  toPath(path: KeyPath) {
+    return { nodes: path.keys.map(key => this.node(key)), facts: path.facts };
+  }
+}
+
+// Everything within `depth` facts of the start, in both directions
+const neighborhood = (index: GraphIndex, start: string, depth: number, predicates: string[], limit: number): GraphResult => {
+  const matchers = predicates.map(predicateMatcher);
+  const matches = (fact: Fact) => matchers.length === 0 || matchers.some(matcher => matcher(fact));
+
+  const seen = new Set([start]);
+  const facts = new Set<Fact>();
+  let frontier = [start];
+  let truncated = false;
+
+  for (let level = 0; level < depth && frontier.length > 0 && !truncated; level++) {
+    const next: string[] = [];
+    for (const key of frontier) {
+      for (const [fact, neighbour] of index.neighbours(key)) {
+        if (!matches(fact) || facts.has(fact)) continue;
+        if (facts.size >= limit) {
+          truncated = true;
+          break;
+        }
+        facts.add(fact);
+        if (!seen.has(neighbour)) {
+          seen.add(neighbour);
+          next.push(neighbour);
+        }
+      }
+      if (truncated) break;
+    }
+    frontier = next;
+  }
+
+  return { nodes: [...seen].map(key => index.node(key)), facts: [...facts], truncated };
+};
+
+// Follow predicates hop by hop: user → has_sibling → married_to → works_at.
+// "^married_to" follows the fact backwards, from its object to its subject.
+const followPredicates = (index: GraphIndex, start: string, steps: string[], limit: number): GraphResult => {
+  let paths: KeyPath[] = [{ keys: [start], facts: [] }];
+  let truncated = false;
+
+  for (const step of steps) {
+    const backwards = step.startsWith('^');
+    const matches = predicateMatcher(backwards ? step.slice(1) : step);
+    const next: KeyPath[] = [];
+
+    for (const path of paths) {
+      const at = path.keys[path.keys.length - 1];
+      for (const fact of index.edges(at, backwards ? 'in' : 'out')) {
+        if (!matches(fact) || path.facts.includes(fact)) continue;
+        if (next.length >= MAX_PARTIAL_RESULTS) {
+          truncated = true;
+          break;
+        }
+        next.push({
+          keys: [...path.keys, backwards ? subjectKey(fact) : objectKey(fact)],
+          facts: [...path.facts, fact],
+        });
+      }
+    }
+    paths = next;
+  }
+
+  return {
+    paths: paths.slice(0, limit).map(path => index.toPath(path)),
+    truncated: truncated || paths.length > limit,
+  };
+};
+
+// The shortest connection between two nodes, in either direction
+const shortestPath = (index: GraphIndex, start: string, target: string, depth: number): GraphResult => {
+  const parents = new Map<string, { from: string; fact: Fact } | null>([[start, null]]);
+  let frontier = [start];
+
+  for (let level = 0; level < depth && frontier.length > 0 && !parents.has(target); level++) {
+    const next: string[] = [];
+    for (const key of frontier) {
+      for (const [fact, neighbour] of index.neighbours(key)) {
+        if (parents.has(neighbour)) continue;
+        parents.set(neighbour, { from: key, fact });
+        next.push(neighbour);
+      }
+    }
+    frontier = next;
+  }
+
+  if (!parents.has(target)) {
+    return { paths: [], truncated: false };
+  }
+
+  const path: KeyPath = { keys: [target], facts: [] };
+  for (let step = parents.get(target); step; step = parents.get(step.from)) {
+    path.keys.unshift(step.from);
+    path.facts.unshift(step.fact);
+  }
+  return { paths: [index.toPath(path)], truncated: false };
+};
+
+// Join triple patterns on their variables:
+//   [{ subject: 'user', predicate: 'has_sibling', object: '?sibling' },
+//    { subject: '?sibling', predicate: 'lives_in', object: '?city' }]
+const matchPatterns = (index: GraphIndex, patterns: GraphPattern[], limit: number): GraphResult => {
+  let matches: { bindings: Record<string, string>; facts: Fact[] }[] = [{ bindings: {}, facts: [] }];
+  let truncated = false;
+
+  // A constant must equal the key; a variable must equal its earlier binding
+  // or is bound now
+  const bind = (bindings: Record<string, string>, term: string, constant: string | null, key: string) => {
+    if (!isVariable(term)) return constant === key;
+    if (term in bindings) return bindings[term] === key;
+    bindings[term] = key;
+    return true;
+  };
+
+  for (const pattern of patterns) {
+    const subject = isVariable(pattern.subject) ? null : index.resolve(pattern.subject) ?? textKey(pattern.subject);
+    const object = isVariable(pattern.object) ? null : index.resolve(pattern.object) ?? textKey(pattern.object);
+    const predicate = isVariable(pattern.predicate) ? null : `predicate:${canonicalPredicate(pattern.predicate)}`;
+    const next: typeof matches = [];
+
+    for (const match of matches) {
+      const from = subject ?? match.bindings[pattern.subject];
+      const to = object ?? match.bindings[pattern.object];
+      const candidates = from !== undefined ? index.edges(from, 'out')
+        : to !== undefined ? index.edges(to, 'in')
+        : index.facts;
+
+      for (const fact of candidates) {
+        const bindings = { ...match.bindings };
+        if (
+          !bind(bindings, pattern.subject, subject, subjectKey(fact))
+          || !bind(bindings, pattern.predicate, predicate, predicateKey(fact))
+          || !bind(bindings, pattern.object, object, objectKey(fact))
+        ) {
+          continue;
+        }
+        if (next.length >= MAX_PARTIAL_RESULTS) {
+          truncated = true;
+          break;
+        }
+        next.push({ bindings, facts: [...match.facts, fact] });
+      }
+    }
+    matches = next;
+  }
+
+  return {
+    matches: matches.slice(0, limit).map(match => ({
+      bindings: Object.fromEntries(
+        Object.entries(match.bindings).map(([variable, key]) => [variable.slice(1), index.node(key)])
+      ),
+      facts: match.facts,
+    })),
+    truncated: truncated || matches.length > limit,
+  };
+};
+
+// Invalid queries throw with a message meant for the caller
+export const queryGraph = (graph: FactGraph, query: GraphQuery): GraphResult => {
+  const index = new GraphIndex(graph);
+  const limit = Math.min(query.limit ?? DEFAULT_GRAPH_RESULTS, MAX_GRAPH_RESULTS);
+  const depth = Math.min(query.depth ?? (query.mode === 'neighborhood' ? 1 : MAX_GRAPH_DEPTH), MAX_GRAPH_DEPTH);
+
+  if (query.mode === 'pattern') {
+    const patterns = query.patterns || [];
+    if (patterns.length === 0 || patterns.length > MAX_GRAPH_PATTERNS) {
+      throw new Error(`Pattern queries take 1 to ${MAX_GRAPH_PATTERNS} patterns`);
+    }
+    return matchPatterns(index, patterns, limit);
+  }
+
+  const reference = query.entity || USER_ENTITY_NAME;
+  const start = index.resolve(reference);
+  if (!start) {
+    throw new Error(`Nothing called "${reference}" is known`);
+  }
+
+  if (query.mode === 'neighborhood') {
+    return neighborhood(index, start, depth, query.predicates || [], limit);
+  }
+
+  if (query.to) {
+    const target = index.resolve(query.to);
+    if (!target) {
+      throw new Error(`Nothing called "${query.to}" is known`);
+    }
+    return shortestPath(index, start, target, depth);
+  }
+
+  const steps = query.predicates || [];
+  if (steps.length === 0 || steps.length > MAX_GRAPH_DEPTH) {
+    throw new Error(`Path queries take "to" or 1 to ${MAX_GRAPH_DEPTH} predicates`);
+  }
+  return followPredicates(index, start, steps, limit);
+};
@@ -0,0 +1,124 @@
+import { describe, expect, test } from 'bun:test';
+import type { ExportFormat, Fact } from './types.js';
+import { parseFacts, serializeFacts } from './interchange.js';
+
+const facts: Fact[] = [
+  {
+    id: 'fact-berlin',
+    subject: 'user',
+    predicate: 'lives_in',
+    object: 'Berlin',
+    userId: 'alice',
+    confidence: 0.8,
+    source: 'extracted',
+    validFrom: '2024-01-01T00:00:00.000Z',
+    validUntil: '2026-01-01T00:00:00.000Z',
+    timestamp: '2024-01-02T10:00:00.000Z',
+  },
+  {
+    id: 'fact-quote',
+    subject: 'Max Müller',
+    predicate: 'says',
+    object: 'He said "hi"\\\n\tand left; then, a.b',
+    userId: 'alice',
+    confidence: 1,
+    source: 'manual',
+    timestamp: '2024-01-03T10:00:00.000Z',
+  },
+  { id: 'fact-plain', subject: 'user', predicate: 'has pet', object: 'Rex', userId: 'alice' },
+];
+
+// What an import should get back: everything but the ID, owner and source
+const imported = facts.map(({ subject, predicate, object, confidence, validFrom, validUntil, timestamp }) => ({
+  subject,
+  predicate,
+  object,
+  ...(confidence !== undefined && { confidence }),
+  ...(validFrom && { validFrom }),
+  ...(validUntil && { validUntil }),
+  ...(timestamp && { timestamp }),
+}));
+
+describe('round trips', () => {
+  for (const format of ['jsonld', 'turtle', 'ntriples', 'csv'] as ExportFormat[]) {
+    test(`${format} keeps every fact and its metadata`, () => {
+      expect(parseFacts(serializeFacts(facts, format, 'alice'), format)).toEqual(imported);
+    });
+  }
+
+  test('an empty export parses to no facts', () => {
+    for (const format of ['jsonld', 'turtle', 'ntriples', 'csv'] as ExportFormat[]) {
+      expect(parseFacts(serializeFacts([], format, 'alice'), format)).toEqual([]);
+    }
+  });
+
+  test('RDF exports keep the plain triples for other tools', () => {
+    const ntriples = serializeFacts(facts, 'ntriples', 'alice');
+    expect(ntriples).toContain('<urn:memory-mind:entity:user> <urn:memory-mind:predicate:lives_in> "Berlin" .\n');
+    expect(ntriples).toContain(
+      '<urn:memory-mind:fact:fact-berlin> <urn:memory-mind:confidence> "0.8"^^<http://www.w3.org/2001/XMLSchema#double> .\n'
+    );
+
+    const turtle = serializeFacts(facts, 'turtle', 'alice');
+    expect(turtle).toContain('e:user\n    p:lives_in "Berlin" ;\n    <urn:memory-mind:predicate:has%20pet> "Rex" .\n');
+    expect(turtle).toContain('mm:validUntil "2026-01-01T00:00:00.000Z"^^xsd:dateTime');
+  });
+});
+
+describe('Turtle from other tools', () => {
+  test('reads prefixes, lists, keywords and literal forms', () => {
+    const turtle = `
+      # A hand-written document
+      @prefix foaf: <http://xmlns.com/foaf/0.1/> .
+      PREFIX ex: <http://example.org/>
+
+      ex:alice a foaf:Person ;
+          foaf:name "Alice"@en, 'Ally' ;
+          ex:age 42 ;
+          ex:bio """Line one
+      line "two\\u00e9" """ ;
+          ex:member true ;
+          ex:knows <http://example.org/bob> ;
+          ex:born "1990-05-01"^^<http://www.w3.org/2001/XMLSchema#date> ;
+          .
+    `;
+
+    expect(parseFacts(turtle, 'turtle')).toEqual([
+      { subject: 'alice', predicate: 'type', object: 'Person' },
+      { subject: 'alice', predicate: 'name', object: 'Alice' },
+      { subject: 'alice', predicate: 'name', object: 'Ally' },
+      { subject: 'alice', predicate: 'age', object: '42' },
+      { subject: 'alice', predicate: 'bio', object: 'Line one\n      line "twoé" ' },
+      { subject: 'alice', predicate: 'member', object: 'true' },
+      { subject: 'alice', predicate: 'knows', object: 'bob' },
+      { subject: 'alice', predicate: 'born', object: '1990-05-01' },
+    ]);
+  });
+
+  test('reads reified statements without importing their triple twice', () => {
+    const turtle = `
+      @prefix ex: <http://example.org/> .
+      @prefix mm: <urn:memory-mind:> .
+
+      ex:alice ex:likes "tea" ; ex:likes "coffee" .
+      ex:s1 ex:note "Not a statement" .
+      ex:s2 rdf:subject ex:alice ; rdf:predicate ex:likes ; rdf:object "tea" ; mm:confidence 0.5 .
+      ex:s3 a rdf:Statement ; rdf:subject ex:alice .
+    `;
+
+    expect(parseFacts(turtle, 'turtle')).toEqual([
+      { subject: 'alice', predicate: 'likes', object: 'tea', confidence: 0.5 },
+      { subject: 'alice', predicate: 'likes', object: 'coffee' },
+      { subject: 's1', predicate: 'note', object: 'Not a statement' },
+    ]);
+  });
+
+  test('reports where a document is malformed', () => {
+    expect(() => parseFacts('<a> <b> "open', 'ntriples')).toThrow('Invalid Turtle at line 1: unterminated string');
+    expect(() => parseFacts('\nex:a ex:b "c" .', 'turtle')).toThrow('Invalid Turtle at line 2: undeclared prefix "ex"');
+    expect(() => parseFacts('<a> <b> _:c .', 'turtle')).toThrow('blank nodes are not supported');
+    expect(() => parseFacts('<a> <b> [ <c> "d" ] .', 'turtle')).toThrow('blank nodes and collections are not supported');
+    expect(() => parseFacts('<a> <b> "c"', 'turtle')).toThrow('expected "."');
+    expect(() => parseFacts('"a" <b> "c" .', 'turtle')).toThrow('subject must be an IRI');
+  });
+});
@@ -0,0 +1,556 @@
+import type { Fact, ExportFormat, ImportedFact } from './types.js';
+
+// Serializers and parsers for moving a user's memory between installs and
+// into graph tools. Every format round-trips subject, predicate, object,
+// confidence, the validity window and the timestamp. Source is exported too,
+// but imported facts are always recorded as imported.
+
+const NS = 'urn:memory-mind:';
+const ENTITY_NS = `${NS}entity:`;
+const PREDICATE_NS = `${NS}predicate:`;
+const FACT_NS = `${NS}fact:`;
+const RDF_NS = 'http://www.w3.org/1999/02/22-rdf-syntax-ns#';
+const XSD_NS = 'http://www.w3.org/2001/XMLSchema#';
+
+export const EXPORT_MIME_TYPES: Record<ExportFormat, string> = {
+  jsonld: 'application/ld+json',
+  turtle: 'text/turtle',
+  ntriples: 'application/n-triples',
+  csv: 'text/csv',
+};
+
+const CSV_COLUMNS = ['subject', 'predicate', 'object', 'confidence', 'source', 'validFrom', 'validUntil', 'timestamp'] as const;
+
+// Fact metadata, as properties in our namespace
+const METADATA_FIELDS = ['confidence', 'source', 'validFrom', 'validUntil', 'timestamp'] as const;
+const METADATA_DATATYPES: Record<(typeof METADATA_FIELDS)[number], string | undefined> = {
+  confidence: 'double',
+  source: undefined,
+  validFrom: 'dateTime',
+  validUntil: 'dateTime',
+  timestamp: 'dateTime',
+};
+
+const entityIri = (subject: string) => `${ENTITY_NS}${encodeURIComponent(subject)}`;
+const predicateIri = (predicate: string) => `${PREDICATE_NS}${encodeURIComponent(predicate)}`;
+
+// Our own IRIs decode back to the original text; foreign IRIs (FOAF,
+// schema.org, ...) are reduced to their local name
+const iriToText = (iri: string): string => {
+  for (const ns of [ENTITY_NS, PREDICATE_NS]) {
+    if (iri.startsWith(ns)) return decodeURIComponent(iri.slice(ns.length));
+  }
+  const localName = iri.split(/[#/:]/).filter(Boolean).pop();
+  return localName ? decodeURIComponent(localName) : iri;
+};
+
+// ---------------------------------------------------------------------------
+// JSON-LD: one rdf:Statement node per fact, so provenance stays attached
+
+const JSON_LD_CONTEXT = {
+  rdf: RDF_NS,
+  xsd: XSD_NS,
+  mm: NS,
+  subject: { '@id': 'rdf:subject', '@type': '@id' },
+  predicate: { '@id': 'rdf:predicate', '@type': '@id' },
+  object: 'rdf:object',
+  confidence: { '@id': 'mm:confidence', '@type': 'xsd:double' },
+  source: 'mm:source',
+  validFrom: { '@id': 'mm:validFrom', '@type': 'xsd:dateTime' },
+  validUntil: { '@id': 'mm:validUntil', '@type': 'xsd:dateTime' },
+  timestamp: { '@id': 'mm:timestamp', '@type': 'xsd:dateTime' },
+};
+
+const toJsonLd = (facts: Fact[], userId: string): string => {
+  return JSON.stringify({
+    '@context': JSON_LD_CONTEXT,
+    '@id': `${NS}user:${encodeURIComponent(userId)}`,
+    '@graph': facts.map(fact => ({
+      '@id': `${FACT_NS}${fact.id}`,
+      '@type': 'rdf:Statement',
+      subject: entityIri(fact.subject),
+      predicate: predicateIri(fact.predicate),
+      object: fact.object,
+      ...(fact.confidence !== undefined && { confidence: fact.confidence }),
+      ...(fact.source && { source: fact.source }),
+      ...(fact.validFrom && { validFrom: fact.validFrom }),
+      ...(fact.validUntil && { validUntil: fact.validUntil }),
+      ...(fact.timestamp && { timestamp: fact.timestamp }),
+    })),
+  }, null, 2);
+};
+
+const jsonLdValue = (value: unknown): string | undefined => {
+  if (typeof value === 'string') return value;
+  if (typeof value === 'number' || typeof value === 'boolean') return String(value);
+  if (value && typeof value === 'object') {
+    const node = value as Record<string, unknown>;
+    if (typeof node['@id'] === 'string') return node['@id'];
+    if (node['@value'] !== undefined) return jsonLdValue(node['@value']);
+  }
+  return undefined;
+};
+
+const fromJsonLd = (content: string): ImportedFact[] => {
+  const document = JSON.parse(content);
+  const nodes: Record<string, unknown>[] = Array.isArray(document)
+    ? document
+    : Array.isArray(document['@graph']) ? document['@graph'] : [document];
+
+  const facts: ImportedFact[] = [];
+  for (const node of nodes) {
+    const subject = jsonLdValue(node.subject ?? node['rdf:subject']);
+    const predicate = jsonLdValue(node.predicate ?? node['rdf:predicate']);
+    const object = jsonLdValue(node.object ?? node['rdf:object']);
+
+    if (subject && predicate && object) {
+      const confidence = Number(jsonLdValue(node.confidence));
+      facts.push({
+        subject: iriToText(subject),
+        predicate: iriToText(predicate),
+        object,
+        ...(Number.isFinite(confidence) && { confidence }),
+        ...(jsonLdValue(node.validFrom) && { validFrom: jsonLdValue(node.validFrom) }),
+        ...(jsonLdValue(node.validUntil) && { validUntil: jsonLdValue(node.validUntil) }),
+        ...(jsonLdValue(node.timestamp) && { timestamp: jsonLdValue(node.timestamp) }),
+      });
+      continue;
+    }
+
+    // Plain nodes from other tools: every property is a predicate
+    const nodeId = jsonLdValue(node['@id']);
+    if (!nodeId) continue;
+    for (const [key, values] of Object.entries(node)) {
+      if (key.startsWith('@')) continue;
+      for (const value of Array.isArray(values) ? values : [values]) {
+        const text = jsonLdValue(value);
+        if (text) {
+          facts.push({ subject: iriToText(nodeId), predicate: iriToText(key), object: text });
+        }
+      }
+    }
+  }
+  return facts;
+};
+
+// ---------------------------------------------------------------------------
+// N-Triples and Turtle: the plain triples, readable by any RDF tool, plus one
+// reified rdf:Statement per fact that carries its metadata
+
+const escapeRdfString = (value: string) =>
+  value
+    .replace(/\\/g, '\\\\')
+    .replace(/"/g, '\\"')
+    .replace(/\n/g, '\\n')
+    .replace(/\r/g, '\\r')
+    .replace(/\t/g, '\\t');
+
+const factIri = (fact: Fact) => `${FACT_NS}${fact.id}`;
+
+// The metadata of a fact as predicate IRI and literal pairs
+const metadataOf = (fact: Fact, datatypeName: (iri: string) => string): [string, string][] =>
+  METADATA_FIELDS.flatMap(field => {
+    const value = fact[field];
+    if (value === undefined || value === null) return [];
+    const datatype = METADATA_DATATYPES[field];
+    const literal = `"${escapeRdfString(String(value))}"${datatype ? `^^${datatypeName(`${XSD_NS}${datatype}`)}` : ''}`;
+    return [[`${NS}${field}`, literal]];
+  });
+
+const toNTriples = (facts: Fact[]): string => {
+  const lines = facts.flatMap(fact => {
+    const subject = `<${entityIri(fact.subject)}>`;
+    const predicate = `<${predicateIri(fact.predicate)}>`;
+    const object = `"${escapeRdfString(fact.object)}"`;
+    const statement = `<${factIri(fact)}>`;
+    return [
+      `${subject} ${predicate} ${object} .`,
+      `${statement} <${RDF_NS}type> <${RDF_NS}Statement> .`,
+      `${statement} <${RDF_NS}subject> ${subject} .`,
+      `${statement} <${RDF_NS}predicate> ${predicate} .`,
+      `${statement} <${RDF_NS}object> ${object} .`,
+      ...metadataOf(fact, iri => `<${iri}>`).map(([property, literal]) => `${statement} <${property}> ${literal} .`),
+    ];
+  });
+  return lines.join('\n') + (lines.length > 0 ? '\n' : '');
+};
+
+// Prefixed names only when the local part needs no escaping
+const turtleName = (prefix: string, ns: string, iri: string) => {
+  const local = iri.slice(ns.length);
+  return /^[A-Za-z_][A-Za-z0-9_-]*$/.test(local) ? `${prefix}:${local}` : `<${iri}>`;
+};
+
+const toTurtle = (facts: Fact[]): string => {
+  const bySubject = new Map<string, Fact[]>();
+  for (const fact of facts) {
+    const subjectFacts = bySubject.get(fact.subject);
+    if (subjectFacts) subjectFacts.push(fact);
+    else bySubject.set(fact.subject, [fact]);
+  }
+
+  const entityName = (subject: string) => turtleName('e', ENTITY_NS, entityIri(subject));
+  const predicateName = (predicate: string) => turtleName('p', PREDICATE_NS, predicateIri(predicate));
+
+  const blocks = [...bySubject.entries()].map(([subject, subjectFacts]) => {
+    const statements = subjectFacts.map(fact => `${predicateName(fact.predicate)} "${escapeRdfString(fact.object)}"`);
+    return `${entityName(subject)}\n    ${statements.join(' ;\n    ')} .`;
+  });
+
+  const statements = facts.map(fact => {
+    const properties = [
+      `rdf:subject ${entityName(fact.subject)}`,
+      `rdf:predicate ${predicateName(fact.predicate)}`,
+      `rdf:object "${escapeRdfString(fact.object)}"`,
+      ...metadataOf(fact, iri => turtleName('xsd', XSD_NS, iri))
+        .map(([property, literal]) => `${turtleName('mm', NS, property)} ${literal}`),
+    ];
+    return `${turtleName('f', FACT_NS, factIri(fact))} a rdf:Statement ;\n    ${properties.join(' ;\n    ')} .`;
+  });
+
+  return [
+    `@prefix e: <${ENTITY_NS}> .`,
+    `@prefix p: <${PREDICATE_NS}> .`,
+    `@prefix f: <${FACT_NS}> .`,
+    `@prefix mm: <${NS}> .`,
+    `@prefix rdf: <${RDF_NS}> .`,
+    `@prefix xsd: <${XSD_NS}> .`,
+    '',
+    ...blocks,
+    ...(statements.length > 0 ? ['', ...statements] : []),
+  ].join('\n') + '\n';
+};
+
+type RdfTerm = { kind: 'iri' | 'literal'; value: string };
+type RdfTriple = { subject: RdfTerm; predicate: RdfTerm; object: RdfTerm };
+
+// Parser for the subset of Turtle used by RDF exports: @prefix/PREFIX,
+// IRIs, prefixed names, string/number/boolean literals (with optional
+// language tag or datatype), the `a` keyword and ";" / "," lists.
+// N-Triples is a subset and goes through the same parser.
+const parseTurtle = (content: string): RdfTriple[] => {
+  const prefixes = new Map<string, string>([['rdf', RDF_NS], ['xsd', XSD_NS]]);
+  const triples: RdfTriple[] = [];
+  let pos = 0;
+
+  const fail = (message: string): never => {
+    const line = content.slice(0, pos).split('\n').length;
+    throw new Error(`Invalid Turtle at line ${line}: ${message}`);
+  };
+
+  const skipSpace = () => {
+    while (pos < content.length) {
+      if (/\s/.test(content[pos])) {
+        pos++;
+      } else if (content[pos] === '#') {
+        while (pos < content.length && content[pos] !== '\n') pos++;
+      } else {
+        break;
+      }
+    }
+  };
+
+  const readString = (): string => {
+    const quote = content[pos];
+    const long = content.startsWith(quote.repeat(3), pos);
+    pos += long ? 3 : 1;
+    let value = '';
+    while (pos < content.length) {
+      if (long ? content.startsWith(quote.repeat(3), pos) : content[pos] === quote) {
+        pos += long ? 3 : 1;
+        return value;
+      }
+      if (!long && content[pos] === '\n') fail('unterminated string');
+      if (content[pos] === '\\') {
+        const escape = content[pos + 1];
+        const simple: Record<string, string> = { n: '\n', r: '\r', t: '\t', b: '\b', f: '\f', '"': '"', "'": "'", '\\': '\\' };
+        if (escape in simple) {
+          value += simple[escape];
+          pos += 2;
+        } else if (escape === 'u' || escape === 'U') {
+          const length = escape === 'u' ? 4 : 8;
+          value += String.fromCodePoint(parseInt(content.slice(pos + 2, pos + 2 + length), 16));
+          pos += 2 + length;
+        } else {
+          fail(`unknown escape \\${escape}`);
+        }
+        continue;
+      }
+      value += content[pos++];
+    }
+    return fail('unterminated string');
+  };
+
+  const readIri = (): string => {
+    const end = content.indexOf('>', pos);
+    if (end === -1) fail('unterminated IRI');
+    const iri = content.slice(pos + 1, end);
+    pos = end + 1;
+    return iri;
+  };
+
+  const readName = (): string => {
+    const match = /^[^\s;,.<>"'()[\]{}#]*(?:\.[^\s;,.<>"'()[\]{}#]+)*/.exec(content.slice(pos));
+    const name = match?.[0] || '';
+    if (!name) fail(`unexpected "${content[pos]}"`);
+    pos += name.length;
+    return name;
+  };
+
+  const resolveName = (name: string): string => {
+    const colon = name.indexOf(':');
+    if (colon === -1) return fail(`"${name}" is not a prefixed name`);
+    const ns = prefixes.get(name.slice(0, colon));
+    if (ns === undefined) return fail(`undeclared prefix "${name.slice(0, colon)}"`);
+    return ns + name.slice(colon + 1).replace(/\\(.)/g, '$1');
+  };
+
+  const readTerm = (): RdfTerm => {
+    skipSpace();
+    const char = content[pos];
+    if (char === '<') return { kind: 'iri', value: readIri() };
+    if (char === '"' || char === "'") {
+      const value = readString();
+      if (content[pos] === '@') {
+        pos++;
+        readName();
+      } else if (content.startsWith('^^', pos)) {
+        pos += 2;
+        if (content[pos] === '<') readIri();
+        else readName();
+      }
+      return { kind: 'literal', value };
+    }
+    if (char === '_' && content[pos + 1] === ':') fail('blank nodes are not supported');
+    if (char === '[' || char === '(') fail('blank nodes and collections are not supported');
+
+    const name = readName();
+    if (name === 'a') return { kind: 'iri', value: `${RDF_NS}type` };
+    if (/^[+-]?(\d+\.?\d*|\.\d+)([eE][+-]?\d+)?$/.test(name) || name === 'true' || name === 'false') {
+      return { kind: 'literal', value: name };
+    }
+    return { kind: 'iri', value: resolveName(name) };
+  };
+
+  const expect = (char: string) => {
+    skipSpace();
+    if (content[pos] !== char) fail(`expected "${char}"`);
+    pos++;
+  };
+
+  while (true) {
+    skipSpace();
+    if (pos >= content.length) break;
+
+    const directive = /^(@prefix|PREFIX)\s+([^\s:]*):\s*/i.exec(content.slice(pos));
+    if (directive) {
+      pos += directive[0].length;
+      if (content[pos] !== '<') fail('expected namespace IRI');
+      prefixes.set(directive[2], readIri());
+      if (directive[1] === '@prefix') expect('.');
+      continue;
+    }
+    if (/^(@base|BASE)\b/i.test(content.slice(pos))) fail('@base is not supported');
+
+    const subject = readTerm();
+    if (subject.kind !== 'iri') fail('subject must be an IRI');
+
+    // predicate-object lists: p o1, o2 ; p2 o3 .
+    while (true) {
+      const predicate = readTerm();
+      if (predicate.kind !== 'iri') fail('predicate must be an IRI');
+
+      while (true) {
+        triples.push({ subject, predicate, object: readTerm() });
+        skipSpace();
+        if (content[pos] !== ',') break;
+        pos++;
+      }
+
+      skipSpace();
+      if (content[pos] !== ';') break;
+      while (content[pos] === ';') {
+        pos++;
+        skipSpace();
+      }
+      if (content[pos] === '.') break;
+    }
+    expect('.');
+  }
+
+  return triples;
+};
+
+// Turn triples into facts. A reified rdf:Statement becomes one fact with its
+// metadata, and the plain triple it describes is not imported twice; every
+// other triple is a fact of its own.
+const fromRdf = (content: string): ImportedFact[] => {
+  const triples = parseTurtle(content);
+  const termText = (term: RdfTerm) => (term.kind === 'iri' ? iriToText(term.value) : term.value);
+
+  const REIFICATION = [`${RDF_NS}subject`, `${RDF_NS}predicate`, `${RDF_NS}object`];
+  const statementIds = new Set(
+    triples
+      .filter(({ predicate, object }) =>
+        REIFICATION.includes(predicate.value)
+        || (predicate.value === `${RDF_NS}type` && object.value === `${RDF_NS}Statement`))
+      .map(({ subject }) => subject.value)
+  );
+
+  const statements = new Map<string, Map<string, RdfTerm>>();
+  for (const { subject, predicate, object } of triples) {
+    if (!statementIds.has(subject.value)) continue;
+    const properties = statements.get(subject.value);
+    if (properties) properties.set(predicate.value, object);
+    else statements.set(subject.value, new Map([[predicate.value, object]]));
+  }
+
+  const key = (subject: string, predicate: string, object: string) => JSON.stringify([subject, predicate, object]);
+  const reified = new Set<string>();
+  const facts: ImportedFact[] = [];
+
+  for (const properties of statements.values()) {
+    const [subject, predicate, object] = REIFICATION.map(iri => properties.get(iri));
+    if (!subject || !predicate || !object) continue;
+
+    const fact: ImportedFact = { subject: termText(subject), predicate: termText(predicate), object: termText(object) };
+    const confidence = Number(properties.get(`${NS}confidence`)?.value);
+    if (Number.isFinite(confidence)) fact.confidence = confidence;
+    for (const field of ['validFrom', 'validUntil', 'timestamp'] as const) {
+      const value = properties.get(`${NS}${field}`)?.value;
+      if (value) fact[field] = value;
+    }
+
+    reified.add(key(fact.subject, fact.predicate, fact.object));
+    facts.push(fact);
+  }
+
+  for (const { subject, predicate, object } of triples) {
+    if (statementIds.has(subject.value)) continue;
+    const fact = { subject: termText(subject), predicate: termText(predicate), object: termText(object) };
+    if (!reified.has(key(fact.subject, fact.predicate, fact.object))) facts.push(fact);
+  }
+  return facts;
+};
+
+// ---------------------------------------------------------------------------
+// CSV (RFC 4180) with a header row
+
+const escapeCsv = (value: string) => (/[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value);
+
+const toCsv = (facts: Fact[]): string => {
+  const rows = facts.map(fact =>
+    CSV_COLUMNS.map(column => {
+      const value = fact[column];
+      return value === undefined || value === null ? '' : escapeCsv(String(value));
+    }).join(',')
+  );
+  return [CSV_COLUMNS.join(','), ...rows].join('\r\n') + '\r\n';
+};
+
+const parseCsvRows = (content: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i];
+    if (quoted) {
+      if (char === '"' && content[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"' && field === '') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && content[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (quoted) throw new Error('Invalid CSV: unterminated quoted field');
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  // Ignore blank lines
+  return rows.filter(cells => cells.some(cell => cell.trim() !== ''));
+};
+
+const fromCsv = (content: string): ImportedFact[] => {
+  const [header, ...rows] = parseCsvRows(content.replace(/^﻿/, ''));
+  if (!header) return [];
+
+  const columns = header.map(name => name.trim());
+  for (const required of ['subject', 'predicate', 'object']) {
+    if (!columns.includes(required)) {
+      throw new Error(`Invalid CSV: missing "${required}" column`);
+    }
+  }
+
+  return rows.map(cells => {
+    const record = Object.fromEntries(columns.map((name, index) => [name, cells[index]?.trim() ?? '']));
+    const confidence = record.confidence ? Number(record.confidence) : NaN;
+    return {
+      subject: record.subject,
+      predicate: record.predicate,
+      object: record.object,
+      ...(Number.isFinite(confidence) && { confidence }),
+      ...(record.validFrom && { validFrom: record.validFrom }),
+      ...(record.validUntil && { validUntil: record.validUntil }),
+      ...(record.timestamp && { timestamp: record.timestamp }),
+    };
+  });
+};
+
+// ---------------------------------------------------------------------------
+
+export const serializeFacts = (facts: Fact[], format: ExportFormat, userId: string): string => {
+  switch (format) {
+    case 'jsonld':
+      return toJsonLd(facts, userId);
+    case 'turtle':
+      return toTurtle(facts);
+    case 'ntriples':
+      return toNTriples(facts);
+    case 'csv':
+      return toCsv(facts);
+  }
+};
+
+// Parse an export back into triples. Rows missing a subject, predicate or
+// object are dropped; malformed documents throw.
+export const parseFacts = (content: string, format: ExportFormat): ImportedFact[] => {
+  const facts = (() => {
+    switch (format) {
+      case 'jsonld':
+        return fromJsonLd(content);
+      case 'turtle':
+      case 'ntriples':
+        return fromRdf(content);
+      case 'csv':
+        return fromCsv(content);
+    }
+  })();
+
+  return facts.filter(fact => fact.subject && fact.predicate && fact.object);
+};
+
+export const formatFromMimeType = (mimeType: string | undefined): ExportFormat | undefined => {
+  const type = mimeType?.split(';')[0].trim().toLowerCase();
+  const entry = Object.entries(EXPORT_MIME_TYPES).find(([, mime]) => mime === type);
+  return entry?.[0] as ExportFormat | undefined;
+};
@@ -0,0 +1,489 @@
+import { z } from 'zod';
+import { zodToJsonSchema } from 'zod-to-json-schema';
+import {
+  FactSourceSchema,
+  FactSchema,
+  CreateFactSchema,
+  UpdateFactSchema,
+  QuerySchema,
+  PurgeQuerySchema,
+  FactRevisionSchema,
+  MemoryContextSchema,
+  FactsSummarySchema,
+  CreateFactResultSchema,
+  ExportFormatSchema,
+  ImportPolicySchema,
+  ImportResultSchema,
+} from './types.js';
+import { API_ERROR_CODES } from './routes.js';
+import { EXPORT_MIME_TYPES } from './interchange.js';
+
+// OpenAPI 3.1 description of the REST API in routes.ts. Request and response
+// schemas are generated from the same zod schemas the routes validate with,
+// so the document cannot drift from the implementation.
+
+type JsonSchema = Record<string, unknown>;
+
+const ApiErrorSchema = z.object({
+  success: z.literal(false),
+  error: z.object({
+    code: z.enum(API_ERROR_CODES),
+    message: z.string(),
+    details: z.unknown().optional(),
+  }),
+});
+
+const success = z.literal(true);
+
+// Components referenced by name from every other schema. Listed leaf-first
+// so each component only references the ones declared before it.
+const COMPONENTS = {
+  FactSource: FactSourceSchema,
+  Fact: FactSchema,
+  CreateFact: CreateFactSchema,
+  UpdateFact: UpdateFactSchema,
+  FactRevision: FactRevisionSchema,
+  MemoryContext: MemoryContextSchema,
+  FactsSummary: FactsSummarySchema,
+  CreateFactResult: CreateFactResultSchema,
+  ApiError: ApiErrorSchema,
+} satisfies Record<string, z.ZodTypeAny>;
+
+const toJsonSchema = (
+  schema: z.ZodTypeAny,
+  definitions: Record<string, z.ZodTypeAny> = COMPONENTS
+): JsonSchema => {
+  const {
+    $schema: _schema,
+    schemas: _definitions,
+    ...jsonSchema
+  } = zodToJsonSchema(schema, {
+    definitions,
+    basePath: ['#', 'components'],
+    definitionPath: 'schemas',
+    $refStrategy: 'root',
+    // zod strips unknown keys rather than rejecting them
+    removeAdditionalStrategy: 'strict',
+    allowedAdditionalProperties: undefined,
+  }) as JsonSchema;
+  return jsonSchema;
+};
+
+const jsonContent = (schema: z.ZodTypeAny) => ({
+  'application/json': { schema: toJsonSchema(schema) },
+});
+
+// A named component plus the envelope fields the route adds around it
+const extendComponent = (name: keyof typeof COMPONENTS, extra: z.AnyZodObject) => ({
+  'application/json': {
+    schema: {
+      allOf: [{ $ref: `#/components/schemas/${name}` }, toJsonSchema(extra)],
+    },
+  },
+});
+
+const errorResponse = (description: string) => ({
+  description,
+  content: { 'application/json': { schema: { $ref: '#/components/schemas/ApiError' } } },
+});
+
+// Turn the properties of an object schema into query parameters
+const queryParameters = (schema: z.AnyZodObject) => {
+  const jsonSchema = toJsonSchema(schema) as { properties: Record<string, JsonSchema>; required?: string[] };
+  return Object.entries(jsonSchema.properties).map(([name, property]) => ({
+    name,
+    in: 'query',
+    required: jsonSchema.required?.includes(name) ?? false,
+    ...(schema.shape[name]?.description && { description: schema.shape[name].description }),
+    schema: property,
+  }));
+};
+
+const pathParameter = (name: string, description: string) => ({
+  name,
+  in: 'path',
+  required: true,
+  description,
+  schema: { type: 'string' },
+});
+
+const factIdParameter = pathParameter('id', 'Fact ID');
+const userIdParameter = pathParameter('userId', 'User ID');
+
+const FactsPageSchema = z.object({
+  success,
+  // Present when the request was scoped to a user
+  userId: z.string().optional(),
+  facts: z.array(FactSchema),
+  totalCount: z.number().int(),
+  // Present when the request was not scoped to a user
+  pagination: z.object({
+    limit: z.number().int(),
+    offset: z.number().int(),
+  }).optional(),
+});
+
+const MessageSchema = z.object({
+  success,
+  message: z.string(),
+});
+
+export interface OpenApiOptions {
+  serverUrl?: string;
+  version?: string;
+}
+
+export const buildOpenApiDocument = ({ serverUrl = '/api/v1', version = '1.0.0' }: OpenApiOptions = {}) => ({
+  openapi: '3.1.0',
+  info: {
+    title: 'Memory Context REST API',
+    version,
+    description: 'Manage the facts the memory server keeps about each user. Every request needs a bearer token. Errors always use the ApiError envelope.',
+  },
+  servers: [{ url: serverUrl }],
+  tags: [
+    { name: 'Facts', description: 'Create, read, update and delete facts' },
+    { name: 'Trash', description: 'Deleted facts that can still be restored' },
+    { name: 'Users', description: 'Operations over all of a user\'s facts' },
+    { name: 'System' },
+  ],
+  paths: {
+    '/context': {
+      post: {
+        tags: ['Facts'],
+        operationId: 'createFact',
+        summary: 'Create a fact',
+        description: 'For single-valued predicates the previous value is superseded and returned in `superseded`.',
+        requestBody: { required: true, content: jsonContent(CreateFactSchema) },
+        responses: {
+          201: {
+            description: 'Fact created',
+            content: extendComponent('CreateFactResult', z.object({ success, message: z.string() })),
+          },
+          400: errorResponse('Invalid request data'),
+          500: errorResponse('Failed to create fact'),
+        },
+      },
+      get: {
+        tags: ['Facts'],
+        operationId: 'listFacts',
+        summary: 'List facts',
+        description: 'Returns current facts unless `includeSuperseded`, `includeExpired` or `asOf` is given.',
+        parameters: queryParameters(QuerySchema),
+        responses: {
+          200: { description: 'Matching facts', content: jsonContent(FactsPageSchema) },
+          400: errorResponse('Invalid query parameters'),
+          500: errorResponse('Failed to retrieve facts'),
+        },
+      },
+    },
+    '/context/{id}': {
+      parameters: [factIdParameter],
+      get: {
+        tags: ['Facts'],
+        operationId: 'getFact',
+        summary: 'Get a fact',
+        responses: {
+          200: { description: 'The fact', content: jsonContent(z.object({ success, fact: FactSchema })) },
+          404: errorResponse('Fact not found'),
+          500: errorResponse('Failed to retrieve fact'),
+        },
+      },
+      put: {
+        tags: ['Facts'],
+        operationId: 'updateFact',
+        summary: 'Update a fact',
+        requestBody: { required: true, content: jsonContent(UpdateFactSchema) },
+        responses: {
+          200: {
+            description: 'Fact updated',
+            content: jsonContent(z.object({ success, fact: FactSchema, message: z.string() })),
+          },
+          400: errorResponse('Invalid request data'),
+          404: errorResponse('Fact not found'),
+          500: errorResponse('Failed to update fact'),
+        },
+      },
+      delete: {
+        tags: ['Facts'],
+        operationId: 'deleteFact',
+        summary: 'Move a fact to the trash',
+        parameters: [{
+          name: 'permanent',
+          in: 'query',
+          required: false,
+          description: 'Delete the fact for good instead of moving it to the trash',
+          schema: { type: 'boolean' },
+        }],
+        responses: {
+          200: { description: 'Fact deleted', content: jsonContent(MessageSchema) },
+          404: errorResponse('Fact not found'),
+          500: errorResponse('Failed to delete fact'),
+        },
+      },
+    },
+    '/context/{id}/history': {
+      parameters: [factIdParameter],
+      get: {
+        tags: ['Facts'],
+        operationId: 'getFactHistory',
+        summary: 'Get the revision history of a fact',
+        responses: {
+          200: {
+            description: 'Revisions, newest first',
+            content: jsonContent(z.object({ success, factId: z.string(), revisions: z.array(FactRevisionSchema) })),
+          },
+          500: errorResponse('Failed to retrieve fact history'),
+        },
+      },
+    },
+    '/context/{id}/restore': {
+      parameters: [factIdParameter],
+      post: {
+        tags: ['Trash'],
+        operationId: 'restoreFact',
+        summary: 'Restore a fact from the trash',
+        responses: {
+          200: {
+            description: 'Fact restored',
+            content: extendComponent('CreateFactResult', z.object({ success, message: z.string() })),
+          },
+          404: errorResponse('Deleted fact not found'),
+          500: errorResponse('Failed to restore fact'),
+        },
+      },
+    },
+    '/context/user/{userId}': {
+      parameters: [userIdParameter],
+      delete: {
+        tags: ['Users'],
+        operationId: 'deleteUserFacts',
+        summary: 'Move all of a user\'s facts to the trash',
+        responses: {
+          200: {
+            description: 'Facts deleted',
+            content: jsonContent(MessageSchema.extend({ deletedCount: z.number().int() })),
+          },
+          500: errorResponse('Failed to delete user facts'),
+        },
+      },
+    },
+    '/context/user/{userId}/trash': {
+      parameters: [userIdParameter],
+      get: {
+        tags: ['Trash'],
+        operationId: 'listDeletedFacts',
+        summary: 'List a user\'s deleted facts',
+        parameters: queryParameters(QuerySchema.pick({ limit: true, offset: true })),
+        responses: {
+          200: {
+            description: 'Deleted facts, most recently deleted first',
+            content: extendComponent('MemoryContext', z.object({ success })),
+          },
+          400: errorResponse('Invalid query parameters'),
+          500: errorResponse('Failed to list deleted facts'),
+        },
+      },
+      delete: {
+        tags: ['Trash'],
+        operationId: 'purgeFacts',
+        summary: 'Permanently purge a user\'s trash',
+        requestBody: { required: false, content: jsonContent(PurgeQuerySchema.omit({ userId: true })) },
+        responses: {
+          200: {
+            description: 'Facts purged',
+            content: jsonContent(MessageSchema.extend({ purgedCount: z.number().int() })),
+          },
+          400: errorResponse('Invalid request data'),
+          500: errorResponse('Failed to purge facts'),
+        },
+      },
+    },
+    '/context/user/{userId}/summary': {
+      parameters: [userIdParameter],
+      get: {
+        tags: ['Users'],
+        operationId: 'getFactsSummary',
+        summary: 'Summarize a user\'s current facts by predicate',
+        responses: {
+          200: {
+            description: 'Facts summary',
+            content: jsonContent(z.object({ success, userId: z.string(), summary: FactsSummarySchema })),
+          },
+          500: errorResponse('Failed to get facts summary'),
+        },
+      },
+    },
+    '/context/user/{userId}/export': {
+      parameters: [userIdParameter],
+      get: {
+        tags: ['Users'],
+        operationId: 'exportFacts',
+        summary: 'Download a user\'s facts as JSON-LD, Turtle, N-Triples or CSV',
+        parameters: queryParameters(z.object({
+          format: ExportFormatSchema.optional().describe('Output format (default jsonld)'),
+          includeSuperseded: z.boolean().optional().describe('Also export facts replaced by newer values'),
+          includeExpired: z.boolean().optional().describe('Also export facts whose validity window has ended'),
+        })),
+        responses: {
+          200: {
+            description: 'The exported document, served as an attachment',
+            content: Object.fromEntries(
+              Object.values(EXPORT_MIME_TYPES).map(mimeType => [mimeType, { schema: { type: 'string' } }])
+            ),
+          },
+          400: errorResponse('Invalid export format'),
+          500: errorResponse('Failed to export facts'),
+        },
+      },
+    },
+    '/context/user/{userId}/import': {
+      parameters: [userIdParameter],
+      post: {
+        tags: ['Users'],
+        operationId: 'importFacts',
+        summary: 'Import facts from an export',
+        description: 'Send the raw document with its format\'s content type (format and policy may then be given as query parameters), or JSON with format, data and policy.',
+        parameters: queryParameters(z.object({
+          format: ExportFormatSchema.optional().describe('Format of a raw body (default: from the content type)'),
+          policy: ImportPolicySchema.optional().describe('What to do with triples the user already has (default skip)'),
+        })),
+        requestBody: {
+          required: true,
+          content: {
+            ...jsonContent(z.object({
+              format: ExportFormatSchema,
+              data: z.string().min(1),
+              policy: ImportPolicySchema.optional(),
+            })),
+            ...Object.fromEntries(
+              Object.values(EXPORT_MIME_TYPES).map(mimeType => [mimeType, { schema: { type: 'string' } }])
+            ),
+          },
+        },
+        responses: {
+          200: {
+            description: 'Import summary',
+            content: jsonContent(MessageSchema.extend({ userId: z.string() }).merge(ImportResultSchema)),
+          },
+          400: errorResponse('Invalid or unparseable import data'),
+          500: errorResponse('Failed to import facts'),
+        },
+      },
+    },
+    '/health': {
+      get: {
+        tags: ['System'],
+        operationId: 'getHealth',
+        summary: 'Database health',
+        responses: {
+          200: {
+            description: 'Healthy',
+            content: jsonContent(z.object({
+              success,
+              status: z.literal('healthy'),
+              timestamp: z.string().datetime(),
+              database: z.literal('connected'),
+            })),
+          },
+          503: errorResponse('Database is unavailable'),
+        },
+      },
+    },
+  },
+  security: [{ bearerAuth: [] }],
+  components: {
+    securitySchemes: {
+      bearerAuth: {
+        type: 'http',
+        scheme: 'bearer',
+        description: 'An API key (mm_...) or a JWT signed with the server\'s key. Tokens only reach their own user\'s facts unless they carry the memory:admin scope; other users\' facts answer 403, or 404 when addressed by fact ID.',
+      },
+    },
+    schemas: Object.fromEntries(
+      Object.entries(COMPONENTS).map(([name, schema], index, components) => [
+        name,
+        toJsonSchema(schema, Object.fromEntries(components.slice(0, index))),
+      ])
+    ),
+  },
+});
+
+export type OpenApiDocument = ReturnType<typeof buildOpenApiDocument>;
+
+const escapeHtml = (value: string) =>
+  value.replace(/[&<>"']/g, char => `&#${char.charCodeAt(0)};`);
+
+// Self-contained docs page: the spec is rendered client-side from the
+// embedded document, so no CDN or extra package is needed
+export const renderDocsPage = (document: OpenApiDocument, specUrl = '/openapi.json'): string => `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(document.info.title)}</title>
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<style>
+  body { margin: 0; font: 14px/1.5 system-ui, sans-serif; background: #09090b; color: #e4e4e7; }
+  main { max-width: 960px; margin: 0 auto; padding: 32px 20px; }
+  a { color: #a1a1aa; }
+  h1 { margin: 0 0 4px; font-size: 24px; }
+  h2 { margin: 32px 0 8px; font-size: 16px; color: #a1a1aa; text-transform: uppercase; letter-spacing: .05em; }
+  details { margin: 8px 0; border: 1px solid #27272a; border-radius: 10px; background: #18181b; }
+  summary { cursor: pointer; padding: 10px 14px; display: flex; gap: 12px; align-items: center; }
+  .method { font: 600 12px ui-monospace, monospace; width: 56px; text-transform: uppercase; }
+  .get { color: #34d399; } .post { color: #60a5fa; } .put { color: #fbbf24; } .delete { color: #f87171; }
+  .path { font-family: ui-monospace, monospace; }
+  .muted { color: #71717a; }
+  .body { padding: 0 14px 14px; }
+  pre { background: #09090b; border: 1px solid #27272a; border-radius: 8px; padding: 10px; overflow-x: auto; font-size: 12px; }
+  table { border-collapse: collapse; width: 100%; font-size: 13px; }
+  td, th { text-align: left; padding: 4px 8px; border-bottom: 1px solid #27272a; vertical-align: top; }
+</style>
+</head>
+<body>
+<main>
+  <h1>${escapeHtml(document.info.title)} <span class="muted">v${escapeHtml(document.info.version)}</span></h1>
+  <p class="muted">${escapeHtml(document.info.description)} Base URL <code>${escapeHtml(document.servers[0].url)}</code>. Raw document: <a href="${escapeHtml(specUrl)}">${escapeHtml(specUrl)}</a></p>
+  <div id="operations"></div>
+</main>
+<script id="spec" type="application/json">${JSON.stringify(document).replace(/</g, '\\u003c')}</script>
+<script>
+  const spec = JSON.parse(document.getElementById('spec').textContent);
+  const esc = (value) => String(value).replace(/[&<>"']/g, (c) => '&#' + c.charCodeAt(0) + ';');
+  const json = (value) => '<pre>' + esc(JSON.stringify(value, null, 2)) + '</pre>';
+  const resolve = (schema) => schema && schema.$ref ? spec.components.schemas[schema.$ref.split('/').pop()] : schema;
+  const sections = {};
+  for (const [path, item] of Object.entries(spec.paths)) {
+    for (const [method, op] of Object.entries(item)) {
+      if (method === 'parameters') continue;
+      const params = [...(item.parameters || []), ...(op.parameters || [])];
+      let html = '<details><summary><span class="method ' + method + '">' + method + '</span>'
+        + '<span class="path">' + esc(path) + '</span><span class="muted">' + esc(op.summary || '') + '</span></summary><div class="body">';
+      if (op.description) html += '<p>' + esc(op.description) + '</p>';
+      if (params.length) {
+        html += '<table><tr><th>Parameter</th><th>In</th><th>Type</th><th>Description</th></tr>'
+          + params.map((p) => '<tr><td><code>' + esc(p.name) + '</code>' + (p.required ? ' *' : '') + '</td><td>' + esc(p.in)
+            + '</td><td>' + esc(p.schema.type || p.schema.format || '') + '</td><td>' + esc(p.description || '') + '</td></tr>').join('')
+          + '</table>';
+      }
+      if (op.requestBody && op.requestBody.content['application/json']) html += '<p>Request body</p>' + json(resolve(op.requestBody.content['application/json'].schema));
+      for (const [status, response] of Object.entries(op.responses)) {
+        const schema = response.content && response.content['application/json'] && response.content['application/json'].schema;
+        html += '<p><strong>' + esc(status) + '</strong> ' + esc(response.description) + '</p>' + (schema ? json(resolve(schema)) : '');
+      }
+      html += '</div></details>';
+      const tag = (op.tags && op.tags[0]) || 'Other';
+      (sections[tag] = sections[tag] || []).push(html);
+    }
+  }
+  let out = '';
+  for (const [tag, operations] of Object.entries(sections)) out += '<h2>' + esc(tag) + '</h2>' + operations.join('');
+  out += '<h2>Schemas</h2>';
+  for (const [name, schema] of Object.entries(spec.components.schemas)) {
+    out += '<details><summary><span class="path">' + esc(name) + '</span></summary><div class="body">' + json(schema) + '</div></details>';
+  }
+  document.getElementById('operations').innerHTML = out;
+</script>
+</body>
+</html>
+`;
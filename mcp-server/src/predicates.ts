@@ -0,0 +1,126 @@
+import type { Predicate, PredicateCardinality, PredicateValueType } from './types.js';
+
+// Predicate vocabulary. Each predicate has a canonical name and aliases, so
+// "job", "occupation" and "is_employed_as" are all stored as works_as.
+//
+// A single-valued predicate holds at most one current value per subject, so
+// a new value supersedes the previous one ("lives_in Paris" replaces
+// "lives_in Berlin"). Multi-valued predicates accumulate ("likes pizza" and
+// "likes sushi" both stay current).
+//
+// The built-in vocabulary below is extended or overridden by definitions
+// stored in the database (see FactDatabase.definePredicate).
+
+type PredicateDefinition = Omit<Predicate, 'custom'>;
+
+const define = (
+  name: string,
+  cardinality: PredicateCardinality,
+  valueType: PredicateValueType,
+  description: string,
+  aliases: string[] = []
+): PredicateDefinition => ({ name, aliases, description, valueType, cardinality });
+
+const BUILT_IN_PREDICATES: PredicateDefinition[] = [
+  define('name', 'single', 'text', 'What the person is called', ['is_called', 'named', 'goes_by']),
+  define('age', 'single', 'number', 'Age in years', ['is_aged', 'years_old']),
+  define('birthday', 'single', 'date', 'Date of birth', ['born_on', 'date_of_birth', 'birth_date']),
+  define('born_in', 'single', 'entity', 'Place of birth', ['birthplace', 'place_of_birth']),
+  define('hometown', 'single', 'entity', 'Town the person considers home or grew up in', ['home_town', 'grew_up_in']),
+  define('lives_in', 'single', 'entity', 'Where the person currently lives', ['resides_in', 'living_in', 'based_in', 'current_city']),
+  define('works_as', 'single', 'text', 'Job title or occupation', ['job', 'occupation', 'profession', 'job_title', 'is_employed_as']),
+  define('works_at', 'single', 'entity', 'Employer', ['works_for', 'employer', 'employed_at', 'employed_by']),
+  define('studies_at', 'single', 'entity', 'School or university attended', ['school', 'university', 'attends']),
+  define('relationship_status', 'single', 'text', 'Single, married, engaged, ...', ['marital_status']),
+  define('married_to', 'single', 'entity', 'Spouse', ['spouse', 'is_married_to']),
+  define('likes', 'multi', 'text', 'Things the person enjoys', ['enjoys', 'loves', 'fan_of', 'is_fan_of']),
+  define('dislikes', 'multi', 'text', 'Things the person does not enjoy', ['hates', 'does_not_like']),
+  define('plays', 'multi', 'text', 'Sports, games and instruments', ['plays_sport', 'plays_instrument']),
+  define('owns', 'multi', 'text', 'Possessions', ['possesses']),
+  define('speaks', 'multi', 'text', 'Languages spoken', ['speaks_language', 'language']),
+  define('has_pet', 'multi', 'entity', 'Pets', ['pet', 'owns_pet']),
+  define('has_child', 'multi', 'entity', 'Children', ['child', 'kid']),
+  define('has_sibling', 'multi', 'entity', 'Brothers and sisters', ['sibling']),
+  define('visited', 'multi', 'entity', 'Places the person has been to', ['has_visited', 'been_to', 'traveled_to', 'travelled_to']),
+];
+
+// Canonical name -> definition
+const predicates = new Map<string, Predicate>();
+// Canonical name or alias -> canonical name
+const lookup = new Map<string, string>();
+
+export const normalizePredicateKey = (predicate: string): string => {
+  return predicate.trim().toLowerCase().replace(/[\s-]+/g, '_');
+};
+
+// Add or replace a definition. Aliases the predicate had before are dropped.
+export const registerPredicate = (definition: PredicateDefinition, custom: boolean = false): Predicate => {
+  const name = normalizePredicateKey(definition.name);
+  const aliases = [...new Set(definition.aliases.map(normalizePredicateKey))]
+    .filter(alias => alias && alias !== name);
+
+  for (const alias of predicates.get(name)?.aliases || []) {
+    lookup.delete(alias);
+  }
+
+  const predicate: Predicate = { ...definition, name, aliases, custom };
+  predicates.set(name, predicate);
+  lookup.set(name, name);
+  for (const alias of aliases) {
+    lookup.set(alias, name);
+  }
+  return predicate;
+};
+
+BUILT_IN_PREDICATES.forEach(definition => registerPredicate(definition));
+
+// The canonical name for a predicate as written by a user or a model.
+// Predicates outside the vocabulary keep their normalized form.
+export const canonicalPredicate = (predicate: string): string => {
+  const key = normalizePredicateKey(predicate);
+  return lookup.get(key) ?? key;
+};
+
+export const getPredicate = (predicate: string): Predicate | undefined => {
+  return predicates.get(canonicalPredicate(predicate));
+};
+
+// Every spelling facts of this predicate may be stored under, for matching
+// facts created before an alias was known
+export const predicateForms = (predicate: string): string[] => {
+  const name = canonicalPredicate(predicate);
+  return [name, ...(predicates.get(name)?.aliases || [])];
+};
+
+export const listPredicates = (): Predicate[] => {
+  return [...predicates.values()].sort((a, b) => a.name.localeCompare(b.name));
+};
+
+// Why a definition clashes with the vocabulary, or null: a name or alias
+// may only belong to one predicate
+export const findPredicateConflict = (definition: Pick<Predicate, 'name' | 'aliases'>): string | null => {
+  const name = normalizePredicateKey(definition.name);
+  for (const key of [name, ...definition.aliases.map(normalizePredicateKey)]) {
+    const owner = lookup.get(key);
+    if (owner && owner !== name) {
+      return key === owner
+        ? `"${key}" is already a predicate`
+        : `"${key}" is already an alias of ${owner}`;
+    }
+  }
+  return null;
+};
+
+export const getPredicateCardinality = (predicate: string): PredicateCardinality => {
+  const registered = getPredicate(predicate);
+  if (registered) return registered.cardinality;
+
+  // "favorite_color", "favourite_team" and friends name exactly one thing
+  if (/^favou?rite_/.test(canonicalPredicate(predicate))) return 'single';
+
+  return 'multi';
+};
+
+export const isSingleValued = (predicate: string): boolean => {
+  return getPredicateCardinality(predicate) === 'single';
+};
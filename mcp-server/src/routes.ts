@@ -1,301 +1,556 @@
-import { Router } from 'express';
-import type { Request, Response, NextFunction } from 'express';
-import { FactDatabase } from './database.js';
-import { CreateFactSchema, UpdateFactSchema, QuerySchema } from './types.js';
+import { Router, text } from 'express';
+import type { Request, Response, NextFunction, ErrorRequestHandler } from 'express';
+import type { FactDatabase } from './database.js';
+import { CreateFactSchema, UpdateFactSchema, QuerySchema, PurgeQuerySchema, ExportFormatSchema, ImportPolicySchema } from './types.js';
+import { EXPORT_MIME_TYPES, serializeFacts, parseFacts, formatFromMimeType } from './interchange.js';
+import { canAccessUser, canAccessFact, isAdmin, principalUserId } from './auth.js';
 import type { MemoryContext } from './types.js';
 
-const router = Router();
+// REST API for non-MCP consumers (scripts, dashboards). Mounted by
+// setupHttpServer under /api/v1 and shares the server's FactDatabase.
+// Requests carry the bearer principal in req.auth (see auth.ts) and may only
+// touch that user's facts; facts of other users answer 404.
+//
+// Every failure uses the same envelope:
+//   { success: false, error: { code, message, details? } }
 
-// Initialize database
-const db = new FactDatabase();
+export const API_ERROR_CODES = [
+  'invalid_request',
+  'unauthorized',
+  'forbidden',
+  'not_found',
+  'internal_error',
+  'service_unavailable',
+] as const;
+
+export type ApiErrorCode = typeof API_ERROR_CODES[number];
+
+export const sendError = (
+  res: Response,
+  status: number,
+  code: ApiErrorCode,
+  message: string,
+  details?: unknown
+) => {
+  return res.status(status).json({
+    success: false,
+    error: {
+      code,
+      message,
+      ...(details !== undefined && { details }),
+    },
+  });
+};
+
+const errorDetail = (error: unknown) => (error instanceof Error ? error.message : 'Unknown error');
+
+const sendForbidden = (res: Response, userId: string) =>
+  sendError(res, 403, 'forbidden', `Not allowed to access facts of user ${userId}`);
 
 // Middleware for error handling
-const asyncHandler = (fn: (req: Request, res: Response, next: NextFunction) => Promise<any>) => 
+const asyncHandler = (fn: (req: Request, res: Response, next: NextFunction) => Promise<any>) =>
   (req: Request, res: Response, next: NextFunction) => {
     Promise.resolve(fn(req, res, next)).catch(next);
   };
 
-// POST /context - Create a new fact
-router.post('/context', asyncHandler(async (req: Request, res: Response, _next: NextFunction) => {
-  try {
-    const validation = CreateFactSchema.safeParse(req.body);
-    
-    if (!validation.success) {
-      return res.status(400).json({
-        error: 'Invalid request data',
-        details: validation.error.errors,
-      });
-    }
+// Catches anything the route handlers did not, including malformed JSON
+// bodies rejected by express.json() before the router runs
+export const apiErrorHandler: ErrorRequestHandler = (error, _req, res, _next) => {
+  if (res.headersSent) return;
 
-    const fact = await db.createFact(validation.data);
-    
-    res.status(201).json({
-      success: true,
-      fact,
-      message: 'Fact created successfully',
-    });
-  } catch (error) {
-    console.error('Error creating fact:', error);
-    res.status(500).json({
-      error: 'Failed to create fact',
-      message: error instanceof Error ? error.message : 'Unknown error',
-    });
+  if (error?.type === 'entity.parse.failed') {
+    sendError(res, 400, 'invalid_request', 'Malformed JSON body', errorDetail(error));
+    return;
   }
-}));
-
-// GET /context - Retrieve facts (with optional filtering)
-router.get('/context', asyncHandler(async (req: Request, res: Response, _next: NextFunction) => {
-  try {
-    const queryParams = {
-      userId: req.query.userId as string,
-      subject: req.query.subject as string,
-      predicate: req.query.predicate as string,
-      object: req.query.object as string,
-      limit: req.query.limit ? parseInt(req.query.limit as string) : undefined,
-      offset: req.query.offset ? parseInt(req.query.offset as string) : undefined,
-    };
-
-    // Remove undefined values
-    const cleanedQuery = Object.fromEntries(
-      Object.entries(queryParams).filter(([_, value]) => value !== undefined)
-    );
-
-    const validation = QuerySchema.safeParse(cleanedQuery);
-    
-    if (!validation.success) {
-      return res.status(400).json({
-        error: 'Invalid query parameters',
-        details: validation.error.errors,
+
+  console.error('❌ Unhandled REST API error:', error);
+  sendError(res, 500, 'internal_error', 'Internal server error', errorDetail(error));
+};
+
+export const createApiRouter = (db: FactDatabase): Router => {
+  const router = Router();
+
+  // POST /context - Create a new fact
+  router.post('/context', asyncHandler(async (req: Request, res: Response, _next: NextFunction) => {
+    try {
+      const validation = CreateFactSchema.safeParse(req.body);
+
+      if (!validation.success) {
+        return sendError(res, 400, 'invalid_request', 'Invalid request data', validation.error.errors);
+      }
+
+      if (!canAccessUser(req.auth, validation.data.userId)) {
+        return sendForbidden(res, validation.data.userId);
+      }
+
+      const { fact, superseded } = await db.createFact(validation.data);
+
+      res.status(201).json({
+        success: true,
+        fact,
+        superseded,
+        message: 'Fact created successfully',
       });
+    } catch (error) {
+      console.error('Error creating fact:', error);
+      sendError(res, 500, 'internal_error', 'Failed to create fact', errorDetail(error));
     }
+  }));
 
-    const { facts, totalCount } = await db.getFacts(validation.data);
-    
-    // Format response based on whether userId is provided
-    if (req.query.userId) {
-      const memoryContext: MemoryContext = {
-        userId: req.query.userId as string,
-        facts,
-        totalCount,
+  // GET /context - Retrieve facts (with optional filtering)
+  router.get('/context', asyncHandler(async (req: Request, res: Response, _next: NextFunction) => {
+    try {
+      // Without a userId, non-admin principals see their own facts
+      const userId = (req.query.userId as string) || (isAdmin(req.auth) ? undefined : principalUserId(req.auth));
+
+      if (userId && !canAccessUser(req.auth, userId)) {
+        return sendForbidden(res, userId);
+      }
+
+      const queryParams = {
+        userId,
+        subject: req.query.subject as string,
+        predicate: req.query.predicate as string,
+        object: req.query.object as string,
+        query: req.query.query as string,
+        asOf: req.query.asOf as string,
+        includeSuperseded: req.query.includeSuperseded ? req.query.includeSuperseded === 'true' : undefined,
+        includeExpired: req.query.includeExpired ? req.query.includeExpired === 'true' : undefined,
+        limit: req.query.limit ? parseInt(req.query.limit as string) : undefined,
+        offset: req.query.offset ? parseInt(req.query.offset as string) : undefined,
       };
-      
-      res.json(memoryContext);
-    } else {
+
+      // Remove undefined values
+      const cleanedQuery = Object.fromEntries(
+        Object.entries(queryParams).filter(([_, value]) => value !== undefined)
+      );
+
+      const validation = QuerySchema.safeParse(cleanedQuery);
+
+      if (!validation.success) {
+        return sendError(res, 400, 'invalid_request', 'Invalid query parameters', validation.error.errors);
+      }
+
+      const { facts, totalCount } = await db.getFacts(validation.data);
+
+      // Format response based on whether userId is provided
+      if (userId) {
+        const memoryContext: MemoryContext = {
+          userId,
+          facts,
+          totalCount,
+        };
+
+        res.json({ success: true, ...memoryContext });
+      } else {
+        res.json({
+          success: true,
+          facts,
+          totalCount,
+          pagination: {
+            limit: validation.data.limit || 100,
+            offset: validation.data.offset || 0,
+          },
+        });
+      }
+    } catch (error) {
+      console.error('Error retrieving facts:', error);
+      sendError(res, 500, 'internal_error', 'Failed to retrieve facts', errorDetail(error));
+    }
+  }));
+
+  // GET /context/:id - Retrieve a specific fact by ID
+  router.get('/context/:id', asyncHandler(async (req: Request, res: Response, _next: NextFunction) => {
+    try {
+      const { id } = req.params;
+
+      if (!id) {
+        return sendError(res, 400, 'invalid_request', 'Fact ID is required');
+      }
+
+      if (!(await canAccessFact(db, req.auth, id))) {
+        return sendError(res, 404, 'not_found', 'Fact not found');
+      }
+
+      const fact = await db.getFactById(id);
+
+      if (!fact) {
+        return sendError(res, 404, 'not_found', 'Fact not found');
+      }
+
       res.json({
-        facts,
-        totalCount,
-        pagination: {
-          limit: validation.data.limit || 100,
-          offset: validation.data.offset || 0,
-        },
+        success: true,
+        fact,
       });
+    } catch (error) {
+      console.error('Error retrieving fact:', error);
+      sendError(res, 500, 'internal_error', 'Failed to retrieve fact', errorDetail(error));
     }
-  } catch (error) {
-    console.error('Error retrieving facts:', error);
-    res.status(500).json({
-      error: 'Failed to retrieve facts',
-      message: error instanceof Error ? error.message : 'Unknown error',
-    });
-  }
-}));
-
-// GET /context/:id - Retrieve a specific fact by ID
-router.get('/context/:id', asyncHandler(async (req: Request, res: Response, _next: NextFunction) => {
-  try {
-    const { id } = req.params;
-    
-    if (!id) {
-      return res.status(400).json({
-        error: 'Fact ID is required',
+  }));
+
+  // GET /context/:id/history - Retrieve the revision history of a fact
+  router.get('/context/:id/history', asyncHandler(async (req: Request, res: Response, _next: NextFunction) => {
+    try {
+      const { id } = req.params;
+
+      if (!id) {
+        return sendError(res, 400, 'invalid_request', 'Fact ID is required');
+      }
+
+      if (!(await canAccessFact(db, req.auth, id))) {
+        return sendError(res, 404, 'not_found', 'Fact not found');
+      }
+
+      // Revisions outlive purged facts, so ownership is checked per revision
+      const revisions = (await db.getFactHistory({ factId: id }))
+        .filter(revision => canAccessUser(req.auth, revision.userId));
+
+      res.json({
+        success: true,
+        factId: id,
+        revisions,
       });
+    } catch (error) {
+      console.error('Error retrieving fact history:', error);
+      sendError(res, 500, 'internal_error', 'Failed to retrieve fact history', errorDetail(error));
     }
+  }));
 
-    const fact = await db.getFactById(id);
-    
-    if (!fact) {
-      return res.status(404).json({
-        error: 'Fact not found',
+  // PUT /context/:id - Update a fact
+  router.put('/context/:id', asyncHandler(async (req: Request, res: Response, _next: NextFunction) => {
+    try {
+      const { id } = req.params;
+
+      if (!id) {
+        return sendError(res, 400, 'invalid_request', 'Fact ID is required');
+      }
+
+      if (!(await canAccessFact(db, req.auth, id))) {
+        return sendError(res, 404, 'not_found', 'Fact not found');
+      }
+
+      const validation = UpdateFactSchema.safeParse(req.body);
+
+      if (!validation.success) {
+        return sendError(res, 400, 'invalid_request', 'Invalid request data', validation.error.errors);
+      }
+
+      if (validation.data.userId && !canAccessUser(req.auth, validation.data.userId)) {
+        return sendForbidden(res, validation.data.userId);
+      }
+
+      const updatedFact = await db.updateFact(id, validation.data);
+
+      if (!updatedFact) {
+        return sendError(res, 404, 'not_found', 'Fact not found');
+      }
+
+      res.json({
+        success: true,
+        fact: updatedFact,
+        message: 'Fact updated successfully',
       });
+    } catch (error) {
+      console.error('Error updating fact:', error);
+      sendError(res, 500, 'internal_error', 'Failed to update fact', errorDetail(error));
     }
+  }));
 
-    res.json({
-      success: true,
-      fact,
-    });
-  } catch (error) {
-    console.error('Error retrieving fact:', error);
-    res.status(500).json({
-      error: 'Failed to retrieve fact',
-      message: error instanceof Error ? error.message : 'Unknown error',
-    });
-  }
-}));
-
-// PUT /context/:id - Update a fact
-router.put('/context/:id', asyncHandler(async (req: Request, res: Response, _next: NextFunction) => {
-  try {
-    const { id } = req.params;
-    
-    if (!id) {
-      return res.status(400).json({
-        error: 'Fact ID is required',
+  // DELETE /context/:id - Move a fact to the trash (?permanent=true deletes it for good)
+  router.delete('/context/:id', asyncHandler(async (req: Request, res: Response, _next: NextFunction) => {
+    try {
+      const { id } = req.params;
+
+      if (!id) {
+        return sendError(res, 400, 'invalid_request', 'Fact ID is required');
+      }
+
+      if (!(await canAccessFact(db, req.auth, id))) {
+        return sendError(res, 404, 'not_found', 'Fact not found');
+      }
+
+      const permanent = req.query.permanent === 'true';
+      const deleted = await db.deleteFact(id, undefined, permanent);
+
+      if (!deleted) {
+        return sendError(res, 404, 'not_found', 'Fact not found');
+      }
+
+      res.json({
+        success: true,
+        message: permanent ? 'Fact deleted permanently' : 'Fact moved to trash',
       });
+    } catch (error) {
+      console.error('Error deleting fact:', error);
+      sendError(res, 500, 'internal_error', 'Failed to delete fact', errorDetail(error));
     }
+  }));
+
+  // POST /context/:id/restore - Move a fact out of the trash
+  router.post('/context/:id/restore', asyncHandler(async (req: Request, res: Response, _next: NextFunction) => {
+    try {
+      const { id } = req.params;
+
+      if (!id) {
+        return sendError(res, 400, 'invalid_request', 'Fact ID is required');
+      }
+
+      if (!(await canAccessFact(db, req.auth, id))) {
+        return sendError(res, 404, 'not_found', 'Fact not found');
+      }
 
-    const validation = UpdateFactSchema.safeParse(req.body);
-    
-    if (!validation.success) {
-      return res.status(400).json({
-        error: 'Invalid request data',
-        details: validation.error.errors,
+      const restored = await db.restoreFact(id);
+
+      if (!restored) {
+        return sendError(res, 404, 'not_found', 'Deleted fact not found');
+      }
+
+      res.json({
+        success: true,
+        ...restored,
+        message: 'Fact restored successfully',
       });
+    } catch (error) {
+      console.error('Error restoring fact:', error);
+      sendError(res, 500, 'internal_error', 'Failed to restore fact', errorDetail(error));
     }
+  }));
+
+  // DELETE /context/user/:userId - Move all facts for a user to the trash
+  router.delete('/context/user/:userId', asyncHandler(async (req: Request, res: Response, _next: NextFunction) => {
+    try {
+      const { userId } = req.params;
 
-    const updatedFact = await db.updateFact(id, validation.data);
-    
-    if (!updatedFact) {
-      return res.status(404).json({
-        error: 'Fact not found',
+      if (!userId) {
+        return sendError(res, 400, 'invalid_request', 'User ID is required');
+      }
+
+      if (!canAccessUser(req.auth, userId)) {
+        return sendForbidden(res, userId);
+      }
+
+      const deletedCount = await db.deleteAllFactsForUser(userId);
+
+      res.json({
+        success: true,
+        deletedCount,
+        message: `Moved ${deletedCount} facts for user ${userId} to trash`,
       });
+    } catch (error) {
+      console.error('Error deleting user facts:', error);
+      sendError(res, 500, 'internal_error', 'Failed to delete user facts', errorDetail(error));
     }
+  }));
 
-    res.json({
-      success: true,
-      fact: updatedFact,
-      message: 'Fact updated successfully',
-    });
-  } catch (error) {
-    console.error('Error updating fact:', error);
-    res.status(500).json({
-      error: 'Failed to update fact',
-      message: error instanceof Error ? error.message : 'Unknown error',
-    });
-  }
-}));
-
-// DELETE /context/:id - Delete a fact
-router.delete('/context/:id', asyncHandler(async (req: Request, res: Response, _next: NextFunction) => {
-  try {
-    const { id } = req.params;
-    
-    if (!id) {
-      return res.status(400).json({
-        error: 'Fact ID is required',
+  // GET /context/user/:userId/trash - List a user's deleted facts
+  router.get('/context/user/:userId/trash', asyncHandler(async (req: Request, res: Response, _next: NextFunction) => {
+    try {
+      const { userId } = req.params;
+
+      if (!userId) {
+        return sendError(res, 400, 'invalid_request', 'User ID is required');
+      }
+
+      if (!canAccessUser(req.auth, userId)) {
+        return sendForbidden(res, userId);
+      }
+
+      const validation = QuerySchema.pick({ limit: true, offset: true }).safeParse({
+        limit: req.query.limit ? parseInt(req.query.limit as string) : undefined,
+        offset: req.query.offset ? parseInt(req.query.offset as string) : undefined,
+      });
+
+      if (!validation.success) {
+        return sendError(res, 400, 'invalid_request', 'Invalid query parameters', validation.error.errors);
+      }
+
+      const { facts, totalCount } = await db.listDeletedFacts(userId, validation.data.limit, validation.data.offset);
+
+      res.json({
+        success: true,
+        userId,
+        facts,
+        totalCount,
       });
+    } catch (error) {
+      console.error('Error listing deleted facts:', error);
+      sendError(res, 500, 'internal_error', 'Failed to list deleted facts', errorDetail(error));
     }
+  }));
+
+  // DELETE /context/user/:userId/trash - Permanently purge a user's trash
+  router.delete('/context/user/:userId/trash', asyncHandler(async (req: Request, res: Response, _next: NextFunction) => {
+    try {
+      const { userId } = req.params;
+
+      if (!userId) {
+        return sendError(res, 400, 'invalid_request', 'User ID is required');
+      }
+
+      if (!canAccessUser(req.auth, userId)) {
+        return sendForbidden(res, userId);
+      }
+
+      const validation = PurgeQuerySchema.safeParse({ ...req.body, userId });
 
-    const deleted = await db.deleteFact(id);
-    
-    if (!deleted) {
-      return res.status(404).json({
-        error: 'Fact not found',
+      if (!validation.success) {
+        return sendError(res, 400, 'invalid_request', 'Invalid request data', validation.error.errors);
+      }
+
+      const purgedCount = await db.purgeFacts(validation.data);
+
+      res.json({
+        success: true,
+        purgedCount,
+        message: `Purged ${purgedCount} facts for user ${userId}`,
       });
+    } catch (error) {
+      console.error('Error purging facts:', error);
+      sendError(res, 500, 'internal_error', 'Failed to purge facts', errorDetail(error));
     }
+  }));
 
-    res.json({
-      success: true,
-      message: 'Fact deleted successfully',
-    });
-  } catch (error) {
-    console.error('Error deleting fact:', error);
-    res.status(500).json({
-      error: 'Failed to delete fact',
-      message: error instanceof Error ? error.message : 'Unknown error',
-    });
-  }
-}));
-
-// DELETE /context/user/:userId - Delete all facts for a user
-router.delete('/context/user/:userId', asyncHandler(async (req: Request, res: Response, _next: NextFunction) => {
-  try {
-    const { userId } = req.params;
-    
-    if (!userId) {
-      return res.status(400).json({
-        error: 'User ID is required',
+  // GET /context/user/:userId/summary - Get facts summary for a user
+  router.get('/context/user/:userId/summary', asyncHandler(async (req: Request, res: Response, _next: NextFunction) => {
+    try {
+      const { userId } = req.params;
+
+      if (!userId) {
+        return sendError(res, 400, 'invalid_request', 'User ID is required');
+      }
+
+      if (!canAccessUser(req.auth, userId)) {
+        return sendForbidden(res, userId);
+      }
+
+      const summary = await db.getUserFactsSummary(userId);
+
+      res.json({
+        success: true,
+        userId,
+        summary,
       });
+    } catch (error) {
+      console.error('Error getting facts summary:', error);
+      sendError(res, 500, 'internal_error', 'Failed to get facts summary', errorDetail(error));
     }
+  }));
 
-    const deletedCount = await db.deleteAllFactsForUser(userId);
-    
-    res.json({
-      success: true,
-      deletedCount,
-      message: `Deleted ${deletedCount} facts for user ${userId}`,
-    });
-  } catch (error) {
-    console.error('Error deleting user facts:', error);
-    res.status(500).json({
-      error: 'Failed to delete user facts',
-      message: error instanceof Error ? error.message : 'Unknown error',
-    });
-  }
-}));
-
-// GET /context/user/:userId/summary - Get facts summary for a user
-router.get('/context/user/:userId/summary', asyncHandler(async (req: Request, res: Response, _next: NextFunction) => {
-  try {
-    const { userId } = req.params;
-    
-    if (!userId) {
-      return res.status(400).json({
-        error: 'User ID is required',
+  // GET /context/user/:userId/export - Download a user's facts (?format=jsonld|turtle|ntriples|csv)
+  router.get('/context/user/:userId/export', asyncHandler(async (req: Request, res: Response, _next: NextFunction) => {
+    try {
+      const { userId } = req.params;
+
+      if (!userId) {
+        return sendError(res, 400, 'invalid_request', 'User ID is required');
+      }
+
+      if (!canAccessUser(req.auth, userId)) {
+        return sendForbidden(res, userId);
+      }
+
+      const validation = ExportFormatSchema.safeParse(req.query.format ?? 'jsonld');
+
+      if (!validation.success) {
+        return sendError(res, 400, 'invalid_request', 'Invalid export format', validation.error.errors);
+      }
+
+      const format = validation.data;
+      const facts = await db.exportFacts(userId, {
+        includeSuperseded: req.query.includeSuperseded === 'true',
+        includeExpired: req.query.includeExpired === 'true',
       });
+
+      const extension = { jsonld: 'jsonld', turtle: 'ttl', ntriples: 'nt', csv: 'csv' }[format];
+      res
+        .type(EXPORT_MIME_TYPES[format])
+        .attachment(`memory-${userId}.${extension}`)
+        .send(serializeFacts(facts, format, userId));
+    } catch (error) {
+      console.error('Error exporting facts:', error);
+      sendError(res, 500, 'internal_error', 'Failed to export facts', errorDetail(error));
+    }
+  }));
+
+  // POST /context/user/:userId/import - Import an export (?policy=skip|overwrite|merge).
+  // Accepts the raw document with its format's content type, or JSON
+  // { format, data, policy }
+  router.post(
+    '/context/user/:userId/import',
+    text({ type: Object.values(EXPORT_MIME_TYPES), limit: '10mb' }),
+    asyncHandler(async (req: Request, res: Response, _next: NextFunction) => {
+      try {
+        const { userId } = req.params;
+
+        if (!userId) {
+          return sendError(res, 400, 'invalid_request', 'User ID is required');
+        }
+
+        if (!canAccessUser(req.auth, userId)) {
+          return sendForbidden(res, userId);
+        }
+
+        const raw = typeof req.body === 'string';
+        const format = ExportFormatSchema.safeParse(
+          raw ? req.query.format ?? formatFromMimeType(req.headers['content-type']) : req.body?.format
+        );
+        const policy = ImportPolicySchema.optional().safeParse(raw ? req.query.policy : req.body?.policy ?? req.query.policy);
+        const data = raw ? req.body : req.body?.data;
+
+        if (!format.success) {
+          return sendError(res, 400, 'invalid_request', 'Invalid import format', format.error.errors);
+        }
+        if (!policy.success) {
+          return sendError(res, 400, 'invalid_request', 'Invalid conflict policy', policy.error.errors);
+        }
+        if (typeof data !== 'string' || data.trim() === '') {
+          return sendError(res, 400, 'invalid_request', 'Import data is required');
+        }
+
+        let facts;
+        try {
+          facts = parseFacts(data, format.data);
+        } catch (error) {
+          return sendError(res, 400, 'invalid_request', 'Could not parse import data', errorDetail(error));
+        }
+
+        const result = await db.importFacts(userId, facts, policy.data);
+
+        res.json({
+          success: true,
+          userId,
+          ...result,
+          message: `Imported ${result.created + result.updated} of ${facts.length} facts for user ${userId}`,
+        });
+      } catch (error) {
+        console.error('Error importing facts:', error);
+        sendError(res, 500, 'internal_error', 'Failed to import facts', errorDetail(error));
+      }
+    })
+  );
+
+  // GET /health - Health check endpoint
+  router.get('/health', asyncHandler(async (req: Request, res: Response, _next: NextFunction) => {
+    const isHealthy = await db.healthCheck();
+
+    if (!isHealthy) {
+      return sendError(res, 503, 'service_unavailable', 'Database is unavailable');
     }
 
-    const summary = await db.getUserFactsSummary(userId);
-    
     res.json({
       success: true,
-      userId,
-      summary,
-    });
-  } catch (error) {
-    console.error('Error getting facts summary:', error);
-    res.status(500).json({
-      error: 'Failed to get facts summary',
-      message: error instanceof Error ? error.message : 'Unknown error',
-    });
-  }
-}));
-
-// GET /health - Health check endpoint
-router.get('/health', asyncHandler(async (req: Request, res: Response, _next: NextFunction) => {
-  try {
-    const isHealthy = await db.isHealthy();
-    
-    if (isHealthy) {
-      res.json({
-        status: 'healthy',
-        timestamp: new Date().toISOString(),
-        database: 'connected',
-      });
-    } else {
-      res.status(503).json({
-        status: 'unhealthy',
-        timestamp: new Date().toISOString(),
-        database: 'disconnected',
-      });
-    }
-  } catch (error) {
-    res.status(503).json({
-      status: 'unhealthy',
+      status: 'healthy',
       timestamp: new Date().toISOString(),
-      database: 'error',
-      error: error instanceof Error ? error.message : 'Unknown error',
+      database: 'connected',
     });
-  }
-}));
-
-// Initialize database connection
-export const initializeDatabase = async () => {
-  try {
-    await db.connect();
-    return db;
-  } catch (error) {
-    console.error('Failed to initialize database:', error);
-    throw error;
-  }
-};
+  }));
+
+  // Unknown API routes get the same envelope instead of Express's HTML 404
+  router.use((req: Request, res: Response) => {
+    sendError(res, 404, 'not_found', `No route for ${req.method} ${req.baseUrl}${req.path}`);
+  });
 
-export default router; 
\ No newline at end of file
+  router.use(apiErrorHandler);
+
+  return router;
+};
@@ -0,0 +1,52 @@
+import type { FactDatabase } from './database.js';
+
+export const DEFAULT_SWEEP_INTERVAL_MS = 10 * 60 * 1000; // 10 minutes
+// The longest delay setInterval accepts (about 24.8 days)
+const MAX_SWEEP_INTERVAL_MS = 2 ** 31 - 1;
+
+// The interval from FACT_SWEEP_INTERVAL_MS. Anything but a positive whole
+// number setInterval can hold falls back to the default: setInterval would
+// run a 0, NaN or too large interval every millisecond.
+export const parseSweepInterval = (value: string | undefined): number => {
+  if (value === undefined || value === '') return DEFAULT_SWEEP_INTERVAL_MS;
+
+  const intervalMs = Number(value);
+  if (!Number.isInteger(intervalMs) || intervalMs <= 0 || intervalMs > MAX_SWEEP_INTERVAL_MS) {
+    console.warn(`⚠️ Ignoring FACT_SWEEP_INTERVAL_MS=${value}; using ${DEFAULT_SWEEP_INTERVAL_MS}ms`);
+    return DEFAULT_SWEEP_INTERVAL_MS;
+  }
+  return intervalMs;
+};
+
+// Periodically archive facts whose validity window has ended. Runs once
+// immediately, then on every interval; returns a function that stops it.
+export const startExpirySweeper = (
+  db: FactDatabase,
+  intervalMs: number = DEFAULT_SWEEP_INTERVAL_MS
+): (() => void) => {
+  let running = false;
+
+  const sweep = async () => {
+    // Skip a tick rather than overlap a slow sweep
+    if (running) return;
+    running = true;
+
+    try {
+      const archived = await db.archiveExpiredFacts();
+      if (archived > 0) {
+        console.log(`🗄️ Archived ${archived} expired fact${archived === 1 ? '' : 's'}`);
+      }
+    } catch (error) {
+      console.error('❌ Expiry sweep failed:', error);
+    } finally {
+      running = false;
+    }
+  };
+
+  void sweep();
+  const timer = setInterval(sweep, intervalMs);
+  // Do not keep the process alive just for the sweeper
+  timer.unref();
+
+  return () => clearInterval(timer);
+};
@@ -1,5 +1,7 @@
 import { z } from 'zod';
 
+export const FactSourceSchema = z.enum(['extracted', 'manual', 'imported']);
+
 // Fact schema matching the Next.js app
 export const FactSchema = z.object({
   id: z.string().optional(),
@@ -7,9 +9,32 @@ export const FactSchema = z.object({
   predicate: z.string().min(1),
   object: z.string().min(1),
   userId: z.string().min(1),
+  confidence: z.number().min(0).max(1).optional(),
+  source: FactSourceSchema.optional(),
+  sourceMessageId: z.string().optional(),
   timestamp: z.string().datetime().optional(),
   createdAt: z.string().datetime().optional(),
   updatedAt: z.string().datetime().optional(),
+  // Present when a newer value of a single-valued predicate replaced this fact
+  supersededAt: z.string().datetime().optional(),
+  supersededById: z.string().optional(),
+  // Window in which the fact holds; open-ended when absent
+  validFrom: z.string().datetime().optional(),
+  validUntil: z.string().datetime().optional(),
+  // Present once the sweeper archived the fact after validUntil passed
+  archivedAt: z.string().datetime().optional(),
+  // Present while the fact is in the trash
+  deletedAt: z.string().datetime().optional(),
+  // Entities the subject and object refer to; objects that are plain values
+  // have none
+  subjectEntityId: z.string().optional(),
+  objectEntityId: z.string().optional(),
+  // Present on full-text search results
+  highlights: z.object({
+    subject: z.string(),
+    predicate: z.string(),
+    object: z.string(),
+  }).optional(),
 });
 
 export const CreateFactSchema = z.object({
@@ -17,7 +42,16 @@ export const CreateFactSchema = z.object({
   predicate: z.string().min(1),
   object: z.string().min(1),
   userId: z.string().min(1),
+  confidence: z.number().min(0).max(1).optional(),
+  source: FactSourceSchema.optional(),
+  sourceMessageId: z.string().min(1).optional(),
+  validFrom: z.string().datetime().optional(),
+  validUntil: z.string().datetime().optional(),
   timestamp: z.string().datetime().optional(),
+  // Link the subject or object to a known entity instead of resolving the
+  // mention by name
+  subjectEntityId: z.string().min(1).optional(),
+  objectEntityId: z.string().min(1).optional(),
 });
 
 export const UpdateFactSchema = z.object({
@@ -25,6 +59,11 @@ export const UpdateFactSchema = z.object({
   predicate: z.string().min(1).optional(),
   object: z.string().min(1).optional(),
   userId: z.string().min(1).optional(),
+  confidence: z.number().min(0).max(1).optional(),
+  source: FactSourceSchema.optional(),
+  // null clears the bound
+  validFrom: z.string().datetime().nullable().optional(),
+  validUntil: z.string().datetime().nullable().optional(),
 });
 
 export const QuerySchema = z.object({
@@ -32,17 +71,275 @@ export const QuerySchema = z.object({
   subject: z.string().optional(),
   predicate: z.string().optional(),
   object: z.string().optional(),
+  // FTS5 query supporting prefixes (berl*), phrases ("new york") and AND/OR/NOT
+  query: z.string().min(1).optional(),
+  // Reconstruct facts as they were at this moment from the revision log
+  asOf: z.string().datetime().optional(),
+  // Include facts replaced by a newer value of a single-valued predicate
+  includeSuperseded: z.boolean().optional(),
+  // Include archived facts and facts outside their validity window
+  includeExpired: z.boolean().optional(),
   limit: z.number().int().positive().max(1000).optional(),
   offset: z.number().int().min(0).optional(),
 });
 
+export const RevisionMetaSchema = z.object({
+  actor: z.string().min(1).optional(),
+  reason: z.string().min(1).optional(),
+});
+
+export const FactRevisionSchema = z.object({
+  id: z.string(),
+  factId: z.string(),
+  userId: z.string(),
+  action: z.enum(['create', 'update', 'delete', 'restore', 'purge', 'supersede', 'archive']),
+  subject: z.string(),
+  predicate: z.string(),
+  object: z.string(),
+  actor: z.string().nullable(),
+  reason: z.string().nullable(),
+  createdAt: z.string().datetime(),
+});
+
+export const HistoryQuerySchema = z.object({
+  factId: z.string().min(1).optional(),
+  userId: z.string().min(1).optional(),
+  limit: z.number().int().positive().max(1000).optional(),
+});
+
+export const PurgeQuerySchema = z.object({
+  userId: z.string().min(1),
+  // Only purge these trashed facts
+  ids: z.array(z.string().min(1)).optional(),
+  // Only purge facts that have been in the trash at least this long
+  olderThanDays: z.number().int().min(0).optional(),
+});
+
+export const MemoryContextSchema = z.object({
+  userId: z.string(),
+  facts: z.array(FactSchema),
+  totalCount: z.number().int(),
+});
+
+export const FactsSummarySchema = z.object({
+  // Number of current facts per predicate
+  predicateCount: z.record(z.number().int()),
+  totalFacts: z.number().int(),
+});
+
+export const CreateFactResultSchema = z.object({
+  fact: FactSchema,
+  // Facts replaced by this one because its predicate is single-valued
+  superseded: z.array(FactSchema),
+});
+
+export const ExportFormatSchema = z.enum(['jsonld', 'turtle', 'ntriples', 'csv']);
+
+// What to do when an imported triple already exists for the user:
+// keep the existing fact, replace its provenance, or combine both
+export const ImportPolicySchema = z.enum(['skip', 'overwrite', 'merge']);
+
+// A triple read from an export, before it is validated against CreateFactSchema
+export const ImportedFactSchema = z.object({
+  subject: z.string(),
+  predicate: z.string(),
+  object: z.string(),
+  confidence: z.number().optional(),
+  validFrom: z.string().optional(),
+  validUntil: z.string().optional(),
+  timestamp: z.string().optional(),
+});
+
+export const ImportResultSchema = z.object({
+  created: z.number().int(),
+  updated: z.number().int(),
+  skipped: z.number().int(),
+  // Rows that could not be imported, by position in the document
+  invalid: z.array(z.object({ index: z.number().int(), error: z.string() })),
+});
+
+export const ApiKeySchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  keyPrefix: z.string(),
+  userId: z.string(),
+  scopes: z.array(z.string()),
+  expiresAt: z.string().datetime().optional(),
+  lastUsedAt: z.string().datetime().optional(),
+  revokedAt: z.string().datetime().optional(),
+  createdAt: z.string().datetime(),
+});
+
+export const CreateApiKeySchema = z.object({
+  name: z.string().min(1),
+  userId: z.string().min(1),
+  scopes: z.array(z.string().min(1)).optional(),
+  expiresAt: z.string().datetime().optional(),
+});
+
+export const PredicateCardinalitySchema = z.enum(['single', 'multi']);
+
+// What kind of object a predicate takes: free text, a number, a date, or a
+// person, place or thing that may appear as a subject elsewhere
+export const PredicateValueTypeSchema = z.enum(['text', 'number', 'date', 'entity']);
+
+// An entry of the predicate vocabulary. Facts are stored under the canonical
+// name; aliases are rewritten to it when facts are created.
+export const PredicateSchema = z.object({
+  name: z.string().min(1),
+  aliases: z.array(z.string().min(1)),
+  description: z.string().optional(),
+  valueType: PredicateValueTypeSchema,
+  cardinality: PredicateCardinalitySchema,
+  // False for the vocabulary the server ships with, until it is redefined
+  custom: z.boolean(),
+});
+
+export const DefinePredicateSchema = z.object({
+  name: z.string().min(1),
+  aliases: z.array(z.string().min(1)).optional(),
+  description: z.string().optional(),
+  valueType: PredicateValueTypeSchema.optional(),
+  cardinality: PredicateCardinalitySchema.optional(),
+});
+
+export const EntityTypeSchema = z.enum(['person', 'place', 'organization', 'pet', 'other']);
+
+export const EntitySchema = z.object({
+  id: z.string(),
+  userId: z.string(),
+  name: z.string(),
+  type: EntityTypeSchema,
+  // Other names the entity has been mentioned by
+  aliases: z.array(z.string()),
+  createdAt: z.string().datetime(),
+  updatedAt: z.string().datetime(),
+});
+
+export const EntityQuerySchema = z.object({
+  userId: z.string().min(1),
+  type: EntityTypeSchema.optional(),
+  // Matches names and aliases
+  query: z.string().min(1).optional(),
+  limit: z.number().int().positive().optional(),
+});
+
+// Part of an entity that turned out to be someone or something else
+export const SplitEntitySchema = z.object({
+  name: z.string().min(1),
+  type: EntityTypeSchema.optional(),
+  // Aliases that belong to the new entity; they are removed from the old one
+  aliases: z.array(z.string().min(1)).optional(),
+  // Facts that refer to the new entity
+  factIds: z.array(z.string().min(1)).optional(),
+});
+
+export const EntityChangeResultSchema = z.object({
+  entity: EntitySchema,
+  // The entity split off, for split-entity
+  created: EntitySchema.optional(),
+  // Number of fact links that now point elsewhere
+  movedLinks: z.number().int(),
+});
+
+// A triple to match in the graph. Terms starting with "?" are variables;
+// other subjects and objects name an entity (by ID, name or alias) or a value.
+export const GraphPatternSchema = z.object({
+  subject: z.string().min(1),
+  predicate: z.string().min(1),
+  object: z.string().min(1),
+});
+
+export const GraphQueryModeSchema = z.enum(['neighborhood', 'path', 'pattern']);
+
+export const GraphQuerySchema = z.object({
+  userId: z.string().min(1),
+  mode: GraphQueryModeSchema,
+  // Where neighborhood and path queries start (default: the user)
+  entity: z.string().min(1).optional(),
+  // Path queries: follow these predicates in order ("^" follows one
+  // backwards, "*" any predicate) or find the shortest path to `to`
+  predicates: z.array(z.string().min(1)).optional(),
+  to: z.string().min(1).optional(),
+  patterns: z.array(GraphPatternSchema).optional(),
+  depth: z.number().int().positive().optional(),
+  limit: z.number().int().positive().optional(),
+});
+
+// An entity, or a plain value such as an age, in a graph result
+export const GraphNodeSchema = z.object({
+  id: z.string().optional(),
+  name: z.string(),
+  type: EntityTypeSchema.optional(),
+});
+
+export const GraphPathSchema = z.object({
+  nodes: z.array(GraphNodeSchema),
+  facts: z.array(FactSchema),
+});
+
+export const GraphMatchSchema = z.object({
+  bindings: z.record(GraphNodeSchema),
+  facts: z.array(FactSchema),
+});
+
+export const GraphResultSchema = z.object({
+  // neighborhood
+  nodes: z.array(GraphNodeSchema).optional(),
+  facts: z.array(FactSchema).optional(),
+  // path
+  paths: z.array(GraphPathSchema).optional(),
+  // pattern
+  matches: z.array(GraphMatchSchema).optional(),
+  // Set when the limit cut the results short
+  truncated: z.boolean(),
+});
+
+export const SearchQuerySchema = z.object({
+  userId: z.string().min(1),
+  query: z.string().min(1),
+  limit: z.number().int().positive().max(100).optional(),
+  minScore: z.number().min(0).max(1).optional(),
+});
+
+export type FactSource = z.infer<typeof FactSourceSchema>;
 export type Fact = z.infer<typeof FactSchema>;
 export type CreateFact = z.infer<typeof CreateFactSchema>;
 export type UpdateFact = z.infer<typeof UpdateFactSchema>;
 export type Query = z.infer<typeof QuerySchema>;
+export type SearchQuery = z.infer<typeof SearchQuerySchema>;
+export type RevisionMeta = z.infer<typeof RevisionMetaSchema>;
+export type FactRevision = z.infer<typeof FactRevisionSchema>;
+export type RevisionAction = FactRevision['action'];
+export type HistoryQuery = z.infer<typeof HistoryQuerySchema>;
+export type PurgeQuery = z.infer<typeof PurgeQuerySchema>;
+export type MemoryContext = z.infer<typeof MemoryContextSchema>;
+export type FactsSummary = z.infer<typeof FactsSummarySchema>;
+export type CreateFactResult = z.infer<typeof CreateFactResultSchema>;
+export type ExportFormat = z.infer<typeof ExportFormatSchema>;
+export type ImportPolicy = z.infer<typeof ImportPolicySchema>;
+export type ImportedFact = z.infer<typeof ImportedFactSchema>;
+export type ImportResult = z.infer<typeof ImportResultSchema>;
+export type ApiKey = z.infer<typeof ApiKeySchema>;
+export type CreateApiKey = z.infer<typeof CreateApiKeySchema>;
+export type PredicateCardinality = z.infer<typeof PredicateCardinalitySchema>;
+export type PredicateValueType = z.infer<typeof PredicateValueTypeSchema>;
+export type Predicate = z.infer<typeof PredicateSchema>;
+export type DefinePredicate = z.infer<typeof DefinePredicateSchema>;
+export type EntityType = z.infer<typeof EntityTypeSchema>;
+export type Entity = z.infer<typeof EntitySchema>;
+export type EntityQuery = z.infer<typeof EntityQuerySchema>;
+export type SplitEntity = z.infer<typeof SplitEntitySchema>;
+export type EntityChangeResult = z.infer<typeof EntityChangeResultSchema>;
+export type GraphPattern = z.infer<typeof GraphPatternSchema>;
+export type GraphQuery = z.infer<typeof GraphQuerySchema>;
+export type GraphNode = z.infer<typeof GraphNodeSchema>;
+export type GraphPath = z.infer<typeof GraphPathSchema>;
+export type GraphMatch = z.infer<typeof GraphMatchSchema>;
+export type GraphResult = z.infer<typeof GraphResultSchema>;
+
+export interface SearchResult {
+  fact: Fact;
+  score: number;
+}
 
-export interface MemoryContext {
-  userId: string;
-  facts: Fact[];
-  totalCount: number;
-} 
\ No newline at end of file
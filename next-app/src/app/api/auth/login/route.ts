@@ -0,0 +1,41 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authenticate, createSession, setSessionCookie } from '@/lib/auth';
+import { SignInSchema } from '@/types/user';
+
+// POST /api/auth/login - Sign in with email and password
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+
+    const validation = SignInSchema.safeParse(body);
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: 'Invalid request data', details: validation.error.issues },
+        { status: 400 }
+      );
+    }
+
+    const { email, password } = validation.data;
+    const user = await authenticate(email, password);
+
+    if (!user) {
+      return NextResponse.json(
+        { error: 'Invalid email or password' },
+        { status: 401 }
+      );
+    }
+
+    console.log(`🔄 Signed in user: ${user.id}`);
+
+    const response = NextResponse.json({ success: true, user });
+    setSessionCookie(response, await createSession(user.id));
+    return response;
+
+  } catch (error) {
+    console.error('Sign-in API error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
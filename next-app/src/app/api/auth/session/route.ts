@@ -0,0 +1,34 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getSessionUser, deleteSession, clearSessionCookie, unauthorizedResponse, SESSION_COOKIE } from '@/lib/auth';
+
+// GET /api/auth/session - The signed-in user
+export async function GET() {
+  const user = await getSessionUser();
+
+  if (!user) {
+    return unauthorizedResponse();
+  }
+
+  return NextResponse.json({ success: true, user });
+}
+
+// DELETE /api/auth/session - Sign out
+export async function DELETE(request: NextRequest) {
+  try {
+    const token = request.cookies.get(SESSION_COOKIE)?.value;
+    if (token) {
+      await deleteSession(token);
+    }
+
+    const response = NextResponse.json({ success: true, message: 'Signed out' });
+    clearSessionCookie(response);
+    return response;
+
+  } catch (error) {
+    console.error('Sign-out API error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,39 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createUser, createSession, setSessionCookie } from '@/lib/auth';
+import { SignUpSchema } from '@/types/user';
+
+// POST /api/auth/signup - Create an account and sign in
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+
+    const validation = SignUpSchema.safeParse(body);
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: 'Invalid request data', details: validation.error.issues },
+        { status: 400 }
+      );
+    }
+
+    const user = await createUser(validation.data);
+    if (!user) {
+      return NextResponse.json(
+        { error: 'An account with this email already exists' },
+        { status: 409 }
+      );
+    }
+
+    console.log(`🆕 Created account for user: ${user.id}`);
+
+    const response = NextResponse.json({ success: true, user }, { status: 201 });
+    setSessionCookie(response, await createSession(user.id));
+    return response;
+
+  } catch (error) {
+    console.error('Sign-up API error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,152 @@
+import { beforeAll, describe, expect, mock, test } from 'bun:test';
+import { NextRequest } from 'next/server';
+import { Fact } from '@/types/fact';
+
+// Replies come from the mock model script in src/test/mock-model-script.json;
+// the request cookies are stubbed and fetch stands in for the MCP server
+
+let sessionToken = '';
+mock.module('next/headers', () => ({
+  cookies: async () => ({
+    get: (name: string) => (name === 'mm_session' && sessionToken ? { value: sessionToken } : undefined),
+  }),
+}));
+
+const MCP_SERVER_URL = 'http://localhost:3001/mcp';
+
+// The fake server knows fact-berlin from its history but no longer has the
+// fact itself, e.g. because it was purged meanwhile
+let userId: string;
+const knownFact = (): Fact => ({ id: 'fact-berlin', subject: 'user', predicate: 'lives_in', object: 'Berlin', userId });
+const toolCalls: { name: string; arguments: Record<string, unknown> }[] = [];
+
+const text = (value: unknown) => ({ content: [{ type: 'text', text: typeof value === 'string' ? value : JSON.stringify(value) }] });
+
+const callTool = (name: string, args: Record<string, unknown>) => {
+  toolCalls.push({ name, arguments: args });
+  switch (name) {
+    case 'get-facts':
+      return text({ userId, facts: [knownFact()] });
+    case 'create-fact': {
+      const fact = { ...args, id: 'fact-tea' } as unknown as Fact;
+      return { ...text(`Created fact: ${fact.subject} ${fact.predicate} ${fact.object}`), structuredContent: { fact, superseded: [] } };
+    }
+    case 'get-fact-history':
+      return text({ revisions: args.factId === 'fact-berlin' ? [{ userId }] : [] });
+    default:
+      return { ...text(`Fact with ID ${args.id} not found`), isError: true };
+  }
+};
+
+// Background extraction is posted to /api/extract
+const backgroundRequests: string[] = [];
+globalThis.fetch = (async (input: RequestInfo | URL, init?: RequestInit) => {
+  if (String(input) !== MCP_SERVER_URL) {
+    backgroundRequests.push(String(input));
+    return new Response('{}');
+  }
+  const request = JSON.parse(String(init?.body));
+  const result = request.method === 'tools/call' ? callTool(request.params.name, request.params.arguments) : {};
+  return Response.json({ jsonrpc: '2.0', id: request.id, result });
+}) as typeof fetch;
+
+interface ChatEvent {
+  event: string;
+  data: Record<string, unknown>;
+}
+
+const readEvents = async (response: Response): Promise<ChatEvent[]> =>
+  (await response.text())
+    .split('\n\n')
+    .filter(Boolean)
+    .map(block => {
+      const event = block.match(/^event: (.*)$/m)?.[1] || 'message';
+      const data = block.match(/^data: (.*)$/m)?.[1] || '{}';
+      return { event, data: JSON.parse(data) };
+    });
+
+const chat = (body: Record<string, unknown>) => new NextRequest('http://localhost:3000/api/chat', {
+  method: 'POST',
+  headers: { 'Content-Type': 'application/json' },
+  body: JSON.stringify(body),
+});
+
+describe('POST /api/chat', () => {
+  let POST: (request: NextRequest) => Promise<Response>;
+
+  beforeAll(async () => {
+    const { createUser, createSession } = await import('@/lib/auth');
+    const user = await createUser({ email: 'chat-test@example.com', password: 'correct horse battery' });
+    userId = user!.id;
+    sessionToken = await createSession(userId);
+    ({ POST } = await import('./route'));
+  });
+
+  test('rejects requests without a session', async () => {
+    const token = sessionToken;
+    sessionToken = '';
+    try {
+      const response = await POST(chat({ content: 'Hello', role: 'user' }));
+      expect(response.status).toBe(401);
+    } finally {
+      sessionToken = token;
+    }
+  });
+
+  test('streams the reply, the memories used and saves both turns', async () => {
+    const response = await POST(chat({ content: 'Hello there', role: 'user' }));
+    expect(response.headers.get('Content-Type')).toBe('text/event-stream');
+    const conversationId = response.headers.get('X-Conversation-Id')!;
+
+    const events = await readEvents(response);
+    expect(events[0]).toEqual({ event: 'memory', data: { factIds: ['fact-berlin'] } });
+
+    const reply = events
+      .filter(event => event.event === 'message')
+      .map(event => event.data.content)
+      .join('');
+    expect(reply).toBe('You said: Hello there');
+    expect(events[events.length - 1].data.done).toBe(true);
+
+    const { getMessages } = await import('@/lib/store');
+    const messages = await getMessages(conversationId);
+    expect(messages.map(message => [message.role, message.content])).toEqual([
+      ['user', 'Hello there'],
+      ['assistant', 'You said: Hello there'],
+    ]);
+    expect(backgroundRequests).toContain('http://localhost:3000/api/extract');
+  });
+
+  test('runs the memory tools the model calls before answering', async () => {
+    const response = await POST(chat({ content: 'Please remember that I like tea', role: 'user' }));
+    const events = await readEvents(response);
+
+    const toolEvents = events.filter(event => event.event === 'tool').map(event => event.data);
+    expect(toolEvents.map(event => [event.name, event.status])).toEqual([
+      ['create-fact', 'started'],
+      ['create-fact', 'done'],
+    ]);
+    const created = toolCalls.filter(call => call.name === 'create-fact');
+    expect(created).toHaveLength(1);
+    expect(created[0].arguments).toMatchObject({ subject: 'user', predicate: 'likes', object: 'tea', userId });
+
+    const reply = events
+      .filter(event => event.event === 'message')
+      .map(event => event.data.content)
+      .join('');
+    expect(reply).toBe('Got it, you like tea.');
+  });
+
+  test('reports a delete the server refused as failed', async () => {
+    const response = await POST(chat({ content: 'Please forget that I live in Berlin', role: 'user' }));
+    const events = await readEvents(response);
+
+    const toolEvents = events.filter(event => event.event === 'tool').map(event => event.data);
+    expect(toolEvents.map(event => [event.name, event.status])).toEqual([
+      ['delete-fact', 'started'],
+      ['delete-fact', 'error'],
+    ]);
+    expect(toolEvents[1].result).toEqual({ error: 'Failed to forget the fact' });
+    expect(toolCalls.filter(call => call.name === 'delete-fact')).toHaveLength(1);
+  });
+});
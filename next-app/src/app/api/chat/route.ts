@@ -1,9 +1,18 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { AIMessageChunk, BaseMessage, ToolMessage } from '@langchain/core/messages';
 import { createChatModel, formatMessagesForLangChain } from '@/lib/langchain';
-import { saveMessage, getMessages } from '@/lib/redis';
+import { saveMessage, getMessages, createConversation, getConversation, getConversationSummary, MESSAGES_PER_CONVERSATION } from '@/lib/store';
+import { summarizeConversation } from '@/lib/summarize';
+import { buildMemoryContext } from '@/lib/memoryContext';
 import { getMemoryContext } from '@/lib/mcp';
-import { CreateMessageSchema, Message } from '@/types/message';
+import { createMemoryTools } from '@/lib/memoryTools';
+import { getSessionUser, unauthorizedResponse } from '@/lib/auth';
+import { ChatRequestSchema, Message, ToolEvent } from '@/types/message';
 import { MemoryContext } from '@/types/fact';
+import { ConversationSummary } from '@/types/conversation';
+
+// Rounds of memory tool calls the model may make before it has to answer
+const MAX_TOOL_ROUNDS = 3;
 
 // Helper function to handle MCP calls with fallback
 async function getMemoryContextSafe(userId: string): Promise<MemoryContext> {
@@ -29,8 +38,15 @@ async function getMemoryContextSafe(userId: string): Promise<MemoryContext> {
   }
 }
 
-// Helper function for background fact extraction with error handling
-async function triggerFactExtraction(content: string, userId: string, origin: string): Promise<void> {
+// Helper function for background fact extraction with error handling. The
+// caller's cookies are forwarded so /api/extract resolves the same user.
+async function triggerFactExtraction(
+  content: string,
+  origin: string,
+  cookie: string | null,
+  conversationId: string,
+  messageId?: string
+): Promise<void> {
   try {
     console.log(`🔄 Triggering fact extraction for message: "${content.substring(0, 50)}..."`);
     
@@ -42,8 +58,9 @@ async function triggerFactExtraction(content: string, userId: string, origin: st
       method: 'POST',
       headers: {
         'Content-Type': 'application/json',
+        ...(cookie && { Cookie: cookie }),
       },
-      body: JSON.stringify({ message: content, userId }),
+      body: JSON.stringify({ message: content, messageId, conversationId }),
       signal: controller.signal,
     });
     
@@ -56,10 +73,15 @@ async function triggerFactExtraction(content: string, userId: string, origin: st
 
 export async function POST(request: NextRequest) {
   try {
+    const user = await getSessionUser();
+    if (!user) {
+      return unauthorizedResponse();
+    }
+
     const body = await request.json();
     
     // Validate the request
-    const validation = CreateMessageSchema.safeParse(body);
+    const validation = ChatRequestSchema.safeParse(body);
     if (!validation.success) {
       return NextResponse.json(
         { error: 'Invalid request data', details: validation.error.issues },
@@ -67,42 +89,81 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    const { userId, content, role } = validation.data;
+    const { content, role } = validation.data;
+    const userId = user.id;
+
+    // Continue the given conversation, or start one titled after the message
+    const requestedConversationId = validation.data.conversationId;
+    if (requestedConversationId && !(await getConversation(userId, requestedConversationId))) {
+      return NextResponse.json(
+        { error: 'Conversation not found' },
+        { status: 404 }
+      );
+    }
+
+    const conversationId = requestedConversationId
+      || (await createConversation(userId, content.length > 60 ? `${content.substring(0, 57)}...` : content)).id;
+    if (!requestedConversationId) {
+      console.log(`🆕 Started conversation ${conversationId} for user: ${userId}`);
+    }
 
     // Save user message to Redis with error handling
+    let savedMessage: Message | null = null;
     try {
-      await saveMessage(userId, { userId, content, role });
+      savedMessage = await saveMessage(userId, { userId, conversationId, content, role });
     } catch (error) {
       console.error('❌ Failed to save message to Redis:', error);
       // Continue with chat even if Redis fails
     }
 
-    // Get conversation history with fallback
+    // Get conversation history and its running summary with fallback; the
+    // prompt builder decides how many raw turns fit
     let conversationHistory: Message[];
+    let conversationSummary: ConversationSummary | null;
     try {
-      conversationHistory = await getMessages(userId, 20);
+      [conversationHistory, conversationSummary] = await Promise.all([
+        getMessages(conversationId, MESSAGES_PER_CONVERSATION),
+        getConversationSummary(conversationId),
+      ]);
     } catch (error) {
       console.error('❌ Failed to get conversation history:', error);
       // Use empty history as fallback
       conversationHistory = [];
+      conversationSummary = null;
     }
 
     // Get memory context from MCP with safe fallback
     console.log(`📥 Fetching memory context for user: ${userId}`);
     const memoryContext = await getMemoryContextSafe(userId);
     
-    if (memoryContext.facts && memoryContext.facts.length > 0) {
-      console.log('💭 Facts available:', memoryContext.facts.map(f => `${f.predicate}: ${f.object}`));
+    // Keep only the facts relevant to this turn that fit the memory budget
+    const memory = buildMemoryContext(memoryContext.facts || [], {
+      message: content,
+      recentMessages: conversationHistory,
+    });
+    if (memory.facts.length > 0) {
+      console.log(`💭 Injecting ${memory.facts.length} of ${memoryContext.facts.length} facts (${memory.tokens}/${memory.budget} tokens):`, memory.facts.map(f => `${f.predicate}: ${f.object}`));
     }
 
-    // Format messages for LangChain
-    const model = createChatModel();
-    const formattedMessages = formatMessagesForLangChain(conversationHistory, memoryContext);
+    // Format messages for LangChain; the model can call the memory tools
+    // to remember, correct or forget things mid-reply
+    const tools = createMemoryTools(userId, { sourceMessageId: savedMessage?.id });
+    const toolsByName = new Map(tools.map(memoryTool => [memoryTool.name, memoryTool]));
+    const chatModel = createChatModel();
+    if (!chatModel.bindTools) {
+      throw new Error('The configured chat model does not support tool calling');
+    }
+    const model = chatModel.bindTools(tools);
+    const formattedMessages: BaseMessage[] = formatMessagesForLangChain(
+      conversationHistory,
+      { ...memoryContext, facts: memory.facts },
+      conversationSummary
+    );
 
     // Trigger background fact extraction for user messages (fire and forget)
     if (role === 'user') {
       // Don't await this - run in background
-      triggerFactExtraction(content, userId, request.nextUrl.origin).catch(() => {
+      triggerFactExtraction(content, request.nextUrl.origin, request.headers.get('cookie'), conversationId, savedMessage?.id).catch(() => {
         // Error already logged in function
       });
     }
@@ -137,33 +198,90 @@ export async function POST(request: NextRequest) {
           'Content-Type': 'text/event-stream',
           'Cache-Control': 'no-cache',
           'Connection': 'keep-alive',
+          'X-Conversation-Id': conversationId,
         },
       });
     }
     
     let fullResponse = '';
     const encoder = new TextEncoder();
+    const memoryFactIds = memory.facts.map(f => f.id);
     
     const readableStream = new ReadableStream({
       async start(controller) {
+        const sendToolEvent = (event: ToolEvent) => {
+          controller.enqueue(encoder.encode(`event: tool\ndata: ${JSON.stringify(event)}\n\n`));
+        };
+
         try {
-          for await (const chunk of stream) {
-            const content = chunk.content;
-            if (content) {
-              fullResponse += content;
-              const data = JSON.stringify({ content, done: false });
-              controller.enqueue(encoder.encode(`data: ${data}\n\n`));
+          // Lead with the facts injected into the prompt so the client can
+          // show which memories shaped the reply
+          const memoryData = JSON.stringify({ factIds: memoryFactIds });
+          controller.enqueue(encoder.encode(`event: memory\ndata: ${memoryData}\n\n`));
+
+          let roundStream = stream;
+          for (let round = 0; ; round++) {
+            let response: AIMessageChunk | undefined;
+            for await (const chunk of roundStream) {
+              response = response ? response.concat(chunk) : chunk;
+              const content = chunk.text;
+              if (content) {
+                fullResponse += content;
+                const data = JSON.stringify({ content, done: false });
+                controller.enqueue(encoder.encode(`data: ${data}\n\n`));
+              }
+            }
+
+            const toolCalls = response?.tool_calls || [];
+            if (!response || toolCalls.length === 0 || round >= MAX_TOOL_ROUNDS) {
+              break;
+            }
+
+            // Run the requested memory tools and hand the results back
+            formattedMessages.push(response);
+            for (const toolCall of toolCalls) {
+              const toolCallId = toolCall.id || `${toolCall.name}-${round}`;
+              const memoryTool = toolsByName.get(toolCall.name);
+              sendToolEvent({ id: toolCallId, name: toolCall.name, args: toolCall.args, status: 'started' });
+
+              let result: string;
+              let status: ToolEvent['status'] = 'done';
+              try {
+                if (!memoryTool) {
+                  throw new Error(`Unknown tool ${toolCall.name}`);
+                }
+                result = String(await memoryTool.invoke(toolCall.args));
+                if (JSON.parse(result).error) {
+                  status = 'error';
+                }
+              } catch (error) {
+                result = JSON.stringify({ error: error instanceof Error ? error.message : 'Tool call failed' });
+                status = 'error';
+              }
+
+              console.log(`🛠️ ${toolCall.name} ${status}:`, toolCall.args);
+              sendToolEvent({ id: toolCallId, name: toolCall.name, args: toolCall.args, status, result: JSON.parse(result) });
+              formattedMessages.push(new ToolMessage({ content: result, tool_call_id: toolCallId, name: toolCall.name }));
             }
+
+            roundStream = await model.stream(formattedMessages);
           }
           
           // Save assistant's response to Redis (with error handling)
           try {
             await saveMessage(userId, {
               userId,
+              conversationId,
               content: fullResponse,
               role: 'assistant',
+              memoryFactIds,
             });
             console.log(`✅ Assistant response saved. Length: ${fullResponse.length} chars`);
+
+            // Condense older turns in the background
+            summarizeConversation(conversationId).catch(() => {
+              // Error already logged in function
+            });
           } catch (error) {
             console.error('❌ Failed to save assistant response:', error);
             // Continue even if save fails
@@ -192,11 +310,13 @@ export async function POST(request: NextRequest) {
       },
     });
 
+    // The client learns the ID of a newly started conversation from this header
     return new Response(readableStream, {
       headers: {
         'Content-Type': 'text/event-stream',
         'Cache-Control': 'no-cache',
         'Connection': 'keep-alive',
+        'X-Conversation-Id': conversationId,
       },
     });
 
@@ -209,24 +329,35 @@ export async function POST(request: NextRequest) {
   }
 }
 
+// GET /api/chat?conversationId= - Messages of one of the user's conversations
 export async function GET(request: NextRequest) {
   try {
-    const { searchParams } = new URL(request.url);
-    const userId = searchParams.get('userId');
-    
-    if (!userId) {
+    const user = await getSessionUser();
+    if (!user) {
+      return unauthorizedResponse();
+    }
+
+    const conversationId = request.nextUrl.searchParams.get('conversationId');
+    if (!conversationId) {
       return NextResponse.json(
-        { error: 'userId parameter is required' },
+        { error: 'conversationId parameter is required' },
         { status: 400 }
       );
     }
 
+    if (!(await getConversation(user.id, conversationId))) {
+      return NextResponse.json(
+        { error: 'Conversation not found' },
+        { status: 404 }
+      );
+    }
+
     // Add timeout for getting messages
     const timeoutPromise = new Promise<never>((_, reject) => {
       setTimeout(() => reject(new Error('Get messages timeout')), 5000);
     });
     
-    const messagesPromise = getMessages(userId, 50);
+    const messagesPromise = getMessages(conversationId, 50);
     const messages = await Promise.race([messagesPromise, timeoutPromise]);
     
     return NextResponse.json({ messages });
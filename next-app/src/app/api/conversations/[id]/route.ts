@@ -0,0 +1,103 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getConversation, updateConversation, deleteConversation } from '@/lib/store';
+import { getSessionUser, unauthorizedResponse } from '@/lib/auth';
+import { UpdateConversationSchema } from '@/types/conversation';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+const notFoundResponse = () => NextResponse.json(
+  { error: 'Conversation not found' },
+  { status: 404 }
+);
+
+// GET /api/conversations/:id - A single conversation
+export async function GET(_request: NextRequest, { params }: RouteContext) {
+  try {
+    const user = await getSessionUser();
+    if (!user) {
+      return unauthorizedResponse();
+    }
+
+    const { id } = await params;
+    const conversation = await getConversation(user.id, id);
+    if (!conversation) {
+      return notFoundResponse();
+    }
+
+    return NextResponse.json({ conversation });
+
+  } catch (error) {
+    console.error('Get conversation API error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+// PATCH /api/conversations/:id - Rename, archive or unarchive
+export async function PATCH(request: NextRequest, { params }: RouteContext) {
+  try {
+    const user = await getSessionUser();
+    if (!user) {
+      return unauthorizedResponse();
+    }
+
+    const body = await request.json();
+
+    const validation = UpdateConversationSchema.safeParse(body);
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: 'Invalid request data', details: validation.error.issues },
+        { status: 400 }
+      );
+    }
+
+    const { id } = await params;
+    const conversation = await updateConversation(user.id, id, validation.data);
+    if (!conversation) {
+      return notFoundResponse();
+    }
+
+    return NextResponse.json({ success: true, conversation });
+
+  } catch (error) {
+    console.error('Update conversation API error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE /api/conversations/:id - Delete a conversation and its messages
+export async function DELETE(_request: NextRequest, { params }: RouteContext) {
+  try {
+    const user = await getSessionUser();
+    if (!user) {
+      return unauthorizedResponse();
+    }
+
+    const { id } = await params;
+    const deleted = await deleteConversation(user.id, id);
+    if (!deleted) {
+      return notFoundResponse();
+    }
+
+    console.log(`🗑️ Deleted conversation ${id} for user: ${user.id}`);
+
+    return NextResponse.json({
+      success: true,
+      message: 'Conversation deleted successfully',
+    });
+
+  } catch (error) {
+    console.error('Delete conversation API error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,58 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createConversation, listConversations } from '@/lib/store';
+import { getSessionUser, unauthorizedResponse } from '@/lib/auth';
+import { CreateConversationSchema } from '@/types/conversation';
+
+// GET /api/conversations - List the user's conversations (?archived=true includes archived ones)
+export async function GET(request: NextRequest) {
+  try {
+    const user = await getSessionUser();
+    if (!user) {
+      return unauthorizedResponse();
+    }
+
+    const includeArchived = request.nextUrl.searchParams.get('archived') === 'true';
+    const conversations = await listConversations(user.id, includeArchived);
+
+    return NextResponse.json({ conversations });
+
+  } catch (error) {
+    console.error('List conversations API error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/conversations - Start an empty conversation
+export async function POST(request: NextRequest) {
+  try {
+    const user = await getSessionUser();
+    if (!user) {
+      return unauthorizedResponse();
+    }
+
+    const body = await request.json().catch(() => ({}));
+
+    const validation = CreateConversationSchema.safeParse(body);
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: 'Invalid request data', details: validation.error.issues },
+        { status: 400 }
+      );
+    }
+
+    const conversation = await createConversation(user.id, validation.data.title);
+    console.log(`🆕 Created conversation ${conversation.id} for user: ${user.id}`);
+
+    return NextResponse.json({ success: true, conversation }, { status: 201 });
+
+  } catch (error) {
+    console.error('Create conversation API error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,50 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { listExtractionFailures, EXTRACTION_FAILURES_PER_USER } from '@/lib/store';
+import { getSessionUser, unauthorizedResponse } from '@/lib/auth';
+import { ExtractionFailure } from '@/types/extraction';
+import { z } from 'zod';
+
+const ListFailuresSchema = z.object({
+  limit: z.coerce.number().int().min(1).max(EXTRACTION_FAILURES_PER_USER).default(50),
+});
+
+// GET /api/extract/failures - Recent extraction failures for the signed-in
+// user, with counts per reason
+export async function GET(request: NextRequest) {
+  try {
+    const user = await getSessionUser();
+    if (!user) {
+      return unauthorizedResponse();
+    }
+
+    const validation = ListFailuresSchema.safeParse({
+      limit: request.nextUrl.searchParams.get('limit') ?? undefined,
+    });
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: 'Invalid request data', details: validation.error.issues },
+        { status: 400 }
+      );
+    }
+
+    const failures = await listExtractionFailures(user.id, validation.data.limit);
+    const countsByReason = failures.reduce((counts, failure) => {
+      counts[failure.reason] = (counts[failure.reason] || 0) + 1;
+      return counts;
+    }, {} as Partial<Record<ExtractionFailure['reason'], number>>);
+
+    return NextResponse.json({
+      success: true,
+      failures,
+      totalCount: failures.length,
+      countsByReason,
+    });
+
+  } catch (error) {
+    console.error('Get extraction failures API error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,15 +1,27 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { extractFacts } from '@/lib/extractFacts';
-import { pushFact } from '@/lib/mcp';
+import { extractFacts, EXTRACTION_CONTEXT_TURNS } from '@/lib/extractFacts';
+import { pushFacts, updateFact, deleteFact, getMemoryContext, listPredicates, listEntities } from '@/lib/mcp';
+import { getConversation, getMessages } from '@/lib/store';
+import { getSessionUser, unauthorizedResponse } from '@/lib/auth';
+import { PushFactResult } from '@/types/fact';
+import { Message } from '@/types/message';
 import { z } from 'zod';
 
 const ExtractRequestSchema = z.object({
   message: z.string().min(1),
-  userId: z.string().min(1),
+  // ID of the stored chat message, kept as the facts' provenance
+  messageId: z.string().min(1).optional(),
+  // Conversation the message belongs to, whose recent turns give it context
+  conversationId: z.string().min(1).optional(),
 });
 
 export async function POST(request: NextRequest) {
   try {
+    const user = await getSessionUser();
+    if (!user) {
+      return unauthorizedResponse();
+    }
+
     const body = await request.json();
     
     // Validate the request
@@ -21,20 +33,54 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    const { message, userId } = validation.data;
+    const { message, messageId, conversationId } = validation.data;
+    const userId = user.id;
 
     console.log(`Starting fact extraction for user ${userId}`);
     console.log(`Message: "${message.substring(0, 100)}${message.length > 100 ? '...' : ''}"`);
 
-    // Extract facts from the message
-    const facts = await extractFacts(message, userId);
-    
-    console.log(`Extracted ${facts.length} facts`);
+    // The turns before the message, so replies can be resolved against them
+    let recentMessages: Message[] = [];
+    if (conversationId) {
+      if (!(await getConversation(userId, conversationId))) {
+        return NextResponse.json(
+          { error: 'Conversation not found' },
+          { status: 404 }
+        );
+      }
+      const history = await getMessages(conversationId, EXTRACTION_CONTEXT_TURNS + 1);
+      const messageIndex = messageId ? history.findIndex(turn => turn.id === messageId) : -1;
+      recentMessages = messageIndex >= 0 ? history.slice(0, messageIndex) : history;
+    }
+
+    // What is already known, so the extractor can update or delete it, the
+    // predicate names to record new facts under and the entities to link
+    const [{ facts: existingFacts }, predicates, entities] = await Promise.all([
+      getMemoryContext(userId),
+      listPredicates(),
+      listEntities(userId),
+    ]);
+
+    const operations = await extractFacts({
+      message,
+      userId,
+      sourceMessageId: messageId,
+      recentMessages,
+      existingFacts,
+      predicates,
+      entities,
+    });
+
+    const facts = operations.flatMap(operation => (operation.op === 'create' ? [operation.fact] : []));
+    const updates = operations.flatMap(operation => (operation.op === 'update' ? [operation] : []));
+    const deletes = operations.flatMap(operation => (operation.op === 'delete' ? [operation] : []));
+
+    console.log(`Extracted ${facts.length} new facts, ${updates.length} updates and ${deletes.length} deletes`);
     if (facts.length > 0) {
       console.log('Facts extracted:', facts.map(f => `${f.predicate}: ${f.object}`));
     }
     
-    if (facts.length === 0) {
+    if (operations.length === 0) {
       console.log('No extractable facts found in message');
       return NextResponse.json({ 
         message: 'No facts extracted',
@@ -42,33 +88,70 @@ export async function POST(request: NextRequest) {
       });
     }
 
-    // Push facts to MCP server
-    console.log(`Pushing ${facts.length} facts to MCP server...`);
-    const results = await Promise.allSettled(
-      facts.map(fact => pushFact(fact))
-    );
-
-    const successCount = results.filter(result => 
-      result.status === 'fulfilled' && result.value === true
-    ).length;
+    // Push all new facts to MCP server in one atomic write
+    let saved: PushFactResult[] = [];
+    if (facts.length > 0) {
+      console.log(`Pushing ${facts.length} facts to MCP server...`);
+      saved = await pushFacts(facts, { actor: 'extractor', reason: 'Extracted from chat message' }) || [];
+    }
 
-    const failureCount = results.length - successCount;
+    const successCount = saved.length;
+    const failureCount = facts.length - successCount;
 
     if (failureCount > 0) {
-      console.warn(`Failed to push ${failureCount} out of ${results.length} facts to MCP server`);
-    } else {
+      console.warn(`Failed to push ${facts.length} facts to MCP server; none were saved`);
+    } else if (successCount > 0) {
       console.log(`Successfully saved ${successCount} facts to memory`);
     }
 
+    // Older values of single-valued predicates replaced by the new facts
+    const superseded = saved.flatMap(({ fact, superseded }) =>
+      superseded.map(previous => ({
+        id: previous.id,
+        subject: previous.subject,
+        predicate: previous.predicate,
+        object: previous.object,
+        supersededBy: fact.id,
+      }))
+    );
+
+    if (superseded.length > 0) {
+      console.log('Facts superseded:', superseded.map(f => `${f.predicate}: ${f.object}`));
+    }
+
+    // Corrections and retractions of known facts
+    const updated: string[] = [];
+    for (const { id, changes, previous } of updates) {
+      if (await updateFact(id, changes, { actor: 'extractor', reason: 'Corrected in chat message' })) {
+        updated.push(id);
+        console.log(`Fact updated: ${previous.predicate}: ${previous.object} → ${changes.predicate || previous.predicate}: ${changes.object || previous.object}`);
+      }
+    }
+
+    const deleted: string[] = [];
+    for (const { id, previous } of deletes) {
+      if (await deleteFact(id, { actor: 'extractor', reason: 'Retracted in chat message' })) {
+        deleted.push(id);
+        console.log(`Fact deleted: ${previous.predicate}: ${previous.object}`);
+      }
+    }
+
     return NextResponse.json({
       message: 'Facts extraction completed',
       extractedCount: facts.length,
       savedCount: successCount,
       failedCount: failureCount,
+      supersededCount: superseded.length,
+      superseded,
+      updatedCount: updated.length,
+      updated,
+      deletedCount: deleted.length,
+      deleted,
       facts: facts.map(fact => ({
         subject: fact.subject,
         predicate: fact.predicate,
         object: fact.object,
+        confidence: fact.confidence,
       })),
     });
 
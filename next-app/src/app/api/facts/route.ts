@@ -1,11 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { getMemoryContext, updateFact, deleteFact } from '@/lib/mcp';
+import { getMemoryContext, updateFact, deleteFact, getFactOwner } from '@/lib/mcp';
+import { getSessionUser, unauthorizedResponse } from '@/lib/auth';
 import { z } from 'zod';
 
-const GetFactsSchema = z.object({
-  userId: z.string().min(1),
-});
-
 const UpdateFactSchema = z.object({
   factId: z.string().min(1),
   subject: z.string().optional(),
@@ -17,28 +14,15 @@ const DeleteFactSchema = z.object({
   factId: z.string().min(1),
 });
 
-// GET /api/facts - Retrieve facts for a user
-export async function GET(request: NextRequest) {
+// GET /api/facts - Retrieve facts for the signed-in user
+export async function GET() {
   try {
-    const { searchParams } = new URL(request.url);
-    const userId = searchParams.get('userId');
-    
-    if (!userId) {
-      return NextResponse.json(
-        { error: 'userId parameter is required' },
-        { status: 400 }
-      );
-    }
-
-    const validation = GetFactsSchema.safeParse({ userId });
-    if (!validation.success) {
-      return NextResponse.json(
-        { error: 'Invalid parameters', details: validation.error.issues },
-        { status: 400 }
-      );
+    const user = await getSessionUser();
+    if (!user) {
+      return unauthorizedResponse();
     }
 
-    const memoryContext = await getMemoryContext(userId);
+    const memoryContext = await getMemoryContext(user.id);
     
     return NextResponse.json({
       success: true,
@@ -58,6 +42,11 @@ export async function GET(request: NextRequest) {
 // PUT /api/facts - Update a fact
 export async function PUT(request: NextRequest) {
   try {
+    const user = await getSessionUser();
+    if (!user) {
+      return unauthorizedResponse();
+    }
+
     const body = await request.json();
     
     const validation = UpdateFactSchema.safeParse(body);
@@ -69,7 +58,21 @@ export async function PUT(request: NextRequest) {
     }
 
     const { factId, ...updateData } = validation.data;
-    const success = await updateFact(factId, updateData);
+
+    // Another user's fact is reported as missing
+    if (await getFactOwner(factId) !== user.id) {
+      return NextResponse.json(
+        { error: 'Fact not found' },
+        { status: 404 }
+      );
+    }
+
+    // A fact the user edited by hand is one they have confirmed
+    const success = await updateFact(
+      factId,
+      { ...updateData, confidence: 1, source: 'manual' },
+      { actor: 'user', reason: 'Edited in memory sidebar' }
+    );
     
     if (!success) {
       return NextResponse.json(
@@ -92,9 +95,14 @@ export async function PUT(request: NextRequest) {
   }
 }
 
-// DELETE /api/facts - Delete a fact
+// DELETE /api/facts - Move a fact to the trash
 export async function DELETE(request: NextRequest) {
   try {
+    const user = await getSessionUser();
+    if (!user) {
+      return unauthorizedResponse();
+    }
+
     const body = await request.json();
     
     const validation = DeleteFactSchema.safeParse(body);
@@ -106,7 +114,16 @@ export async function DELETE(request: NextRequest) {
     }
 
     const { factId } = validation.data;
-    const success = await deleteFact(factId);
+
+    // Another user's fact is reported as missing
+    if (await getFactOwner(factId) !== user.id) {
+      return NextResponse.json(
+        { error: 'Fact not found' },
+        { status: 404 }
+      );
+    }
+
+    const success = await deleteFact(factId, { actor: 'user', reason: 'Deleted in memory sidebar' });
     
     if (!success) {
       return NextResponse.json(
@@ -117,7 +134,7 @@ export async function DELETE(request: NextRequest) {
 
     return NextResponse.json({
       success: true,
-      message: 'Fact deleted successfully',
+      message: 'Fact moved to trash',
     });
 
   } catch (error) {
@@ -0,0 +1,132 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { listDeletedFacts, restoreFact, purgeFacts, getFactOwner } from '@/lib/mcp';
+import { getSessionUser, unauthorizedResponse } from '@/lib/auth';
+import { z } from 'zod';
+
+const RestoreFactSchema = z.object({
+  factId: z.string().min(1),
+});
+
+const PurgeFactsSchema = z.object({
+  factIds: z.array(z.string().min(1)).optional(),
+});
+
+// GET /api/facts/trash - List deleted facts for the signed-in user
+export async function GET() {
+  try {
+    const user = await getSessionUser();
+    if (!user) {
+      return unauthorizedResponse();
+    }
+
+    const trash = await listDeletedFacts(user.id);
+
+    return NextResponse.json({
+      success: true,
+      facts: trash.facts || [],
+      totalCount: trash.totalCount,
+    });
+
+  } catch (error) {
+    console.error('Get trash API error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/facts/trash - Restore a deleted fact
+export async function POST(request: NextRequest) {
+  try {
+    const user = await getSessionUser();
+    if (!user) {
+      return unauthorizedResponse();
+    }
+
+    const body = await request.json();
+
+    const validation = RestoreFactSchema.safeParse(body);
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: 'Invalid request data', details: validation.error.issues },
+        { status: 400 }
+      );
+    }
+
+    const { factId } = validation.data;
+
+    // Another user's fact is reported as missing
+    if (await getFactOwner(factId) !== user.id) {
+      return NextResponse.json(
+        { error: 'Fact not found' },
+        { status: 404 }
+      );
+    }
+
+    const restored = await restoreFact(factId, { actor: 'user', reason: 'Restored in memory sidebar' });
+
+    if (!restored) {
+      return NextResponse.json(
+        { error: 'Failed to restore fact' },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      fact: restored.fact,
+      superseded: restored.superseded,
+      message: 'Fact restored successfully',
+    });
+
+  } catch (error) {
+    console.error('Restore fact API error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE /api/facts/trash - Permanently delete facts from the trash
+export async function DELETE(request: NextRequest) {
+  try {
+    const user = await getSessionUser();
+    if (!user) {
+      return unauthorizedResponse();
+    }
+
+    const body = await request.json();
+
+    const validation = PurgeFactsSchema.safeParse(body);
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: 'Invalid request data', details: validation.error.issues },
+        { status: 400 }
+      );
+    }
+
+    const { factIds } = validation.data;
+    const success = await purgeFacts(user.id, factIds, { actor: 'user', reason: 'Purged from memory sidebar trash' });
+
+    if (!success) {
+      return NextResponse.json(
+        { error: 'Failed to purge facts' },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      message: 'Facts purged successfully',
+    });
+
+  } catch (error) {
+    console.error('Purge facts API error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,65 +1,79 @@
 'use client';
 
 import { useState, useEffect } from 'react';
+import { useRouter } from 'next/navigation';
 import { ChatWindow } from '@/components/ChatWindow';
 import { ChatInput } from '@/components/ChatInput';
 import { FactsSidebar } from '@/components/FactsSidebar';
-import { Message } from '@/types/message';
+import { SessionManager } from '@/components/SessionManager';
+import { Message, ToolEvent } from '@/types/message';
 import { Fact } from '@/types/fact';
+import { Conversation } from '@/types/conversation';
+import { User } from '@/types/user';
 import { nanoid } from 'nanoid';
 import { motion, AnimatePresence } from 'framer-motion';
-import { Menu, X, Brain, RotateCcw } from 'lucide-react';
+import { Menu, X, Brain, LogOut } from 'lucide-react';
 
-// Constants for localStorage keys
-const USER_ID_KEY = 'memory-mind-user-id';
-const SESSION_NAME_KEY = 'memory-mind-session-name';
+// Shown while the model reads or changes memory mid-reply
+const describeToolEvent = (event: ToolEvent): string => {
+  switch (event.name) {
+    case 'create-fact':
+      return event.args.object ? `Remembering "${event.args.object}"` : 'Remembering';
+    case 'update-fact':
+      return 'Updating a memory';
+    case 'delete-fact':
+      return 'Forgetting a memory';
+    case 'query-graph':
+      return 'Connecting memories';
+    default:
+      return 'Checking memories';
+  }
+};
 
 export default function ChatPage() {
+  const router = useRouter();
   const [messages, setMessages] = useState<Message[]>([]);
   const [isLoading, setIsLoading] = useState(false);
   const [streamingMessage, setStreamingMessage] = useState('');
+  const [toolActivity, setToolActivity] = useState<string | null>(null);
   const [facts, setFacts] = useState<Fact[]>([]);
   const [showFactsSidebar, setShowFactsSidebar] = useState(false);
+  const [highlightedFactId, setHighlightedFactId] = useState<string | null>(null);
+  const [conversations, setConversations] = useState<Conversation[]>([]);
+  const [currentConversationId, setCurrentConversationId] = useState<string | null>(null);
+  const [showArchived, setShowArchived] = useState(false);
+  const [showConversations, setShowConversations] = useState(false);
   const [userId, setUserId] = useState<string>('');
+  const [userEmail, setUserEmail] = useState<string>('');
   const [sessionName, setSessionName] = useState<string>('');
   const [isSessionLoaded, setIsSessionLoaded] = useState(false);
 
-  // Initialize or restore user session
+  // Restore the signed-in account; the server derives userId from the cookie
   useEffect(() => {
-    const initializeSession = () => {
-      // Try to restore existing user ID from localStorage
-      let storedUserId = '';
-      let storedSessionName = '';
-      
-      if (typeof window !== 'undefined') {
-        storedUserId = localStorage.getItem(USER_ID_KEY) || '';
-        storedSessionName = localStorage.getItem(SESSION_NAME_KEY) || '';
-      }
-
-      if (!storedUserId) {
-        // Create new user ID if none exists
-        storedUserId = nanoid();
-        storedSessionName = `Session ${new Date().toLocaleDateString()}`;
-        
-        if (typeof window !== 'undefined') {
-          localStorage.setItem(USER_ID_KEY, storedUserId);
-          localStorage.setItem(SESSION_NAME_KEY, storedSessionName);
+    const initializeSession = async () => {
+      try {
+        const response = await fetch('/api/auth/session');
+        if (!response.ok) {
+          router.replace('/login?next=/chat');
+          return;
         }
-        
-        console.log(`🆕 Created new session: ${storedUserId}`);
-      } else {
-        console.log(`🔄 Restored existing session: ${storedUserId}`);
-      }
 
-      setUserId(storedUserId);
-      setSessionName(storedSessionName);
-      setIsSessionLoaded(true);
+        const { user }: { user: User } = await response.json();
+        setUserId(user.id);
+        setUserEmail(user.email);
+        setSessionName(user.name || user.email);
+        setIsSessionLoaded(true);
+        console.log(`🔄 Restored session for user: ${user.id}`);
+      } catch (error) {
+        console.error('Error loading session:', error);
+        router.replace('/login?next=/chat');
+      }
     };
 
     initializeSession();
-  }, []);
+  }, [router]);
 
-  // Load existing messages and facts when session is ready
+  // Load conversations, the most recent one's messages and facts when session is ready
   useEffect(() => {
     if (!isSessionLoaded || !userId) return;
 
@@ -67,22 +81,10 @@ export default function ChatPage() {
       try {
         console.log(`📥 Loading data for user: ${userId}`);
         
-        // Load messages
-        const messagesResponse = await fetch(`/api/chat?userId=${userId}`);
-        if (messagesResponse.ok) {
-          const messagesData = await messagesResponse.json();
-          const formattedMessages = messagesData.messages.map((msg: {
-            id: string;
-            userId: string;
-            content: string;
-            role: 'user' | 'assistant';
-            timestamp: string;
-          }) => ({
-            ...msg,
-            timestamp: new Date(msg.timestamp),
-          }));
-          setMessages(formattedMessages);
-          console.log(`📨 Loaded ${formattedMessages.length} messages`);
+        // Open the most recent conversation
+        const loadedConversations = await loadConversations(false);
+        if (loadedConversations.length > 0) {
+          await loadMessages(loadedConversations[0].id);
         }
 
         // Load facts
@@ -95,11 +97,59 @@ export default function ChatPage() {
     loadData();
   }, [isSessionLoaded, userId]);
 
+  const loadConversations = async (includeArchived: boolean = showArchived): Promise<Conversation[]> => {
+    try {
+      const response = await fetch(`/api/conversations${includeArchived ? '?archived=true' : ''}`);
+      if (!response.ok) {
+        console.error('Failed to load conversations:', await response.text());
+        return [];
+      }
+
+      const data = await response.json();
+      const loadedConversations: Conversation[] = (data.conversations || []).map((conversation: Conversation & {
+        createdAt: string;
+        updatedAt: string;
+      }) => ({
+        ...conversation,
+        createdAt: new Date(conversation.createdAt),
+        updatedAt: new Date(conversation.updatedAt),
+      }));
+      setConversations(loadedConversations);
+      return loadedConversations;
+    } catch (error) {
+      console.error('Error loading conversations:', error);
+      return [];
+    }
+  };
+
+  const loadMessages = async (conversationId: string) => {
+    setCurrentConversationId(conversationId);
+
+    try {
+      const messagesResponse = await fetch(`/api/chat?conversationId=${encodeURIComponent(conversationId)}`);
+      if (messagesResponse.ok) {
+        const messagesData = await messagesResponse.json();
+        const formattedMessages = messagesData.messages.map((msg: Message & {
+          timestamp: string;
+        }) => ({
+          ...msg,
+          timestamp: new Date(msg.timestamp),
+        }));
+        setMessages(formattedMessages);
+        console.log(`📨 Loaded ${formattedMessages.length} messages`);
+      } else {
+        setMessages([]);
+      }
+    } catch (error) {
+      console.error('Error loading messages:', error);
+    }
+  };
+
   const loadFacts = async () => {
     if (!userId) return;
     
     try {
-      const response = await fetch(`/api/facts?userId=${userId}`);
+      const response = await fetch('/api/facts');
       if (response.ok) {
         const data = await response.json();
         setFacts(data.facts || []);
@@ -119,6 +169,7 @@ export default function ChatPage() {
     const userMessage: Message = {
       id: nanoid(),
       userId,
+      conversationId: currentConversationId || '',
       content,
       role: 'user',
       timestamp: new Date(),
@@ -135,9 +186,9 @@ export default function ChatPage() {
           'Content-Type': 'application/json',
         },
         body: JSON.stringify({
-          userId,
           content,
           role: 'user',
+          ...(currentConversationId && { conversationId: currentConversationId }),
         }),
       });
 
@@ -145,6 +196,12 @@ export default function ChatPage() {
         throw new Error('Failed to send message');
       }
 
+      // The first message of a new conversation creates it on the server
+      const conversationId = response.headers.get('X-Conversation-Id') || currentConversationId || '';
+      if (conversationId !== currentConversationId) {
+        setCurrentConversationId(conversationId);
+      }
+
       const reader = response.body?.getReader();
       if (!reader) {
         throw new Error('No reader available');
@@ -152,6 +209,8 @@ export default function ChatPage() {
 
       setIsLoading(false);
       let fullAssistantMessage = '';
+      let memoryFactIds: string[] = [];
+      let eventName = '';
 
       while (true) {
         const { done, value } = await reader.read();
@@ -162,23 +221,44 @@ export default function ChatPage() {
         const lines = text.split('\n');
 
         for (const line of lines) {
-          if (line.startsWith('data: ')) {
+          if (line.startsWith('event: ')) {
+            eventName = line.slice(7).trim();
+          } else if (line === '') {
+            eventName = '';
+          } else if (line.startsWith('data: ')) {
             try {
               const data = JSON.parse(line.slice(6));
-              if (data.done) {
+              if (eventName === 'memory') {
+                // Facts the server injected into the prompt for this reply
+                memoryFactIds = data.factIds || [];
+              } else if (eventName === 'tool') {
+                const toolEvent: ToolEvent = data;
+                if (toolEvent.status === 'started') {
+                  setToolActivity(describeToolEvent(toolEvent));
+                } else {
+                  setToolActivity(null);
+                  if (toolEvent.status === 'done' && !['get-facts', 'query-graph'].includes(toolEvent.name)) {
+                    loadFacts();
+                  }
+                }
+              } else if (data.done) {
                 // Stream is complete
                 const assistantMessage: Message = {
                   id: nanoid(),
                   userId,
+                  conversationId,
                   content: fullAssistantMessage,
                   role: 'assistant',
                   timestamp: new Date(),
+                  memoryFactIds,
                 };
                 setMessages(prev => [...prev, assistantMessage]);
                 setStreamingMessage('');
+                setToolActivity(null);
                 
-                // Reload facts after each exchange
+                // Reload facts after each exchange; facts are shared by all conversations
                 setTimeout(() => loadFacts(), 1000);
+                loadConversations();
                 return;
               } else {
                 // Accumulate streaming content
@@ -195,11 +275,13 @@ export default function ChatPage() {
       console.error('Error sending message:', error);
       setIsLoading(false);
       setStreamingMessage('');
+      setToolActivity(null);
       
       // Add error message
       const errorMessage: Message = {
         id: nanoid(),
         userId,
+        conversationId: currentConversationId || '',
         content: 'Sorry, I encountered an error. Please try again.',
         role: 'assistant',
         timestamp: new Date(),
@@ -212,24 +294,112 @@ export default function ChatPage() {
     await loadFacts();
   };
 
-  const handleNewSession = () => {
-    if (typeof window !== 'undefined') {
-      // Clear current session
-      localStorage.removeItem(USER_ID_KEY);
-      localStorage.removeItem(SESSION_NAME_KEY);
-      
-      // Reload the page to start fresh
-      window.location.reload();
+  // Opens the memory bank on a fact picked from a reply's "memories used"
+  const handleShowFact = (factId: string) => {
+    setHighlightedFactId(factId);
+    setShowFactsSidebar(true);
+  };
+
+  const closeFactsSidebar = () => {
+    setShowFactsSidebar(false);
+    setHighlightedFactId(null);
+  };
+
+  const handleSelectConversation = async (conversationId: string) => {
+    setShowConversations(false);
+    if (conversationId !== currentConversationId) {
+      await loadMessages(conversationId);
+    }
+  };
+
+  // The conversation itself is created when its first message is sent
+  const handleNewConversation = () => {
+    setCurrentConversationId(null);
+    setMessages([]);
+    setShowConversations(false);
+  };
+
+  const handleRenameConversation = async (conversationId: string, title: string) => {
+    await updateConversation(conversationId, { title });
+  };
+
+  const handleArchiveConversation = async (conversationId: string, archived: boolean) => {
+    await updateConversation(conversationId, { archived });
+    if (archived && conversationId === currentConversationId && !showArchived) {
+      handleNewConversation();
+    }
+  };
+
+  const updateConversation = async (conversationId: string, updates: { title?: string; archived?: boolean }) => {
+    try {
+      const response = await fetch(`/api/conversations/${encodeURIComponent(conversationId)}`, {
+        method: 'PATCH',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(updates),
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        alert(`Failed to update conversation: ${errorData.error || 'Unknown error'}`);
+      }
+    } catch (error) {
+      console.error('Error updating conversation:', error);
     }
+    await loadConversations();
   };
 
-  const handleUpdateSessionName = (newName: string) => {
-    setSessionName(newName);
-    if (typeof window !== 'undefined') {
-      localStorage.setItem(SESSION_NAME_KEY, newName);
+  const handleDeleteConversation = async (conversationId: string) => {
+    try {
+      const response = await fetch(`/api/conversations/${encodeURIComponent(conversationId)}`, {
+        method: 'DELETE',
+      });
+
+      if (response.ok) {
+        if (conversationId === currentConversationId) {
+          handleNewConversation();
+        }
+      } else {
+        const errorData = await response.json();
+        alert(`Failed to delete conversation: ${errorData.error || 'Unknown error'}`);
+      }
+    } catch (error) {
+      console.error('Error deleting conversation:', error);
     }
+    await loadConversations();
   };
 
+  const handleToggleArchived = async () => {
+    setShowArchived(!showArchived);
+    await loadConversations(!showArchived);
+  };
+
+  const handleSignOut = async () => {
+    try {
+      await fetch('/api/auth/session', { method: 'DELETE' });
+    } catch (error) {
+      console.error('Error signing out:', error);
+    }
+    router.replace('/login');
+  };
+
+  const conversationList = (
+    <SessionManager
+      conversations={conversations}
+      currentConversationId={currentConversationId}
+      showArchived={showArchived}
+      onSelectConversation={handleSelectConversation}
+      onCreateConversation={handleNewConversation}
+      onRenameConversation={handleRenameConversation}
+      onArchiveConversation={handleArchiveConversation}
+      onDeleteConversation={handleDeleteConversation}
+      onToggleArchived={handleToggleArchived}
+    />
+  );
+
+  const currentConversation = conversations.find(c => c.id === currentConversationId);
+
   // Don't render until session is loaded
   if (!isSessionLoaded) {
     return (
@@ -244,6 +414,11 @@ export default function ChatPage() {
 
   return (
     <div className="flex h-screen bg-zinc-950 text-zinc-50 overflow-hidden">
+      {/* Conversations Sidebar (desktop) */}
+      <div className="hidden md:flex md:flex-col w-64 flex-shrink-0 bg-zinc-900/50 border-r border-zinc-800">
+        {conversationList}
+      </div>
+
       {/* Main Chat Area */}
       <div className="flex-1 flex flex-col min-w-0 w-full">
         {/* Header */}
@@ -256,15 +431,16 @@ export default function ChatPage() {
           <div className="flex items-center justify-between w-full">
             <div className="flex items-center space-x-2 sm:space-x-4 min-w-0 flex-1 overflow-hidden">
               <button
-                onClick={() => setShowFactsSidebar(!showFactsSidebar)}
-                className="p-2 hover:bg-zinc-800 rounded-xl transition-colors duration-200 flex-shrink-0"
+                onClick={() => setShowConversations(!showConversations)}
+                className="md:hidden p-2 hover:bg-zinc-800 rounded-xl transition-colors duration-200 flex-shrink-0"
+                title="Conversations"
               >
                 <Menu size={18} className="sm:w-5 sm:h-5" />
               </button>
               <div className="min-w-0 flex-1 overflow-hidden">
                 <h1 className="text-sm sm:text-lg font-semibold text-zinc-100 truncate">AI Chat with Memory</h1>
                 <p className="text-xs sm:text-sm text-zinc-400 truncate">
-                  {sessionName} • Memory-enhanced AI assistant
+                  {currentConversation?.title || 'New conversation'} • {sessionName}
                 </p>
               </div>
             </div>
@@ -291,14 +467,14 @@ export default function ChatPage() {
                 )}
               </button>
               <button
-                onClick={handleNewSession}
+                onClick={handleSignOut}
                 className="p-1.5 sm:p-2 text-zinc-400 hover:text-zinc-200 hover:bg-zinc-800 rounded-xl transition-colors flex-shrink-0"
-                title="Start new session"
+                title="Sign out"
               >
-                <RotateCcw size={14} className="sm:w-4 sm:h-4" />
+                <LogOut size={14} className="sm:w-4 sm:h-4" />
               </button>
               <div className="hidden md:block text-xs text-zinc-500 bg-zinc-800/50 px-2 py-1 rounded text-[10px] whitespace-nowrap">
-                ID: {userId.slice(0, 6)}...
+                {userEmail}
               </div>
             </div>
           </div>
@@ -316,7 +492,7 @@ export default function ChatPage() {
               <div className="text-xs sm:text-sm text-zinc-300 min-w-0">
                 {facts.length > 0 
                   ? `Welcome back! I remember ${facts.length} things about you.`
-                  : 'This is a persistent session - I\'ll remember our conversation across tabs and sessions.'
+                  : 'Your memory belongs to your account - I\'ll remember our conversation across devices and sessions.'
                 }
               </div>
               <button
@@ -335,6 +511,9 @@ export default function ChatPage() {
             messages={messages}
             isLoading={isLoading}
             streamingMessage={streamingMessage}
+            toolActivity={toolActivity}
+            facts={facts}
+            onShowFact={handleShowFact}
           />
         </div>
 
@@ -342,11 +521,35 @@ export default function ChatPage() {
         <div className="flex-shrink-0">
           <ChatInput 
             onSendMessage={handleSendMessage}
-            disabled={isLoading || streamingMessage.length > 0}
+            disabled={isLoading || streamingMessage.length > 0 || toolActivity !== null}
           />
         </div>
       </div>
 
+      {/* Conversations Sidebar (mobile) */}
+      <AnimatePresence>
+        {showConversations && (
+          <>
+            <motion.div
+              initial={{ opacity: 0 }}
+              animate={{ opacity: 1 }}
+              exit={{ opacity: 0 }}
+              onClick={() => setShowConversations(false)}
+              className="md:hidden fixed inset-0 bg-zinc-950/70 z-40 backdrop-blur-sm"
+            />
+            <motion.div
+              initial={{ x: '-100%', opacity: 0 }}
+              animate={{ x: 0, opacity: 1 }}
+              exit={{ x: '-100%', opacity: 0 }}
+              transition={{ type: 'spring', stiffness: 300, damping: 30 }}
+              className="md:hidden fixed inset-y-0 left-0 w-72 max-w-[85%] bg-zinc-900/95 backdrop-blur border-r border-zinc-800 z-50 rounded-r-xl overflow-hidden"
+            >
+              {conversationList}
+            </motion.div>
+          </>
+        )}
+      </AnimatePresence>
+
       {/* Facts Sidebar */}
       <AnimatePresence>
         {showFactsSidebar && (
@@ -355,7 +558,7 @@ export default function ChatPage() {
               initial={{ opacity: 0 }}
               animate={{ opacity: 1 }}
               exit={{ opacity: 0 }}
-              onClick={() => setShowFactsSidebar(false)}
+              onClick={closeFactsSidebar}
               className="fixed inset-0 bg-zinc-950/70 z-40 backdrop-blur-sm"
             />
             <motion.div
@@ -369,7 +572,7 @@ export default function ChatPage() {
                 <div className="flex items-center justify-between">
                   <h2 className="text-base sm:text-lg font-semibold">Memory Bank</h2>
                   <button
-                    onClick={() => setShowFactsSidebar(false)}
+                    onClick={closeFactsSidebar}
                     className="p-1.5 hover:bg-zinc-800 rounded-lg transition-colors"
                   >
                     <X size={16} className="sm:w-[18px] sm:h-[18px]" />
@@ -379,13 +582,13 @@ export default function ChatPage() {
                   Persistent memory for {sessionName}
                 </p>
                 <div className="text-xs text-zinc-500 mt-2 bg-zinc-800/50 px-2 py-1 rounded text-[10px] sm:text-xs">
-                  Session ID: {userId}
+                  Signed in as {userEmail}
                 </div>
               </div>
               <FactsSidebar 
                 facts={facts}
-                userId={userId}
                 onFactUpdate={handleFactUpdate}
+                highlightFactId={highlightedFactId}
               />
             </motion.div>
           </>
@@ -0,0 +1,151 @@
+'use client';
+
+import { Suspense, useState } from 'react';
+import { useRouter, useSearchParams } from 'next/navigation';
+import { motion } from 'framer-motion';
+import { MessageCircle } from 'lucide-react';
+
+const LoginForm = () => {
+  const router = useRouter();
+  const searchParams = useSearchParams();
+  const [mode, setMode] = useState<'signin' | 'signup'>('signin');
+  const [name, setName] = useState('');
+  const [email, setEmail] = useState('');
+  const [password, setPassword] = useState('');
+  const [error, setError] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  // Only follow same-origin paths after signing in. Browsers read "/\evil.com"
+  // as "//evil.com", so the path is resolved the way the browser would.
+  const redirectTarget = () => {
+    const next = searchParams.get('next');
+    if (!next) return '/chat';
+    try {
+      const url = new URL(next, window.location.origin);
+      return url.origin === window.location.origin ? `${url.pathname}${url.search}${url.hash}` : '/chat';
+    } catch {
+      return '/chat';
+    }
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+    setIsSubmitting(true);
+
+    try {
+      const response = await fetch(mode === 'signin' ? '/api/auth/login' : '/api/auth/signup', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          email,
+          password,
+          ...(mode === 'signup' && name.trim() && { name: name.trim() }),
+        }),
+      });
+
+      if (response.ok) {
+        router.replace(redirectTarget());
+        return;
+      }
+
+      const data = await response.json();
+      setError(response.status === 400 && mode === 'signup'
+        ? 'Enter a valid email and a password of at least 8 characters'
+        : data.error || 'Something went wrong');
+    } catch (error) {
+      console.error('Error signing in:', error);
+      setError('Something went wrong. Please try again.');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const inputClassName = 'w-full bg-zinc-800 border border-zinc-700 rounded-xl px-4 py-3 text-sm text-zinc-100 placeholder-zinc-500 focus:outline-none focus:border-zinc-500';
+
+  return (
+    <motion.div
+      className="bg-zinc-900/50 rounded-2xl p-6 sm:p-8 border border-zinc-800 w-full max-w-md backdrop-blur-sm"
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      transition={{ duration: 0.4 }}
+    >
+      <div className="w-14 h-14 bg-zinc-800 rounded-2xl flex items-center justify-center mx-auto mb-6 border border-zinc-700">
+        <MessageCircle size={28} className="text-zinc-400" />
+      </div>
+      <h1 className="text-xl sm:text-2xl font-semibold text-zinc-100 text-center mb-2">
+        {mode === 'signin' ? 'Sign in' : 'Create an account'}
+      </h1>
+      <p className="text-sm text-zinc-400 text-center mb-6">
+        Your memory follows your account across devices.
+      </p>
+
+      <form onSubmit={handleSubmit} className="space-y-3">
+        {mode === 'signup' && (
+          <input
+            type="text"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            placeholder="Name (optional)"
+            autoComplete="name"
+            className={inputClassName}
+          />
+        )}
+        <input
+          type="email"
+          value={email}
+          onChange={(e) => setEmail(e.target.value)}
+          placeholder="Email"
+          autoComplete="email"
+          required
+          className={inputClassName}
+        />
+        <input
+          type="password"
+          value={password}
+          onChange={(e) => setPassword(e.target.value)}
+          placeholder="Password"
+          autoComplete={mode === 'signin' ? 'current-password' : 'new-password'}
+          minLength={mode === 'signup' ? 8 : undefined}
+          required
+          className={inputClassName}
+        />
+
+        {error && (
+          <p className="text-sm text-red-400">{error}</p>
+        )}
+
+        <button
+          type="submit"
+          disabled={isSubmitting}
+          className="w-full bg-zinc-800 hover:bg-zinc-700 text-zinc-100 font-medium px-6 py-3 rounded-xl transition-all duration-200 border border-zinc-700 hover:border-zinc-600 disabled:opacity-50"
+        >
+          {isSubmitting ? 'Please wait...' : mode === 'signin' ? 'Sign in' : 'Create account'}
+        </button>
+      </form>
+
+      <button
+        onClick={() => {
+          setMode(mode === 'signin' ? 'signup' : 'signin');
+          setError('');
+        }}
+        className="w-full text-xs text-zinc-400 hover:text-zinc-300 underline mt-4"
+      >
+        {mode === 'signin' ? 'No account yet? Create one' : 'Already have an account? Sign in'}
+      </button>
+    </motion.div>
+  );
+};
+
+export default function LoginPage() {
+  return (
+    <div className="min-h-screen bg-zinc-950 text-zinc-50 flex items-center justify-center p-4">
+      {/* useSearchParams needs a suspense boundary when the page is prerendered */}
+      <Suspense>
+        <LoginForm />
+      </Suspense>
+    </div>
+  );
+}
@@ -3,30 +3,25 @@
 import { useEffect, useState } from 'react';
 import { useRouter } from 'next/navigation';
 import { motion } from 'framer-motion';
-import { MessageCircle, Brain, Zap, Clock, User } from 'lucide-react';
-
-// Constants for localStorage keys
-const USER_ID_KEY = 'ai-chat-with-memory-user-id';
-const SESSION_NAME_KEY = 'ai-chat-with-memory-session-name';
+import { MessageCircle, Brain, Zap, Clock, User as UserIcon } from 'lucide-react';
+import { User } from '@/types/user';
 
 export default function HomePage() {
   const router = useRouter();
-  const [existingSession, setExistingSession] = useState<{
-    userId: string;
-    sessionName: string;
-  } | null>(null);
+  const [existingSession, setExistingSession] = useState<User | null>(null);
   const [isLoading, setIsLoading] = useState(true);
 
   useEffect(() => {
-    // Check for existing session
-    const checkSession = () => {
-      if (typeof window !== 'undefined') {
-        const userId = localStorage.getItem(USER_ID_KEY);
-        const sessionName = localStorage.getItem(SESSION_NAME_KEY);
-        
-        if (userId && sessionName) {
-          setExistingSession({ userId, sessionName });
+    // Check for a signed-in account
+    const checkSession = async () => {
+      try {
+        const response = await fetch('/api/auth/session');
+        if (response.ok) {
+          const { user } = await response.json();
+          setExistingSession(user);
         }
+      } catch (error) {
+        console.error('Error checking session:', error);
       }
       setIsLoading(false);
     };
@@ -38,7 +33,7 @@ export default function HomePage() {
     // Auto-redirect if no existing session after 3 seconds
     if (!isLoading && !existingSession) {
       const timer = setTimeout(() => {
-        router.push('/chat');
+        router.push('/login');
       }, 3000);
 
       return () => clearTimeout(timer);
@@ -49,16 +44,17 @@ export default function HomePage() {
     router.push('/chat');
   };
 
-  const handleNewSession = () => {
-    if (typeof window !== 'undefined') {
-      localStorage.removeItem(USER_ID_KEY);
-      localStorage.removeItem(SESSION_NAME_KEY);
+  const handleSwitchAccount = async () => {
+    try {
+      await fetch('/api/auth/session', { method: 'DELETE' });
+    } catch (error) {
+      console.error('Error signing out:', error);
     }
-    router.push('/chat');
+    router.push('/login');
   };
 
   const handleStartChat = () => {
-    router.push('/chat');
+    router.push('/login');
   };
 
   if (isLoading) {
@@ -118,15 +114,15 @@ export default function HomePage() {
               <div className="bg-zinc-900/50 rounded-2xl p-4 sm:p-6 border border-zinc-800 mb-6 max-w-md mx-auto backdrop-blur-sm">
                 <div className="flex items-center justify-center mb-4">
                   <div className="w-10 h-10 bg-zinc-800 rounded-xl flex items-center justify-center mr-3">
-                    <User className="w-5 h-5 text-zinc-400" />
+                    <UserIcon className="w-5 h-5 text-zinc-400" />
                   </div>
-                  <h3 className="text-lg font-semibold text-zinc-100">Existing Session Found</h3>
+                  <h3 className="text-lg font-semibold text-zinc-100">Welcome Back</h3>
                 </div>
                 
                 <div className="text-center mb-6">
-                  <p className="font-medium text-zinc-200 mb-1">{existingSession.sessionName}</p>
+                  <p className="font-medium text-zinc-200 mb-1">{existingSession.name || existingSession.email}</p>
                   <p className="text-sm text-zinc-500">
-                    ID: {existingSession.userId.slice(0, 8)}...
+                    {existingSession.email}
                   </p>
                 </div>
                 
@@ -138,10 +134,10 @@ export default function HomePage() {
                     Continue Session
                   </button>
                   <button
-                    onClick={handleNewSession}
+                    onClick={handleSwitchAccount}
                     className="w-full bg-zinc-900 hover:bg-zinc-800 text-zinc-300 font-medium px-6 py-3 sm:py-4 rounded-xl transition-all duration-200 border border-zinc-800 hover:border-zinc-700 text-sm sm:text-base"
                   >
-                    Start New Session
+                    Use Another Account
                   </button>
                 </div>
               </div>
@@ -159,7 +155,7 @@ export default function HomePage() {
                 whileHover={{ scale: 1.02 }}
                 whileTap={{ scale: 0.98 }}
               >
-                Start Your First Chat
+                Sign In to Start Chatting
               </motion.button>
             </motion.div>
           )}
@@ -175,7 +171,7 @@ export default function HomePage() {
                 <Brain className="w-6 h-6 text-zinc-400" />
               </div>
               <h3 className="text-base sm:text-lg font-semibold mb-3 text-zinc-100">Persistent Memory</h3>
-              <p className="text-zinc-400 text-sm sm:text-base leading-relaxed">I remember facts about you across sessions and browser tabs</p>
+              <p className="text-zinc-400 text-sm sm:text-base leading-relaxed">I remember facts about you across sessions and devices</p>
             </div>
             <div className="bg-zinc-900/50 rounded-2xl p-4 sm:p-6 border border-zinc-800 backdrop-blur-sm">
               <div className="w-12 h-12 bg-zinc-800 rounded-xl flex items-center justify-center mb-4">
@@ -200,7 +196,7 @@ export default function HomePage() {
               animate={{ opacity: 1 }}
               transition={{ delay: 1.2 }}
             >
-              Redirecting to chat in 3 seconds...
+              Redirecting to sign in in 3 seconds...
             </motion.p>
           )}
         </motion.div>
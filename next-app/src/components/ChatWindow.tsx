@@ -1,19 +1,27 @@
 import { useEffect, useRef } from 'react';
 import { Message as MessageComponent } from './Message';
 import { Message as MessageType } from '@/types/message';
+import { Fact } from '@/types/fact';
 import { motion, AnimatePresence } from 'framer-motion';
-import { Bot } from 'lucide-react';
+import { Bot, Brain } from 'lucide-react';
 
 interface ChatWindowProps {
   messages: MessageType[];
   isLoading?: boolean;
   streamingMessage?: string;
+  // What the model is doing with memory right now, e.g. "Forgetting a memory"
+  toolActivity?: string | null;
+  facts?: Fact[];
+  onShowFact?: (factId: string) => void;
 }
 
 export const ChatWindow = ({ 
   messages, 
   isLoading = false,
-  streamingMessage 
+  streamingMessage,
+  toolActivity,
+  facts = [],
+  onShowFact
 }: ChatWindowProps) => {
   const messagesEndRef = useRef<HTMLDivElement>(null);
 
@@ -23,7 +31,7 @@ export const ChatWindow = ({
 
   useEffect(() => {
     scrollToBottom();
-  }, [messages, streamingMessage]);
+  }, [messages, streamingMessage, toolActivity]);
 
   return (
     <div className="flex-1 overflow-y-auto overflow-x-hidden">
@@ -73,7 +81,7 @@ export const ChatWindow = ({
               transition={{ delay: index * 0.1 }}
               className="w-full"
             >
-              <MessageComponent message={message} />
+              <MessageComponent message={message} facts={facts} onShowFact={onShowFact} />
             </motion.div>
           ))}
         </AnimatePresence>
@@ -108,6 +116,26 @@ export const ChatWindow = ({
           )}
         </AnimatePresence>
         
+        {/* Memory Tool Activity */}
+        <AnimatePresence>
+          {toolActivity && (
+            <motion.div
+              initial={{ opacity: 0, y: 10 }}
+              animate={{ opacity: 1, y: 0 }}
+              exit={{ opacity: 0 }}
+              className="flex items-center space-x-2 py-2 pl-10 sm:pl-12 text-xs sm:text-sm text-zinc-400"
+            >
+              <motion.div
+                animate={{ opacity: [0.5, 1, 0.5] }}
+                transition={{ repeat: Infinity, duration: 1.5 }}
+              >
+                <Brain size={14} />
+              </motion.div>
+              <span>{toolActivity}...</span>
+            </motion.div>
+          )}
+        </AnimatePresence>
+
         {/* Loading Indicator */}
         <AnimatePresence>
           {isLoading && !streamingMessage && (
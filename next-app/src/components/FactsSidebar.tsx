@@ -1,20 +1,76 @@
 'use client';
 
-import { useState } from 'react';
+import { useState, useEffect, useCallback, useRef } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
-import { Fact } from '@/types/fact';
-import { Edit2, Trash2, Save, X, Plus } from 'lucide-react';
+import { Fact, LOW_CONFIDENCE_THRESHOLD } from '@/types/fact';
+import { Edit2, Trash2, Save, X, Plus, RotateCcw } from 'lucide-react';
 
 interface FactsSidebarProps {
   facts: Fact[];
-  userId: string;
   onFactUpdate: () => void;
+  // Fact to scroll to and outline, e.g. one picked from a reply's memories
+  highlightFactId?: string | null;
 }
 
-export const FactsSidebar = ({ facts, onFactUpdate }: FactsSidebarProps) => {
+// How long the undo toast stays up after a delete
+const UNDO_TIMEOUT_MS = 6000;
+
+export const FactsSidebar = ({ facts, onFactUpdate, highlightFactId }: FactsSidebarProps) => {
   const [editingFactId, setEditingFactId] = useState<string | null>(null);
   const [editingFact, setEditingFact] = useState<Partial<Fact>>({});
   const [isDeleting, setIsDeleting] = useState<string | null>(null);
+  const [view, setView] = useState<'memories' | 'trash'>('memories');
+  const [trashFacts, setTrashFacts] = useState<Fact[]>([]);
+  const [isRestoring, setIsRestoring] = useState<string | null>(null);
+  const [undoFact, setUndoFact] = useState<Fact | null>(null);
+  const undoTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  const loadTrash = useCallback(async () => {
+    try {
+      const response = await fetch('/api/facts/trash');
+      if (response.ok) {
+        const data = await response.json();
+        setTrashFacts(data.facts || []);
+      } else {
+        console.error('Failed to load trash:', await response.text());
+      }
+    } catch (error) {
+      console.error('Error loading trash:', error);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (view === 'trash') {
+      loadTrash();
+    }
+  }, [view, loadTrash]);
+
+  useEffect(() => {
+    return () => {
+      if (undoTimerRef.current) clearTimeout(undoTimerRef.current);
+    };
+  }, []);
+
+  useEffect(() => {
+    if (!highlightFactId) return;
+    setView('memories');
+    // Wait for the sidebar to slide in before scrolling
+    const timer = setTimeout(() => {
+      document.getElementById(`fact-${highlightFactId}`)?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+    }, 300);
+    return () => clearTimeout(timer);
+  }, [highlightFactId]);
+
+  const showUndo = (fact: Fact) => {
+    if (undoTimerRef.current) clearTimeout(undoTimerRef.current);
+    setUndoFact(fact);
+    undoTimerRef.current = setTimeout(() => setUndoFact(null), UNDO_TIMEOUT_MS);
+  };
+
+  const dismissUndo = () => {
+    if (undoTimerRef.current) clearTimeout(undoTimerRef.current);
+    setUndoFact(null);
+  };
 
   const handleEdit = (fact: Fact) => {
     setEditingFactId(fact.id);
@@ -52,18 +108,19 @@ export const FactsSidebar = ({ facts, onFactUpdate }: FactsSidebarProps) => {
     }
   };
 
-  const handleDelete = async (factId: string) => {
-    setIsDeleting(factId);
+  const handleDelete = async (fact: Fact) => {
+    setIsDeleting(fact.id);
     try {
       const response = await fetch('/api/facts', {
         method: 'DELETE',
         headers: {
           'Content-Type': 'application/json',
         },
-        body: JSON.stringify({ factId }),
+        body: JSON.stringify({ factId: fact.id }),
       });
 
       if (response.ok) {
+        showUndo(fact);
         onFactUpdate();
       } else {
         const errorData = await response.json();
@@ -77,6 +134,60 @@ export const FactsSidebar = ({ facts, onFactUpdate }: FactsSidebarProps) => {
     }
   };
 
+  const handleRestore = async (factId: string) => {
+    setIsRestoring(factId);
+    try {
+      const response = await fetch('/api/facts/trash', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ factId }),
+      });
+
+      if (response.ok) {
+        dismissUndo();
+        setTrashFacts(trashFacts.filter(fact => fact.id !== factId));
+        onFactUpdate();
+      } else {
+        const errorData = await response.json();
+        alert(`Failed to restore fact: ${errorData.error || 'Unknown error'}`);
+      }
+    } catch (error) {
+      console.error('Error restoring fact:', error);
+      alert('Error restoring fact');
+    } finally {
+      setIsRestoring(null);
+    }
+  };
+
+  const handlePurge = async (factIds?: string[]) => {
+    const message = factIds
+      ? 'Delete this fact forever? This cannot be undone.'
+      : 'Empty the trash? Deleted facts will be gone for good.';
+    if (!confirm(message)) return;
+
+    try {
+      const response = await fetch('/api/facts/trash', {
+        method: 'DELETE',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ ...(factIds && { factIds }) }),
+      });
+
+      if (response.ok) {
+        await loadTrash();
+      } else {
+        const errorData = await response.json();
+        alert(`Failed to purge facts: ${errorData.error || 'Unknown error'}`);
+      }
+    } catch (error) {
+      console.error('Error purging facts:', error);
+      alert('Error purging facts');
+    }
+  };
+
   const handleCancel = () => {
     setEditingFactId(null);
     setEditingFact({});
@@ -86,127 +197,281 @@ export const FactsSidebar = ({ facts, onFactUpdate }: FactsSidebarProps) => {
     return predicate.replace(/_/g, ' ').replace(/\b\w/g, l => l.toUpperCase());
   };
 
+  const tabs = (
+    <div className="flex gap-1 p-1 mx-3 sm:mx-4 mt-3 bg-zinc-800/50 rounded-lg text-xs font-medium">
+      {(['memories', 'trash'] as const).map(tab => (
+        <button
+          key={tab}
+          onClick={() => setView(tab)}
+          className={`flex-1 px-3 py-1.5 rounded-md transition-colors ${
+            view === tab ? 'bg-zinc-700 text-zinc-100' : 'text-zinc-400 hover:text-zinc-200'
+          }`}
+        >
+          {tab === 'memories' ? `Memories (${facts.length})` : 'Trash'}
+        </button>
+      ))}
+    </div>
+  );
+
+  const undoToast = (
+    <AnimatePresence>
+      {undoFact && (
+        <motion.div
+          initial={{ opacity: 0, y: 20 }}
+          animate={{ opacity: 1, y: 0 }}
+          exit={{ opacity: 0, y: 20 }}
+          className="fixed bottom-4 right-4 z-[60] flex items-center gap-3 bg-zinc-800 border border-zinc-700 rounded-xl px-4 py-3 text-sm text-zinc-200 shadow-lg max-w-xs"
+        >
+          <span className="truncate">
+            Forgot {formatPredicate(undoFact.predicate).toLowerCase()}: {undoFact.object}
+          </span>
+          <button
+            onClick={() => handleRestore(undoFact.id)}
+            disabled={isRestoring === undoFact.id}
+            className="flex-shrink-0 font-semibold text-emerald-400 hover:text-emerald-300 transition-colors"
+          >
+            Undo
+          </button>
+          <button
+            onClick={dismissUndo}
+            className="flex-shrink-0 p-1 hover:bg-zinc-700 rounded transition-colors"
+            title="Dismiss"
+          >
+            <X size={14} className="text-zinc-400" />
+          </button>
+        </motion.div>
+      )}
+    </AnimatePresence>
+  );
+
+  if (view === 'trash') {
+    return (
+      <>
+        {tabs}
+        {trashFacts.length === 0 ? (
+          <div className="p-3 sm:p-4 text-center text-zinc-400">
+            <p className="text-sm font-medium">Trash is empty</p>
+            <p className="text-xs text-zinc-500 mt-2 leading-relaxed">
+              Deleted memories show up here until you remove them for good.
+            </p>
+          </div>
+        ) : (
+          <div className="flex-1 overflow-y-auto p-3 sm:p-4 space-y-3">
+            <div className="flex justify-end">
+              <button
+                onClick={() => handlePurge()}
+                className="text-xs text-zinc-400 hover:text-red-400 transition-colors"
+              >
+                Empty trash
+              </button>
+            </div>
+            <AnimatePresence>
+              {trashFacts.map(fact => (
+                <motion.div
+                  key={fact.id}
+                  initial={{ opacity: 0, y: 20 }}
+                  animate={{ opacity: 1, y: 0 }}
+                  exit={{ opacity: 0, x: -100 }}
+                  className="bg-zinc-800/30 rounded-xl p-3 sm:p-4 border border-zinc-700/30"
+                >
+                  <div className="flex items-start justify-between">
+                    <div className="flex-1 min-w-0 pr-2">
+                      <div className="text-sm font-semibold text-zinc-400 mb-2">
+                        {formatPredicate(fact.predicate)}
+                      </div>
+                      <div className="text-sm text-zinc-500 leading-relaxed break-words line-through">
+                        {fact.object}
+                      </div>
+                      {fact.deletedAt && (
+                        <div className="text-xs text-zinc-600 mt-3">
+                          Deleted {new Date(fact.deletedAt).toLocaleDateString()}
+                        </div>
+                      )}
+                    </div>
+                    <div className="flex space-x-1 flex-shrink-0">
+                      <button
+                        onClick={() => handleRestore(fact.id)}
+                        disabled={isRestoring === fact.id}
+                        className="p-2 hover:bg-zinc-700/50 rounded-lg transition-colors min-h-[40px] min-w-[40px] flex items-center justify-center"
+                        title="Restore fact"
+                      >
+                        <RotateCcw
+                          size={14}
+                          className={`text-zinc-400 hover:text-emerald-400 ${
+                            isRestoring === fact.id ? 'animate-pulse' : ''
+                          }`}
+                        />
+                      </button>
+                      <button
+                        onClick={() => handlePurge([fact.id])}
+                        className="p-2 hover:bg-zinc-700/50 rounded-lg transition-colors min-h-[40px] min-w-[40px] flex items-center justify-center"
+                        title="Delete forever"
+                      >
+                        <Trash2 size={14} className="text-zinc-400 hover:text-red-400" />
+                      </button>
+                    </div>
+                  </div>
+                </motion.div>
+              ))}
+            </AnimatePresence>
+          </div>
+        )}
+      </>
+    );
+  }
+
   if (facts.length === 0) {
     return (
-      <div className="p-3 sm:p-4 text-center">
-        <div className="text-zinc-400 mb-4">
-          <div className="w-10 h-10 sm:w-12 sm:h-12 bg-zinc-800 rounded-xl flex items-center justify-center mx-auto mb-3 sm:mb-4">
-            <Plus size={20} className="opacity-50 sm:w-6 sm:h-6" />
+      <>
+        {tabs}
+        <div className="p-3 sm:p-4 text-center">
+          <div className="text-zinc-400 mb-4">
+            <div className="w-10 h-10 sm:w-12 sm:h-12 bg-zinc-800 rounded-xl flex items-center justify-center mx-auto mb-3 sm:mb-4">
+              <Plus size={20} className="opacity-50 sm:w-6 sm:h-6" />
+            </div>
+            <p className="text-sm font-medium">No memories yet</p>
+            <p className="text-xs text-zinc-500 mt-2 leading-relaxed">
+              Start chatting and I&apos;ll remember important details about you!
+            </p>
           </div>
-          <p className="text-sm font-medium">No memories yet</p>
-          <p className="text-xs text-zinc-500 mt-2 leading-relaxed">
-            Start chatting and I&apos;ll remember important details about you!
-          </p>
         </div>
-      </div>
+        {undoToast}
+      </>
     );
   }
 
   return (
-    <div className="flex-1 overflow-y-auto p-3 sm:p-4 space-y-3">
-      <AnimatePresence>
-        {facts.map((fact, index) => (
-          <motion.div
-            key={fact.id}
-            initial={{ opacity: 0, y: 20 }}
-            animate={{ opacity: 1, y: 0 }}
-            exit={{ opacity: 0, x: -100 }}
-            transition={{ delay: index * 0.1 }}
-            className="bg-zinc-800/50 rounded-xl p-3 sm:p-4 hover:bg-zinc-800/70 transition-colors border border-zinc-700/50"
-          >
-            {editingFactId === fact.id ? (
-              <div className="space-y-3">
-                <div>
-                  <label className="block text-xs text-zinc-400 mb-2 font-medium">Subject</label>
-                  <input
-                    type="text"
-                    value={editingFact.subject || ''}
-                    onChange={(e) => setEditingFact({ ...editingFact, subject: e.target.value })}
-                    className="w-full bg-zinc-700/50 rounded-lg px-3 py-2 text-sm text-zinc-100 border border-zinc-600 focus:border-zinc-500 focus:outline-none focus:ring-2 focus:ring-zinc-500/20"
-                  />
-                </div>
-                <div>
-                  <label className="block text-xs text-zinc-400 mb-2 font-medium">Relationship</label>
-                  <input
-                    type="text"
-                    value={editingFact.predicate || ''}
-                    onChange={(e) => setEditingFact({ ...editingFact, predicate: e.target.value })}
-                    className="w-full bg-zinc-700/50 rounded-lg px-3 py-2 text-sm text-zinc-100 border border-zinc-600 focus:border-zinc-500 focus:outline-none focus:ring-2 focus:ring-zinc-500/20"
-                    placeholder="e.g., lives_in, works_as, likes"
-                  />
-                </div>
-                <div>
-                  <label className="block text-xs text-zinc-400 mb-2 font-medium">Value</label>
-                  <input
-                    type="text"
-                    value={editingFact.object || ''}
-                    onChange={(e) => setEditingFact({ ...editingFact, object: e.target.value })}
-                    className="w-full bg-zinc-700/50 rounded-lg px-3 py-2 text-sm text-zinc-100 border border-zinc-600 focus:border-zinc-500 focus:outline-none focus:ring-2 focus:ring-zinc-500/20"
-                  />
-                </div>
-                <div className="flex space-x-2 pt-2">
-                  <button
-                    onClick={() => handleSave(fact.id)}
-                    className="flex-1 flex items-center justify-center space-x-2 bg-emerald-600 hover:bg-emerald-700 text-white px-3 py-2.5 rounded-lg text-xs font-medium transition-colors min-h-[44px]"
-                  >
-                    <Save size={14} />
-                    <span>Save</span>
-                  </button>
-                  <button
-                    onClick={handleCancel}
-                    className="flex-1 flex items-center justify-center space-x-2 bg-zinc-700 hover:bg-zinc-600 text-zinc-200 px-3 py-2.5 rounded-lg text-xs font-medium transition-colors min-h-[44px]"
-                  >
-                    <X size={14} />
-                    <span>Cancel</span>
-                  </button>
-                </div>
-              </div>
-            ) : (
-              <div>
-                <div className="flex items-start justify-between mb-3">
-                  <div className="flex-1 min-w-0 pr-2">
-                    <div className="text-sm font-semibold text-zinc-200 mb-2">
-                      {formatPredicate(fact.predicate)}
-                    </div>
-                    <div className="text-sm text-zinc-300 leading-relaxed break-words">
-                      {fact.object}
-                    </div>
-                    <div className="text-xs text-zinc-500 mt-3 flex flex-wrap items-center gap-2">
-                      <span className="bg-zinc-700/50 px-2 py-1 rounded">
-                        {fact.subject}
-                      </span>
-                      <span>•</span>
-                      <span>{fact.timestamp ? new Date(fact.timestamp).toLocaleDateString() : 'N/A'}</span>
-                    </div>
+    <>
+      {tabs}
+      <div className="flex-1 overflow-y-auto p-3 sm:p-4 space-y-3">
+        <AnimatePresence>
+          {facts.map((fact, index) => (
+            <motion.div
+              key={fact.id}
+              id={`fact-${fact.id}`}
+              initial={{ opacity: 0, y: 20 }}
+              animate={{ opacity: 1, y: 0 }}
+              exit={{ opacity: 0, x: -100 }}
+              transition={{ delay: index * 0.1 }}
+              className={`bg-zinc-800/50 rounded-xl p-3 sm:p-4 hover:bg-zinc-800/70 transition-colors border ${
+                fact.id === highlightFactId ? 'border-emerald-500/70 ring-2 ring-emerald-500/20' : 'border-zinc-700/50'
+              }`}
+            >
+              {editingFactId === fact.id ? (
+                <div className="space-y-3">
+                  <div>
+                    <label className="block text-xs text-zinc-400 mb-2 font-medium">Subject</label>
+                    <input
+                      type="text"
+                      value={editingFact.subject || ''}
+                      onChange={(e) => setEditingFact({ ...editingFact, subject: e.target.value })}
+                      className="w-full bg-zinc-700/50 rounded-lg px-3 py-2 text-sm text-zinc-100 border border-zinc-600 focus:border-zinc-500 focus:outline-none focus:ring-2 focus:ring-zinc-500/20"
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-xs text-zinc-400 mb-2 font-medium">Relationship</label>
+                    <input
+                      type="text"
+                      value={editingFact.predicate || ''}
+                      onChange={(e) => setEditingFact({ ...editingFact, predicate: e.target.value })}
+                      className="w-full bg-zinc-700/50 rounded-lg px-3 py-2 text-sm text-zinc-100 border border-zinc-600 focus:border-zinc-500 focus:outline-none focus:ring-2 focus:ring-zinc-500/20"
+                      placeholder="e.g., lives_in, works_as, likes"
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-xs text-zinc-400 mb-2 font-medium">Value</label>
+                    <input
+                      type="text"
+                      value={editingFact.object || ''}
+                      onChange={(e) => setEditingFact({ ...editingFact, object: e.target.value })}
+                      className="w-full bg-zinc-700/50 rounded-lg px-3 py-2 text-sm text-zinc-100 border border-zinc-600 focus:border-zinc-500 focus:outline-none focus:ring-2 focus:ring-zinc-500/20"
+                    />
                   </div>
-                  <div className="flex space-x-1 flex-shrink-0">
+                  <div className="flex space-x-2 pt-2">
                     <button
-                      onClick={() => handleEdit(fact)}
-                      className="p-2 hover:bg-zinc-700/50 rounded-lg transition-colors min-h-[40px] min-w-[40px] flex items-center justify-center"
-                      title="Edit fact"
+                      onClick={() => handleSave(fact.id)}
+                      className="flex-1 flex items-center justify-center space-x-2 bg-emerald-600 hover:bg-emerald-700 text-white px-3 py-2.5 rounded-lg text-xs font-medium transition-colors min-h-[44px]"
                     >
-                      <Edit2 size={14} className="text-zinc-400 hover:text-zinc-200" />
+                      <Save size={14} />
+                      <span>Save</span>
                     </button>
                     <button
-                      onClick={() => handleDelete(fact.id)}
-                      disabled={isDeleting === fact.id}
-                      className="p-2 hover:bg-zinc-700/50 rounded-lg transition-colors min-h-[40px] min-w-[40px] flex items-center justify-center"
-                      title="Delete fact"
+                      onClick={handleCancel}
+                      className="flex-1 flex items-center justify-center space-x-2 bg-zinc-700 hover:bg-zinc-600 text-zinc-200 px-3 py-2.5 rounded-lg text-xs font-medium transition-colors min-h-[44px]"
                     >
-                      <Trash2 
-                        size={14} 
-                        className={`text-zinc-400 hover:text-red-400 ${
-                          isDeleting === fact.id ? 'animate-pulse' : ''
-                        }`} 
-                      />
+                      <X size={14} />
+                      <span>Cancel</span>
                     </button>
                   </div>
                 </div>
-              </div>
-            )}
-          </motion.div>
-        ))}
-      </AnimatePresence>
-    </div>
+              ) : (
+                <div>
+                  <div className="flex items-start justify-between mb-3">
+                    <div className="flex-1 min-w-0 pr-2">
+                      <div className="text-sm font-semibold text-zinc-200 mb-2">
+                        {formatPredicate(fact.predicate)}
+                      </div>
+                      <div className="text-sm text-zinc-300 leading-relaxed break-words">
+                        {fact.object}
+                      </div>
+                      <div className="text-xs text-zinc-500 mt-3 flex flex-wrap items-center gap-2">
+                        <span className="bg-zinc-700/50 px-2 py-1 rounded">
+                          {fact.subject}
+                        </span>
+                        <span>•</span>
+                        <span>{fact.timestamp ? new Date(fact.timestamp).toLocaleDateString() : 'N/A'}</span>
+                        {fact.validUntil && (
+                          <>
+                            <span>•</span>
+                            <span title={fact.validFrom ? `From ${new Date(fact.validFrom).toLocaleDateString()}` : undefined}>
+                              until {new Date(fact.validUntil).toLocaleDateString()}
+                            </span>
+                          </>
+                        )}
+                        {fact.source && (
+                          <>
+                            <span>•</span>
+                            <span
+                              title={fact.sourceMessageId ? `From message ${fact.sourceMessageId}` : undefined}
+                              className={fact.confidence !== undefined && fact.confidence < LOW_CONFIDENCE_THRESHOLD ? 'text-amber-400/80' : undefined}
+                            >
+                              {fact.source}
+                              {fact.confidence !== undefined && fact.confidence < 1 && ` ${Math.round(fact.confidence * 100)}%`}
+                            </span>
+                          </>
+                        )}
+                      </div>
+                    </div>
+                    <div className="flex space-x-1 flex-shrink-0">
+                      <button
+                        onClick={() => handleEdit(fact)}
+                        className="p-2 hover:bg-zinc-700/50 rounded-lg transition-colors min-h-[40px] min-w-[40px] flex items-center justify-center"
+                        title="Edit fact"
+                      >
+                        <Edit2 size={14} className="text-zinc-400 hover:text-zinc-200" />
+                      </button>
+                      <button
+                        onClick={() => handleDelete(fact)}
+                        disabled={isDeleting === fact.id}
+                        className="p-2 hover:bg-zinc-700/50 rounded-lg transition-colors min-h-[40px] min-w-[40px] flex items-center justify-center"
+                        title="Delete fact"
+                      >
+                        <Trash2 
+                          size={14} 
+                          className={`text-zinc-400 hover:text-red-400 ${
+                            isDeleting === fact.id ? 'animate-pulse' : ''
+                          }`} 
+                        />
+                      </button>
+                    </div>
+                  </div>
+                </div>
+              )}
+            </motion.div>
+          ))}
+        </AnimatePresence>
+      </div>
+      {undoToast}
+    </>
   );
 }; 
\ No newline at end of file
@@ -1,14 +1,21 @@
+import { useState } from 'react';
 import { Message as MessageType } from '@/types/message';
-import { motion } from 'framer-motion';
-import { Bot, User } from 'lucide-react';
+import { Fact } from '@/types/fact';
+import { motion, AnimatePresence } from 'framer-motion';
+import { Bot, User, Brain, ChevronDown } from 'lucide-react';
 import { cn } from '@/lib/utils';
+import { formatPredicateLabel } from '@/lib/memoryContext';
 
 interface MessageProps {
   message: MessageType;
+  facts?: Fact[];
+  onShowFact?: (factId: string) => void;
 }
 
-export const Message = ({ message }: MessageProps) => {
+export const Message = ({ message, facts = [], onShowFact }: MessageProps) => {
   const isUser = message.role === 'user';
+  const [showMemories, setShowMemories] = useState(false);
+  const memoryFactIds = message.memoryFactIds || [];
   
   return (
     <motion.div
@@ -54,6 +61,50 @@ export const Message = ({ message }: MessageProps) => {
               {message.content}
             </div>
           </div>
+
+          {/* Memories used */}
+          {!isUser && memoryFactIds.length > 0 && (
+            <div className="mt-2 sm:mt-3">
+              <button
+                onClick={() => setShowMemories(!showMemories)}
+                className="inline-flex items-center gap-1.5 px-2 py-1 text-xs text-zinc-400 bg-zinc-800/60 hover:bg-zinc-800 border border-zinc-700/60 rounded-full transition-colors"
+              >
+                <Brain size={12} />
+                {memoryFactIds.length} {memoryFactIds.length === 1 ? 'memory' : 'memories'} used
+                <ChevronDown size={12} className={cn('transition-transform', showMemories && 'rotate-180')} />
+              </button>
+
+              <AnimatePresence>
+                {showMemories && (
+                  <motion.ul
+                    initial={{ opacity: 0, height: 0 }}
+                    animate={{ opacity: 1, height: 'auto' }}
+                    exit={{ opacity: 0, height: 0 }}
+                    className="mt-2 space-y-1 overflow-hidden"
+                  >
+                    {memoryFactIds.map(factId => {
+                      const fact = facts.find(f => f.id === factId);
+                      return (
+                        <li key={factId}>
+                          {fact ? (
+                            <button
+                              onClick={() => onShowFact?.(factId)}
+                              className="text-left text-xs text-zinc-400 hover:text-zinc-200 transition-colors"
+                            >
+                              <span className="text-zinc-500">{formatPredicateLabel(fact.predicate)}:</span> {fact.object}
+                            </button>
+                          ) : (
+                            // The fact was changed or forgotten since this reply
+                            <span className="text-xs text-zinc-600 italic">A memory that is no longer stored</span>
+                          )}
+                        </li>
+                      );
+                    })}
+                  </motion.ul>
+                )}
+              </AnimatePresence>
+            </div>
+          )}
         </div>
       </div>
     </motion.div>
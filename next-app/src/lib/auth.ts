@@ -0,0 +1,124 @@
+import { cookies } from 'next/headers';
+import { NextResponse } from 'next/server';
+import { createHash, randomBytes, scrypt as scryptCallback, timingSafeEqual } from 'crypto';
+import { promisify } from 'util';
+import { nanoid } from 'nanoid';
+import { getMessageStore, StoredUser } from '@/lib/store';
+import { User, SignUp } from '@/types/user';
+
+// Local accounts: users and sessions live in the message store next to the
+// chat history.
+// Passwords are hashed with scrypt; the session cookie holds a random token
+// of which only a SHA-256 hash is stored.
+
+export const SESSION_COOKIE = 'mm_session';
+const SESSION_TTL_SECONDS = 30 * 24 * 60 * 60; // 30 days
+
+const scrypt = promisify(scryptCallback) as (password: string, salt: Buffer, keyLength: number) => Promise<Buffer>;
+const PASSWORD_KEY_LENGTH = 64;
+
+export const hashPassword = async (password: string): Promise<string> => {
+  const salt = randomBytes(16);
+  const hash = await scrypt(password, salt, PASSWORD_KEY_LENGTH);
+  return `scrypt:${salt.toString('hex')}:${hash.toString('hex')}`;
+};
+
+export const verifyPassword = async (password: string, stored: string): Promise<boolean> => {
+  const [algorithm, salt, hash] = stored.split(':');
+  if (algorithm !== 'scrypt' || !salt || !hash) {
+    return false;
+  }
+
+  const expected = Buffer.from(hash, 'hex');
+  const actual = await scrypt(password, Buffer.from(salt, 'hex'), expected.length);
+  return timingSafeEqual(expected, actual);
+};
+
+// Compared against when the email is unknown, so a failed sign-in takes
+// the same time whether or not the account exists
+let dummyPasswordHash: Promise<string> | null = null;
+
+const hashSessionToken = (token: string) => createHash('sha256').update(token).digest('hex');
+
+// Never hand the password hash to callers
+const toUser = (user: StoredUser): User => ({
+  id: user.id,
+  email: user.email,
+  ...(user.name && { name: user.name }),
+  createdAt: user.createdAt,
+});
+
+// Returns null when the email is already registered
+export const createUser = async ({ email, password, name }: SignUp): Promise<User | null> => {
+  const user: StoredUser = {
+    id: nanoid(),
+    email,
+    ...(name && { name }),
+    passwordHash: await hashPassword(password),
+    createdAt: new Date(),
+  };
+
+  return (await getMessageStore().createUser(user)) ? toUser(user) : null;
+};
+
+// Returns the user when the email and password match
+export const authenticate = async (email: string, password: string): Promise<User | null> => {
+  const store = getMessageStore();
+  const userId = await store.getUserIdByEmail(email);
+  const stored = userId ? await store.getUser(userId) : null;
+
+  if (!stored) {
+    dummyPasswordHash = dummyPasswordHash || hashPassword(randomBytes(16).toString('hex'));
+    await verifyPassword(password, await dummyPasswordHash);
+    return null;
+  }
+
+  return (await verifyPassword(password, stored.passwordHash)) ? toUser(stored) : null;
+};
+
+export const createSession = async (userId: string): Promise<string> => {
+  const token = randomBytes(32).toString('base64url');
+  await getMessageStore().saveSession(hashSessionToken(token), userId, SESSION_TTL_SECONDS);
+  return token;
+};
+
+export const deleteSession = async (token: string): Promise<void> => {
+  await getMessageStore().deleteSession(hashSessionToken(token));
+};
+
+// The signed-in user for the current request, from the session cookie
+export const getSessionUser = async (): Promise<User | null> => {
+  try {
+    const token = (await cookies()).get(SESSION_COOKIE)?.value;
+    if (!token) {
+      return null;
+    }
+
+    const store = getMessageStore();
+    const userId = await store.getSessionUserId(hashSessionToken(token));
+    const stored = userId ? await store.getUser(userId) : null;
+    return stored ? toUser(stored) : null;
+  } catch (error) {
+    console.error('❌ Failed to read session:', error);
+    return null;
+  }
+};
+
+export const setSessionCookie = (response: NextResponse, token: string) => {
+  response.cookies.set(SESSION_COOKIE, token, {
+    httpOnly: true,
+    sameSite: 'lax',
+    secure: process.env.NODE_ENV === 'production',
+    path: '/',
+    maxAge: SESSION_TTL_SECONDS,
+  });
+};
+
+export const clearSessionCookie = (response: NextResponse) => {
+  response.cookies.set(SESSION_COOKIE, '', { httpOnly: true, path: '/', maxAge: 0 });
+};
+
+export const unauthorizedResponse = () => NextResponse.json(
+  { error: 'Not signed in' },
+  { status: 401 }
+);
@@ -0,0 +1,100 @@
+import { describe, expect, test } from 'bun:test';
+import { extractFacts } from '@/lib/extractFacts';
+import { listExtractionFailures } from '@/lib/store';
+import { Fact, Predicate } from '@/types/fact';
+
+// Replies come from the mock model script in src/test/mock-model-script.json
+
+const predicates: Predicate[] = [
+  { name: 'has_pet', aliases: ['pet', 'owns_pet'], description: 'Pets', valueType: 'entity', cardinality: 'multi', custom: false },
+  { name: 'lives_in', aliases: ['resides_in'], description: 'Where the person lives', valueType: 'entity', cardinality: 'single', custom: false },
+];
+
+const porto: Fact = { id: 'fact-porto', subject: 'user', predicate: 'lives_in', object: 'Porto', userId: 'user-1' };
+
+describe('extractFacts', () => {
+  test('creates facts under canonical predicates and drops operations on unknown facts', async () => {
+    const operations = await extractFacts({
+      message: 'I have a dog called Rex',
+      userId: 'user-1',
+      sourceMessageId: 'message-1',
+      predicates,
+    });
+
+    expect(operations).toEqual([
+      {
+        op: 'create',
+        fact: {
+          subject: 'user',
+          predicate: 'has_pet',
+          object: 'Rex',
+          userId: 'user-1',
+          confidence: 0.9,
+          source: 'extracted',
+          sourceMessageId: 'message-1',
+        },
+      },
+    ]);
+
+    const failures = await listExtractionFailures('user-1');
+    expect(failures[0]).toMatchObject({ reason: 'invalid_facts', messageId: 'message-1' });
+    expect(failures[0].error).toContain('delete of unknown fact not-a-known-fact');
+  });
+
+  test('updates a known fact by ID', async () => {
+    const operations = await extractFacts({
+      message: 'I moved to Lisbon',
+      userId: 'user-2',
+      existingFacts: [porto],
+      predicates,
+    });
+
+    expect(operations).toEqual([
+      { op: 'update', id: 'fact-porto', changes: { object: 'Lisbon', confidence: 1 }, previous: porto },
+    ]);
+  });
+
+  test('keeps the message as written in the prompt', async () => {
+    const operations = await extractFacts({
+      message: 'I adopted a cat called $&Tom',
+      userId: 'user-4',
+      recentMessages: [
+        { id: 'message-0', userId: 'user-4', conversationId: 'conversation-1', role: 'user', content: 'What does {message} mean?', timestamp: new Date() },
+      ],
+      predicates,
+    });
+
+    expect(operations).toEqual([
+      {
+        op: 'create',
+        fact: { subject: 'user', predicate: 'has_pet', object: '$&Tom', userId: 'user-4', confidence: 1, source: 'extracted' },
+      },
+    ]);
+  });
+
+  test('accepts an answer without operations', async () => {
+    const operations = await extractFacts({ message: 'What time is it?', userId: 'user-5', predicates });
+
+    expect(operations).toEqual([]);
+    expect(await listExtractionFailures('user-5')).toEqual([]);
+  });
+
+  test('repairs output that is not JSON and records the first answer', async () => {
+    const operations = await extractFacts({
+      message: 'I play chess on Sundays',
+      userId: 'user-3',
+      predicates,
+    });
+
+    expect(operations).toEqual([
+      {
+        op: 'create',
+        fact: { subject: 'user', predicate: 'plays', object: 'chess', userId: 'user-3', confidence: 1, source: 'extracted' },
+      },
+    ]);
+
+    const failures = await listExtractionFailures('user-3');
+    expect(failures).toHaveLength(1);
+    expect(failures[0]).toMatchObject({ reason: 'repaired', rawResponse: 'Sure! Here are the facts: plays chess' });
+  });
+});
@@ -1,43 +1,100 @@
-import { ChatGoogleGenerativeAI } from '@langchain/google-genai';
-import { CreateFact } from '@/types/fact';
+import { AIMessage } from '@langchain/core/messages';
+import { nanoid } from 'nanoid';
+import { z } from 'zod';
+import { Fact, Predicate, Entity } from '@/types/fact';
+import { Message } from '@/types/message';
+import { ExtractedOperation, ExtractedOperationSchema, ExtractionOutputSchema, ExtractionFailureReason, FactOperation } from '@/types/extraction';
+import { createModel } from '@/lib/models';
+import { recordExtractionFailure } from '@/lib/store';
+import { buildMemoryContext } from '@/lib/memoryContext';
+import { tokenBudgetFromEnv } from '@/lib/tokens';
+import { fillPrompt } from '@/lib/prompts';
 
-const createModel = () => {
-  if (!process.env.GEMINI_API_KEY) {
-    throw new Error('GEMINI_API_KEY environment variable is not set');
-  }
-  
-  return new ChatGoogleGenerativeAI({
-    model: 'gemini-2.0-flash-exp',
-    apiKey: process.env.GEMINI_API_KEY,
-    temperature: 0.1,
-  });
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Turns before the message shown to the extractor, so replies like "yes,
+// that one" can be resolved
+export const EXTRACTION_CONTEXT_TURNS = 6;
+
+// Longer turns are cut short in the prompt
+const CONTEXT_TURN_CHARS = 500;
+
+// Tokens of known facts shown to the extractor, the most relevant first
+const EXTRACTION_MEMORY_TOKEN_BUDGET = tokenBudgetFromEnv('EXTRACTION_MEMORY_TOKEN_BUDGET', 1500);
+
+// Known entities shown to the extractor, those mentioned in the conversation
+// first
+const EXTRACTION_ENTITY_LIMIT = 50;
+
+// Accepts the model's YYYY-MM-DD (or full ISO) dates; anything else is
+// dropped. A bare end date covers the whole of that day.
+const parseValidityDate = (value: unknown, endOfDay = false): string | undefined => {
+  if (typeof value !== 'string') return undefined;
+  const time = Date.parse(value);
+  if (Number.isNaN(time)) return undefined;
+  const isDateOnly = /^\d{4}-\d{2}-\d{2}$/.test(value.trim());
+  return new Date(endOfDay && isDateOnly ? time + DAY_MS : time).toISOString();
 };
 
 const FACT_EXTRACTION_PROMPT = `
-You are a fact extraction AI. Your job is to extract structured facts from user messages.
+You are a fact extraction AI. Your job is to keep a memory of facts about the user up to date with what they say.
 
-Extract facts in the following JSON format:
+Return the changes to make in the following JSON format:
 {
-  "facts": [
+  "operations": [
     {
+      "op": "create",
       "subject": "user",
       "predicate": "relationship_or_action",
-      "object": "value_or_entity"
-    }
+      "object": "value_or_entity",
+      "objectEntityId": "id of the known entity the object refers to, if any",
+      "confidence": 0.9,
+      "validFrom": "YYYY-MM-DD",
+      "validUntil": "YYYY-MM-DD"
+    },
+    { "op": "update", "id": "id of a known fact", "object": "new value", "confidence": 1 },
+    { "op": "delete", "id": "id of a known fact" }
   ]
 }
 
+Today's date is {today}.
+
+Known facts about the user, as id: subject | predicate | object:
+{facts}
+
+Known people, places and things, as id: name (type; other names):
+{entities}
+
+Predicate vocabulary, as name (aliases): meaning [value type, one or several current values]:
+{predicates}
+
+Recent conversation, oldest first:
+{conversation}
+
 Guidelines:
 - Extract only factual information about the user
 - Use "user" as the subject for personal facts
-- Use clear, concise predicates (e.g., "lives_in", "works_as", "likes", "plays", "owns")
+- Use predicate names from the vocabulary, never their aliases; only when none fits, use a clear, concise snake_case predicate (e.g., "is_traveling_to")
+- Use a person's name rather than how they are related as the subject of facts about them ("Anna lives_in Rome", not "my sister lives_in Rome")
+- When a subject or object refers to a known entity, even by another name ("my sis" for Anna), write the entity's name and set "subjectEntityId" or "objectEntityId" to its id
 - Extract multiple facts if present
-- Return empty array if no facts are found
-- Do not extract opinions, questions, or temporary states
+- Return an empty operations array if nothing changes
+- Use the recent conversation to work out what the new message refers to ("yes, that one", "I moved there last year"), but only record what the user says or confirms in the new message
+- Never create a fact that is already known; when the new message changes a known fact, update it by id instead
+- When the user says a known fact is wrong or no longer true, delete it by id
+- Only use ids from the known facts
+- Set "confidence" between 0 and 1: close to 1 when the user states the fact directly, lower when it is implied, hedged ("I think", "maybe") or guessed
+- For temporary states (travelling, studying for an exam, staying with someone), set "validUntil" to the date the state ends, estimating from the message when needed, and "validFrom" if it has not started yet
+- Omit "validFrom" and "validUntil" for lasting facts
+- Do not extract opinions, questions, or temporary states with no foreseeable end
 
 Examples:
-- "I live in New York and work as a teacher" → [{"subject": "user", "predicate": "lives_in", "object": "New York"}, {"subject": "user", "predicate": "works_as", "object": "teacher"}]
-- "My favorite color is blue" → [{"subject": "user", "predicate": "favorite_color", "object": "blue"}]
+- "I live in New York and work as a teacher" → [{"op": "create", "subject": "user", "predicate": "lives_in", "object": "New York", "confidence": 1}, {"op": "create", "subject": "user", "predicate": "works_as", "object": "teacher", "confidence": 1}]
+- "I might switch to Python soon, I think I like it" → [{"op": "create", "subject": "user", "predicate": "likes", "object": "Python", "confidence": 0.5}]
+- "I'm in Tokyo for the next two weeks" (today 2025-03-01) → [{"op": "create", "subject": "user", "predicate": "is_traveling_to", "object": "Tokyo", "confidence": 1, "validUntil": "2025-03-15"}]
+- Assistant: "Is Lisbon the city you mentioned?" User: "Yes, I moved there last year" (known f1: user | lives_in | Porto) → [{"op": "update", "id": "f1", "object": "Lisbon", "confidence": 1}]
+- "My sis just moved to Rome" (known e1: Anna (person; my sister)) → [{"op": "create", "subject": "Anna", "subjectEntityId": "e1", "predicate": "lives_in", "object": "Rome", "confidence": 1}]
+- "I don't play tennis anymore" (known f2: user | plays | tennis) → [{"op": "delete", "id": "f2"}]
 - "What's the weather like?" → []
 
 Message to analyze: "{message}"
@@ -45,47 +102,296 @@ Message to analyze: "{message}"
 Respond only with valid JSON:
 `;
 
-export const extractFacts = async (message: string, userId: string): Promise<CreateFact[]> => {
+// Shown to the model when its first answer could not be used
+const REPAIR_PROMPT = `
+Your previous answer to a fact extraction request could not be used.
+
+Problem: {error}
+
+Previous answer:
+{response}
+
+Return the same operations in this format, fixing only what is wrong:
+{"operations": [{"op": "create", "subject": "user", "predicate": "relationship_or_action", "object": "value_or_entity", "confidence": 0.9}, {"op": "delete", "id": "id of a known fact"}]}
+
+Respond only with valid JSON:
+`;
+
+export interface ExtractionInput {
+  message: string;
+  userId: string;
+  // The stored chat message, kept as the facts' provenance
+  sourceMessageId?: string;
+  // Turns before the message, oldest first
+  recentMessages?: Message[];
+  // The user's current facts, which operations may update or delete
+  existingFacts?: Fact[];
+  // The MCP server's predicate vocabulary, so synonyms are not invented
+  predicates?: Predicate[];
+  // The user's entities, which new facts may link to
+  entities?: Entity[];
+}
+
+type OutputCheck =
+  | { ok: true; operations: ExtractedOperation[]; dropped: string[] }
+  | { ok: false; error: string };
+
+const stripCodeFence = (text: string): string => {
+  const match = text.match(/```(?:json)?\s*([\s\S]*?)\s*```/);
+  return match ? match[1] : text.trim();
+};
+
+// Models often send null for fields they leave out
+const withoutNulls = (value: unknown): unknown =>
+  value && typeof value === 'object' && !Array.isArray(value)
+    ? Object.fromEntries(Object.entries(value).filter(([, field]) => field !== null))
+    : value;
+
+const sameFact = (a: Pick<Fact, 'subject' | 'predicate' | 'object'>, b: Pick<Fact, 'subject' | 'predicate' | 'object'>) =>
+  a.subject.toLowerCase() === b.subject.toLowerCase()
+  && a.predicate.toLowerCase() === b.predicate.toLowerCase()
+  && a.object.toLowerCase() === b.object.toLowerCase();
+
+// Operations are validated one by one so a single bad one does not cost the
+// rest. Updates and deletes must name one of the user's known facts.
+const checkOutput = (text: string, knownFactIds: Set<string>): OutputCheck => {
+  let data: unknown;
   try {
-    const model = createModel();
-    const prompt = FACT_EXTRACTION_PROMPT.replace('{message}', message);
-    const response = await model.invoke(prompt);
-    
-    // Parse the response content
-    const content = response.content.toString();
-    let jsonContent = content;
-    
-    // Try to extract JSON from markdown code blocks if present
-    const jsonMatch = content.match(/```(?:json)?\s*(\{[\s\S]*\})\s*```/);
-    if (jsonMatch) {
-      jsonContent = jsonMatch[1];
+    data = JSON.parse(stripCodeFence(text));
+  } catch (error) {
+    return { ok: false, error: `Not valid JSON (${error instanceof Error ? error.message : 'parse error'})` };
+  }
+
+  const envelope = z.object({ operations: z.array(z.unknown()) }).safeParse(data);
+  if (!envelope.success) {
+    return { ok: false, error: `Expected an object with an "operations" array: ${z.prettifyError(envelope.error)}` };
+  }
+
+  const operations: ExtractedOperation[] = [];
+  const dropped: string[] = [];
+  envelope.data.operations.forEach((candidate, index) => {
+    const result = ExtractedOperationSchema.safeParse(withoutNulls(candidate));
+    if (!result.success) {
+      dropped.push(`operations[${index}]: ${z.prettifyError(result.error)}`);
+    } else if (result.data.op !== 'create' && !knownFactIds.has(result.data.id)) {
+      dropped.push(`operations[${index}]: ${result.data.op} of unknown fact ${result.data.id}`);
+    } else {
+      operations.push(result.data);
     }
-    
-    const parsed = JSON.parse(jsonContent);
-    
-    if (!parsed.facts || !Array.isArray(parsed.facts)) {
-      console.warn('Invalid fact extraction response format');
-      return [];
+  });
+
+  return { ok: true, operations, dropped };
+};
+
+// The schema is handed to the model as structured output, which providers
+// enforce to varying degrees, so the raw response is validated here rather
+// than trusted. Without tool calls (e.g. the mock model) the JSON is in the
+// message content.
+const invokeExtraction = async (prompt: string): Promise<string> => {
+  const model = createModel('extraction').withStructuredOutput(ExtractionOutputSchema, {
+    name: 'save_operations',
+    includeRaw: true,
+  });
+  const { raw } = await model.invoke(prompt);
+
+  const toolCall = (raw as AIMessage).tool_calls?.[0];
+  return toolCall ? JSON.stringify(toolCall.args) : raw.text;
+};
+
+const formatConversation = (messages: Message[]): string => {
+  if (messages.length === 0) {
+    return '(none)';
+  }
+  return messages
+    .slice(-EXTRACTION_CONTEXT_TURNS)
+    .map(turn => {
+      const content = turn.content.length > CONTEXT_TURN_CHARS ? `${turn.content.slice(0, CONTEXT_TURN_CHARS)}...` : turn.content;
+      return `${turn.role === 'user' ? 'User' : 'Assistant'}: ${content}`;
+    })
+    .join('\n');
+};
+
+const pickEntities = (entities: Entity[], text: string): Entity[] => {
+  const lowerText = text.toLowerCase();
+  const isMentioned = (entity: Entity) =>
+    [entity.name, ...entity.aliases].some(name => lowerText.includes(name.toLowerCase()));
+  return [...entities]
+    .sort((a, b) => Number(isMentioned(b)) - Number(isMentioned(a)))
+    .slice(0, EXTRACTION_ENTITY_LIMIT);
+};
+
+const formatEntities = (entities: Entity[]): string =>
+  entities.length === 0
+    ? '(none)'
+    : entities.map(entity => {
+      const aliases = entity.aliases.length > 0 ? `; ${entity.aliases.join(', ')}` : '';
+      return `${entity.id}: ${entity.name} (${entity.type}${aliases})`;
+    }).join('\n');
+
+const formatPredicates = (predicates: Predicate[]): string =>
+  predicates.length === 0
+    ? '(none)'
+    : predicates.map(predicate => {
+      const aliases = predicate.aliases.length > 0 ? ` (${predicate.aliases.join(', ')})` : '';
+      const values = predicate.cardinality === 'single' ? 'one value' : 'several values';
+      return `- ${predicate.name}${aliases}: ${predicate.description || predicate.name} [${predicate.valueType}, ${values}]`;
+    }).join('\n');
+
+// Canonical names by name and alias, normalized the way the MCP server does
+// ("Is Employed As" -> is_employed_as -> works_as)
+const normalizePredicateKey = (predicate: string) => predicate.trim().toLowerCase().replace(/[\s-]+/g, '_');
+
+const predicateLookup = (predicates: Predicate[]) => {
+  const lookup = new Map<string, string>();
+  for (const predicate of predicates) {
+    lookup.set(predicate.name, predicate.name);
+    predicate.aliases.forEach(alias => lookup.set(alias, predicate.name));
+  }
+  return (predicate: string) => lookup.get(normalizePredicateKey(predicate)) ?? predicate;
+};
+
+const formatKnownFacts = (facts: Fact[]): string =>
+  facts.length === 0
+    ? '(none)'
+    : facts.map(fact => `${fact.id}: ${fact.subject} | ${fact.predicate} | ${fact.object}`).join('\n');
+
+export const extractFacts = async ({
+  message,
+  userId,
+  sourceMessageId,
+  recentMessages = [],
+  existingFacts = [],
+  predicates = [],
+  entities = [],
+}: ExtractionInput): Promise<FactOperation[]> => {
+  const recordFailure = (reason: ExtractionFailureReason, error: string, rawResponse: string) =>
+    recordExtractionFailure({
+      id: nanoid(),
+      userId,
+      ...(sourceMessageId && { messageId: sourceMessageId }),
+      reason,
+      error,
+      rawResponse,
+      createdAt: new Date(),
+    }).catch(recordError => {
+      console.error('❌ Failed to record extraction failure:', recordError);
+    });
+
+  // Only the facts most related to the conversation fit in the prompt, and
+  // only those can be updated or deleted
+  const knownFacts = buildMemoryContext(existingFacts, {
+    message,
+    recentMessages,
+    budget: EXTRACTION_MEMORY_TOKEN_BUDGET,
+  }).facts;
+  const knownFactsById = new Map(knownFacts.map(fact => [fact.id, fact]));
+  const canonicalPredicate = predicateLookup(predicates);
+  const knownEntities = pickEntities(entities, [...recentMessages.map(turn => turn.content), message].join('\n'));
+  const knownEntityIds = new Set(knownEntities.map(entity => entity.id));
+  // Links to entities the extractor was not shown are left to the server
+  const knownEntityId = (id?: string) => (id && knownEntityIds.has(id) ? id : undefined);
+
+  let rawResponse = '';
+  try {
+    const prompt = fillPrompt(FACT_EXTRACTION_PROMPT, {
+      today: new Date().toISOString().slice(0, 10),
+      facts: formatKnownFacts(knownFacts),
+      entities: formatEntities(knownEntities),
+      predicates: formatPredicates(predicates),
+      conversation: formatConversation(recentMessages),
+      message,
+    });
+    rawResponse = await invokeExtraction(prompt);
+    let check = checkOutput(rawResponse, new Set(knownFactsById.keys()));
+
+    // One repair pass: show the model its answer and what was wrong with it
+    if (!check.ok) {
+      const firstResponse = rawResponse;
+      const firstError = check.error;
+      console.warn(`⚠️ Unusable extraction output, attempting repair: ${firstError}`);
+
+      rawResponse = await invokeExtraction(
+        fillPrompt(REPAIR_PROMPT, { error: firstError, response: firstResponse })
+      );
+      check = checkOutput(rawResponse, new Set(knownFactsById.keys()));
+
+      if (!check.ok) {
+        console.warn(`⚠️ Extraction output still unusable after repair: ${check.error}`);
+        await recordFailure('invalid_output', `${firstError}\nAfter repair: ${check.error}`, `${firstResponse}\n\n--- repair ---\n${rawResponse}`);
+        return [];
+      }
+      await recordFailure('repaired', firstError, firstResponse);
+    }
+
+    if (check.dropped.length > 0) {
+      console.warn(`⚠️ Dropped ${check.dropped.length} invalid extraction operations`);
+      await recordFailure('invalid_facts', check.dropped.join('\n'), rawResponse);
     }
-    
-    // Validate and transform facts
-    const facts: CreateFact[] = parsed.facts
-      .filter((fact: { subject?: string; predicate?: string; object?: string }) => 
-        fact && 
-        typeof fact.subject === 'string' && 
-        typeof fact.predicate === 'string' && 
-        typeof fact.object === 'string'
-      )
-      .map((fact: { subject: string; predicate: string; object: string }) => ({
-        subject: fact.subject,
-        predicate: fact.predicate,
-        object: fact.object,
-        userId,
-      }));
-    
-    return facts;
+
+    const operations: FactOperation[] = [];
+    for (const operation of check.operations) {
+      if (operation.op === 'delete') {
+        operations.push({ op: 'delete', id: operation.id, previous: knownFactsById.get(operation.id)! });
+        continue;
+      }
+
+      if (operation.op === 'update') {
+        const { id, subject, predicate, object, confidence } = operation;
+        operations.push({
+          op: 'update',
+          id,
+          changes: {
+            ...(subject && { subject }),
+            ...(predicate && { predicate: canonicalPredicate(predicate) }),
+            ...(object && { object }),
+            ...(confidence !== undefined && { confidence: Math.min(1, Math.max(0, confidence)) }),
+          },
+          previous: knownFactsById.get(id)!,
+        });
+        continue;
+      }
+
+      // Aliases the model used anyway are stored under the canonical name,
+      // and known facts are not created twice
+      const predicate = canonicalPredicate(operation.predicate);
+      if (existingFacts.some(existing => sameFact(existing, { ...operation, predicate }))) {
+        continue;
+      }
+
+      const validFrom = parseValidityDate(operation.validFrom);
+      const validUntil = parseValidityDate(operation.validUntil, true);
+      const subjectEntityId = knownEntityId(operation.subjectEntityId);
+      const objectEntityId = knownEntityId(operation.objectEntityId);
+
+      // A window that has already closed is not worth storing
+      if (validUntil && Date.parse(validUntil) <= Date.now()) {
+        continue;
+      }
+
+      operations.push({
+        op: 'create',
+        fact: {
+          subject: operation.subject,
+          predicate,
+          object: operation.object,
+          userId,
+          ...(operation.confidence !== undefined && {
+            confidence: Math.min(1, Math.max(0, operation.confidence)),
+          }),
+          source: 'extracted',
+          ...(sourceMessageId && { sourceMessageId }),
+          ...(validFrom && { validFrom }),
+          ...(validUntil && { validUntil }),
+          ...(subjectEntityId && { subjectEntityId }),
+          ...(objectEntityId && { objectEntityId }),
+        },
+      });
+    }
+
+    return operations;
   } catch (error) {
     console.error('Error extracting facts:', error);
+    await recordFailure('model_error', error instanceof Error ? error.message : String(error), rawResponse);
     return [];
   }
-}; 
\ No newline at end of file
+};
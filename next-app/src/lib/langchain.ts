@@ -1,22 +1,15 @@
-import { ChatGoogleGenerativeAI } from '@langchain/google-genai';
 import { HumanMessage, SystemMessage, AIMessage } from '@langchain/core/messages';
 import { Message } from '@/types/message';
-import { MemoryContext } from '@/types/fact';
+import { MemoryContext, LOW_CONFIDENCE_THRESHOLD } from '@/types/fact';
+import { ConversationSummary } from '@/types/conversation';
+import { messagesAfterSummary, fitMessagesToBudget, HISTORY_TOKEN_BUDGET } from '@/lib/summarize';
+import { formatFactLabel, formatPredicateLabel } from '@/lib/memoryContext';
+import { createModel } from '@/lib/models';
 
-export const createChatModel = () => {
-  if (!process.env.GEMINI_API_KEY) {
-    throw new Error('GEMINI_API_KEY environment variable is not set');
-  }
-  
-  return new ChatGoogleGenerativeAI({
-    model: 'gemini-2.0-flash-exp',
-    apiKey: process.env.GEMINI_API_KEY,
-    temperature: 0.7,
-    streaming: true,
-  });
-};
+export const createChatModel = () => createModel('chat');
 
-export const formatSystemPrompt = (memoryContext: MemoryContext): string => {
+// Expects the facts picked by buildMemoryContext, most relevant first
+export const formatSystemPrompt = (memoryContext: MemoryContext, conversationSummary?: string): string => {
   let systemPrompt = `You are MemoryMind, a helpful AI assistant with persistent memory capabilities. You have access to the user's personal context and memory, which allows you to provide highly personalized and contextual responses.
 
 Your conversation style should be:
@@ -31,18 +24,22 @@ Your conversation style should be:
   if (memoryContext.facts && memoryContext.facts.length > 0) {
     systemPrompt += `\n=== WHAT YOU KNOW ABOUT THE USER ===\n`;
     
+    const isTentative = (confidence?: number) =>
+      confidence !== undefined && confidence < LOW_CONFIDENCE_THRESHOLD;
+    const hasTentativeFacts = memoryContext.facts.some(fact => isTentative(fact.confidence));
+    const hasTemporaryFacts = memoryContext.facts.some(fact => fact.validUntil);
+
     // Group facts by predicate for better organization
     const factsByPredicate = memoryContext.facts.reduce((acc, fact) => {
       if (!acc[fact.predicate]) {
         acc[fact.predicate] = [];
       }
-      acc[fact.predicate].push(fact.object);
+      acc[fact.predicate].push(formatFactLabel(fact));
       return acc;
     }, {} as Record<string, string[]>);
 
     Object.entries(factsByPredicate).forEach(([predicate, objects]) => {
-      const predicateLabel = predicate.replace(/_/g, ' ').replace(/\b\w/g, l => l.toUpperCase());
-      systemPrompt += `• ${predicateLabel}: ${objects.join(', ')}\n`;
+      systemPrompt += `• ${formatPredicateLabel(predicate)}: ${objects.join(', ')}\n`;
     });
     
     systemPrompt += `\n=== IMPORTANT GUIDELINES ===
@@ -52,7 +49,9 @@ Your conversation style should be:
 - Don't just list facts back - weave them into natural conversation
 - If the user mentions something that contradicts what you know, acknowledge the change
 - Show genuine interest in their life, hobbies, and experiences
-
+${hasTemporaryFacts ? `- Details marked (until ...) are temporary: treat them as true only for that period
+` : ''}${hasTentativeFacts ? `- Details marked (unconfirmed) are uncertain: phrase them tentatively ("if I remember right...") and check with the user instead of stating them as fact
+` : ''}
 For example:
 - If they mention being tired, and you know they work as a teacher, you might say "Teaching can be exhausting - how are your students doing this week?"
 - If they ask about events and you know their location and interests, provide personalized recommendations
@@ -63,6 +62,25 @@ For example:
     systemPrompt += `\nI don't have any specific personal context about you yet, but I'm eager to learn! I'll remember important details from our conversation to make future interactions more personalized and helpful.\n\n`;
   }
 
+  systemPrompt += `=== MEMORY TOOLS ===
+- When the user asks you to remember something, save it with create-fact
+- When they correct or ask you to forget something you know ("forget that I live in Berlin"), find it with get-facts, then use update-fact or delete-fact
+- When a question connects several facts ("where does my sister's husband work?"), follow them with query-graph
+- Other details are picked up from the conversation automatically, so don't call tools for every message
+- After changing memory, briefly confirm what you remembered, changed or forgot
+
+`;
+
+  // Older turns of this conversation, right ahead of the recent messages
+  if (conversationSummary) {
+    systemPrompt += `=== EARLIER IN THIS CONVERSATION ===
+${conversationSummary}
+
+The messages that follow continue from this summary.
+
+`;
+  }
+
   // Add debug info (remove in production)
   if (process.env.NODE_ENV === 'development') {
     console.log('Memory Context for System Prompt:');
@@ -77,11 +95,19 @@ For example:
 
 export const formatMessagesForLangChain = (
   messages: Message[],
-  memoryContext: MemoryContext
+  memoryContext: MemoryContext,
+  summary: ConversationSummary | null = null
 ) => {
-  const systemMessage = new SystemMessage(formatSystemPrompt(memoryContext));
+  const systemMessage = new SystemMessage(formatSystemPrompt(memoryContext, summary?.content));
+
+  // Send as many uncovered turns as fit in the budget. Gemini expects the
+  // conversation to open with a user turn.
+  const recentMessages = fitMessagesToBudget(messagesAfterSummary(messages, summary), HISTORY_TOKEN_BUDGET);
+  while (recentMessages.length > 1 && recentMessages[0].role === 'assistant') {
+    recentMessages.shift();
+  }
   
-  const chatMessages = messages.map(message => {
+  const chatMessages = recentMessages.map(message => {
     if (message.role === 'user') {
       return new HumanMessage(message.content);
     } else {
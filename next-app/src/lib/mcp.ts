@@ -1,4 +1,4 @@
-import { Fact, CreateFact, MemoryContext } from '@/types/fact';
+import { Fact, CreateFact, MemoryContext, FactChangeMeta, FactSource, PushFactResult, Predicate, Entity, GraphQuery, GraphResult } from '@/types/fact';
 
 // MCP Protocol types
 interface MCPRequest {
@@ -40,11 +40,13 @@ interface MCPResourceReadParams extends Record<string, unknown> {
   uri: string;
 }
 
-interface MCPToolResult {
+interface MCPToolResult<T = unknown> {
   content?: Array<{
     type: string;
     text: string;
   }>;
+  structuredContent?: T;
+  isError?: boolean;
 }
 
 interface MCPResourceResult {
@@ -60,21 +62,72 @@ interface CreateFactArguments extends Record<string, unknown> {
   predicate: string;
   object: string;
   userId: string;
+  confidence?: number;
+  source?: FactSource;
+  sourceMessageId?: string;
+  validFrom?: string;
+  validUntil?: string;
+  subjectEntityId?: string;
+  objectEntityId?: string;
+  actor?: string;
+  reason?: string;
+}
+
+interface CreateFactsArguments extends Record<string, unknown> {
+  facts: Omit<CreateFactArguments, 'actor' | 'reason'>[];
+  actor?: string;
+  reason?: string;
 }
 
 interface GetFactsArguments extends Record<string, unknown> {
   userId: string;
 }
 
+interface SearchFactsArguments extends Record<string, unknown> {
+  userId: string;
+  query: string;
+  limit?: number;
+}
+
 interface UpdateFactArguments extends Record<string, unknown> {
   id: string;
   subject?: string;
   predicate?: string;
   object?: string;
+  confidence?: number;
+  source?: FactSource;
+  actor?: string;
+  reason?: string;
 }
 
 interface DeleteFactArguments extends Record<string, unknown> {
   id: string;
+  permanent?: boolean;
+  actor?: string;
+  reason?: string;
+}
+
+interface ListDeletedFactsArguments extends Record<string, unknown> {
+  userId: string;
+  limit?: number;
+}
+
+interface RestoreFactArguments extends Record<string, unknown> {
+  id: string;
+  actor?: string;
+  reason?: string;
+}
+
+interface GetFactHistoryArguments extends Record<string, unknown> {
+  factId: string;
+  limit?: number;
+}
+
+interface PurgeFactsArguments extends Record<string, unknown> {
+  userId: string;
+  ids?: string[];
+  actor?: string;
+  reason?: string;
 }
 
 // Circuit breaker implementation
@@ -130,6 +183,9 @@ class CircuitBreaker {
 
 class MCPClient {
   private serverUrl: string;
+  // Bearer token for the MCP server. The app acts for every signed-in user,
+  // so this should be a key with the memory:admin scope.
+  private apiKey: string | undefined;
   private sessionId: string | null = null;
   private initialized = false;
   private circuitBreaker = new CircuitBreaker();
@@ -139,6 +195,7 @@ class MCPClient {
 
   constructor() {
     this.serverUrl = process.env.MCP_SERVER_URL || 'http://localhost:3001/mcp';
+    this.apiKey = process.env.MCP_API_KEY;
   }
 
   private async sleep(ms: number): Promise<void> {
@@ -209,6 +266,10 @@ class MCPClient {
       'Accept': 'application/json, text/event-stream',
     };
 
+    if (this.apiKey) {
+      headers['Authorization'] = `Bearer ${this.apiKey}`;
+    }
+
     // Include session ID if we have one
     if (this.sessionId) {
       headers['mcp-session-id'] = this.sessionId;
@@ -307,23 +368,69 @@ class MCPClient {
     console.log('🔌 MCP client disconnected');
   }
 
-  async pushFact(fact: CreateFact): Promise<boolean> {
+  private toCreateFactArguments(fact: CreateFact): CreateFactArguments {
+    return {
+      subject: fact.subject,
+      predicate: fact.predicate,
+      object: fact.object,
+      userId: fact.userId,
+      ...(fact.confidence !== undefined && { confidence: fact.confidence }),
+      ...(fact.source && { source: fact.source }),
+      ...(fact.sourceMessageId && { sourceMessageId: fact.sourceMessageId }),
+      ...(fact.validFrom && { validFrom: fact.validFrom }),
+      ...(fact.validUntil && { validUntil: fact.validUntil }),
+      ...(fact.subjectEntityId && { subjectEntityId: fact.subjectEntityId }),
+      ...(fact.objectEntityId && { objectEntityId: fact.objectEntityId }),
+    };
+  }
+
+  async pushFact(fact: CreateFact, meta: FactChangeMeta = {}): Promise<PushFactResult | null> {
     try {
       const toolParams: MCPToolCallParams = {
         name: 'create-fact',
         arguments: {
-          subject: fact.subject,
-          predicate: fact.predicate,
-          object: fact.object,
-          userId: fact.userId,
+          ...this.toCreateFactArguments(fact),
+          ...meta,
         } as CreateFactArguments,
       };
 
-      await this.makeRequestWithRetry<MCPToolResult>('tools/call', toolParams);
-      return true;
+      const result = await this.makeRequestWithRetry<MCPToolResult<PushFactResult>>('tools/call', toolParams);
+
+      if (result.isError || !result.structuredContent) {
+        console.error('❌ MCP server rejected fact:', result.content?.[0]?.text);
+        return null;
+      }
+
+      return result.structuredContent;
     } catch (error) {
       console.error('❌ Error pushing fact to MCP server:', error);
-      return false;
+      return null;
+    }
+  }
+
+  // Push several facts in one atomic write. Returns per-fact results in
+  // input order, or null if the batch was rejected and nothing was saved.
+  async pushFacts(facts: CreateFact[], meta: FactChangeMeta = {}): Promise<PushFactResult[] | null> {
+    try {
+      const toolParams: MCPToolCallParams = {
+        name: 'create-facts',
+        arguments: {
+          facts: facts.map(fact => this.toCreateFactArguments(fact)),
+          ...meta,
+        } as CreateFactsArguments,
+      };
+
+      const result = await this.makeRequestWithRetry<MCPToolResult<{ results: PushFactResult[] }>>('tools/call', toolParams);
+
+      if (result.isError || !result.structuredContent) {
+        console.error('❌ MCP server rejected facts:', result.content?.[0]?.text);
+        return null;
+      }
+
+      return result.structuredContent.results;
+    } catch (error) {
+      console.error('❌ Error pushing facts to MCP server:', error);
+      return null;
     }
   }
 
@@ -357,13 +464,45 @@ class MCPClient {
     }
   }
 
-  async updateFact(factId: string, updatedFact: Partial<Fact>): Promise<boolean> {
+  async searchFacts(userId: string, query: string, limit?: number): Promise<MemoryContext> {
+    try {
+      const toolParams: MCPToolCallParams = {
+        name: 'search-facts',
+        arguments: {
+          userId,
+          query,
+          ...(limit && { limit }),
+        } as SearchFactsArguments,
+      };
+
+      const result = await this.makeRequestWithRetry<MCPToolResult>('tools/call', toolParams);
+
+      const firstContent = result.content?.[0];
+      if (!firstContent || !('text' in firstContent)) {
+        return { userId, facts: [] };
+      }
+
+      const data: { results?: Array<{ fact: Fact; score: number }> } = JSON.parse(firstContent.text);
+      return {
+        userId,
+        facts: (data.results || []).map(result => result.fact),
+      };
+    } catch (error) {
+      console.error('❌ Error searching facts in MCP server:', error);
+      return { userId, facts: [] };
+    }
+  }
+
+  async updateFact(factId: string, updatedFact: Partial<Fact>, meta: FactChangeMeta = {}): Promise<boolean> {
     try {
       const updateArgs: UpdateFactArguments = {
         id: factId,
         ...(updatedFact.subject && { subject: updatedFact.subject }),
         ...(updatedFact.predicate && { predicate: updatedFact.predicate }),
         ...(updatedFact.object && { object: updatedFact.object }),
+        ...(updatedFact.confidence !== undefined && { confidence: updatedFact.confidence }),
+        ...(updatedFact.source && { source: updatedFact.source }),
+        ...meta,
       };
 
       const toolParams: MCPToolCallParams = {
@@ -371,29 +510,189 @@ class MCPClient {
         arguments: updateArgs,
       };
 
-      await this.makeRequestWithRetry<MCPToolResult>('tools/call', toolParams);
-      return true;
+      const result = await this.makeRequestWithRetry<MCPToolResult>('tools/call', toolParams);
+      return !result.isError;
     } catch (error) {
       console.error('❌ Error updating fact in MCP server:', error);
       return false;
     }
   }
 
-  async deleteFact(factId: string): Promise<boolean> {
+  async deleteFact(factId: string, meta: FactChangeMeta = {}): Promise<boolean> {
     try {
       const toolParams: MCPToolCallParams = {
         name: 'delete-fact',
-        arguments: { id: factId } as DeleteFactArguments,
+        arguments: { id: factId, ...meta } as DeleteFactArguments,
       };
 
-      await this.makeRequestWithRetry<MCPToolResult>('tools/call', toolParams);
-      return true;
+      const result = await this.makeRequestWithRetry<MCPToolResult>('tools/call', toolParams);
+      return !result.isError;
     } catch (error) {
       console.error('❌ Error deleting fact from MCP server:', error);
       return false;
     }
   }
 
+  async listDeletedFacts(userId: string, limit?: number): Promise<MemoryContext & { totalCount: number }> {
+    try {
+      const toolParams: MCPToolCallParams = {
+        name: 'list-deleted-facts',
+        arguments: {
+          userId,
+          ...(limit && { limit }),
+        } as ListDeletedFactsArguments,
+      };
+
+      const result = await this.makeRequestWithRetry<MCPToolResult>('tools/call', toolParams);
+
+      const firstContent = result.content?.[0];
+      if (result.isError || !firstContent || !('text' in firstContent)) {
+        return { userId, facts: [], totalCount: 0 };
+      }
+
+      const data: { facts?: Fact[]; totalCount?: number } = JSON.parse(firstContent.text);
+      return {
+        userId,
+        facts: data.facts || [],
+        totalCount: data.totalCount ?? data.facts?.length ?? 0,
+      };
+    } catch (error) {
+      console.error('❌ Error listing deleted facts from MCP server:', error);
+      return { userId, facts: [], totalCount: 0 };
+    }
+  }
+
+  async restoreFact(factId: string, meta: FactChangeMeta = {}): Promise<PushFactResult | null> {
+    try {
+      const toolParams: MCPToolCallParams = {
+        name: 'restore-fact',
+        arguments: { id: factId, ...meta } as RestoreFactArguments,
+      };
+
+      const result = await this.makeRequestWithRetry<MCPToolResult<PushFactResult>>('tools/call', toolParams);
+
+      if (result.isError || !result.structuredContent) {
+        console.error('❌ MCP server could not restore fact:', result.content?.[0]?.text);
+        return null;
+      }
+
+      return result.structuredContent;
+    } catch (error) {
+      console.error('❌ Error restoring fact in MCP server:', error);
+      return null;
+    }
+  }
+
+  async purgeFacts(userId: string, factIds?: string[], meta: FactChangeMeta = {}): Promise<boolean> {
+    try {
+      const toolParams: MCPToolCallParams = {
+        name: 'purge-facts',
+        arguments: {
+          userId,
+          ...(factIds && { ids: factIds }),
+          ...meta,
+        } as PurgeFactsArguments,
+      };
+
+      const result = await this.makeRequestWithRetry<MCPToolResult>('tools/call', toolParams);
+      return !result.isError;
+    } catch (error) {
+      console.error('❌ Error purging facts in MCP server:', error);
+      return false;
+    }
+  }
+
+  // The user a fact belongs to, read from its history so that trashed facts
+  // resolve too. Null when the fact is unknown or the lookup fails.
+  async getFactOwner(factId: string): Promise<string | null> {
+    try {
+      const toolParams: MCPToolCallParams = {
+        name: 'get-fact-history',
+        arguments: { factId, limit: 1 } as GetFactHistoryArguments,
+      };
+
+      const result = await this.makeRequestWithRetry<MCPToolResult>('tools/call', toolParams);
+
+      const firstContent = result.content?.[0];
+      if (result.isError || !firstContent || !('text' in firstContent)) {
+        return null;
+      }
+
+      const data: { revisions?: Array<{ userId: string }> } = JSON.parse(firstContent.text);
+      return data.revisions?.[0]?.userId || null;
+    } catch (error) {
+      console.error('❌ Error looking up fact owner in MCP server:', error);
+      return null;
+    }
+  }
+
+  // The server's predicate vocabulary; empty when it cannot be read
+  async listPredicates(): Promise<Predicate[]> {
+    try {
+      const toolParams: MCPToolCallParams = {
+        name: 'list-predicates',
+        arguments: {},
+      };
+
+      const result = await this.makeRequestWithRetry<MCPToolResult<{ predicates: Predicate[] }>>('tools/call', toolParams);
+
+      if (result.isError || !result.structuredContent) {
+        console.error('❌ MCP server could not list predicates:', result.content?.[0]?.text);
+        return [];
+      }
+
+      return result.structuredContent.predicates;
+    } catch (error) {
+      console.error('❌ Error listing predicates from MCP server:', error);
+      return [];
+    }
+  }
+
+  // The people, places and things the user's facts are about; empty when
+  // they cannot be read
+  async listEntities(userId: string): Promise<Entity[]> {
+    try {
+      const toolParams: MCPToolCallParams = {
+        name: 'list-entities',
+        arguments: { userId },
+      };
+
+      const result = await this.makeRequestWithRetry<MCPToolResult<{ entities: Entity[] }>>('tools/call', toolParams);
+
+      if (result.isError || !result.structuredContent) {
+        console.error('❌ MCP server could not list entities:', result.content?.[0]?.text);
+        return [];
+      }
+
+      return result.structuredContent.entities;
+    } catch (error) {
+      console.error('❌ Error listing entities from MCP server:', error);
+      return [];
+    }
+  }
+
+  // Traverse the user's facts as a graph; null when the query failed
+  async queryGraph(userId: string, query: GraphQuery): Promise<GraphResult | null> {
+    try {
+      const toolParams: MCPToolCallParams = {
+        name: 'query-graph',
+        arguments: { userId, ...query },
+      };
+
+      const result = await this.makeRequestWithRetry<MCPToolResult<GraphResult>>('tools/call', toolParams);
+
+      if (result.isError || !result.structuredContent) {
+        console.error('❌ MCP server rejected graph query:', result.content?.[0]?.text);
+        return null;
+      }
+
+      return result.structuredContent;
+    } catch (error) {
+      console.error('❌ Error querying graph in MCP server:', error);
+      return null;
+    }
+  }
+
   async getMemoryContextAsResource(userId: string): Promise<MemoryContext> {
     try {
       const resourceParams: MCPResourceReadParams = {
@@ -449,10 +748,19 @@ class MCPClient {
 const mcpClient = new MCPClient();
 
 // Export the methods
-export const pushFact = (fact: CreateFact): Promise<boolean> => mcpClient.pushFact(fact);
+export const pushFact = (fact: CreateFact, meta?: FactChangeMeta): Promise<PushFactResult | null> => mcpClient.pushFact(fact, meta);
+export const pushFacts = (facts: CreateFact[], meta?: FactChangeMeta): Promise<PushFactResult[] | null> => mcpClient.pushFacts(facts, meta);
 export const getMemoryContext = (userId: string): Promise<MemoryContext> => mcpClient.getMemoryContext(userId);
-export const updateFact = (factId: string, updatedFact: Partial<Fact>): Promise<boolean> => mcpClient.updateFact(factId, updatedFact);
-export const deleteFact = (factId: string): Promise<boolean> => mcpClient.deleteFact(factId);
+export const searchFacts = (userId: string, query: string, limit?: number): Promise<MemoryContext> => mcpClient.searchFacts(userId, query, limit);
+export const updateFact = (factId: string, updatedFact: Partial<Fact>, meta?: FactChangeMeta): Promise<boolean> => mcpClient.updateFact(factId, updatedFact, meta);
+export const deleteFact = (factId: string, meta?: FactChangeMeta): Promise<boolean> => mcpClient.deleteFact(factId, meta);
+export const listDeletedFacts = (userId: string, limit?: number): Promise<MemoryContext & { totalCount: number }> => mcpClient.listDeletedFacts(userId, limit);
+export const restoreFact = (factId: string, meta?: FactChangeMeta): Promise<PushFactResult | null> => mcpClient.restoreFact(factId, meta);
+export const purgeFacts = (userId: string, factIds?: string[], meta?: FactChangeMeta): Promise<boolean> => mcpClient.purgeFacts(userId, factIds, meta);
+export const getFactOwner = (factId: string): Promise<string | null> => mcpClient.getFactOwner(factId);
+export const listPredicates = (): Promise<Predicate[]> => mcpClient.listPredicates();
+export const listEntities = (userId: string): Promise<Entity[]> => mcpClient.listEntities(userId);
+export const queryGraph = (userId: string, query: GraphQuery): Promise<GraphResult | null> => mcpClient.queryGraph(userId, query);
 
 // Export client instance for advanced usage
 export { mcpClient };
@@ -0,0 +1,143 @@
+import { Fact, LOW_CONFIDENCE_THRESHOLD } from '@/types/fact';
+import { Message } from '@/types/message';
+import { estimateTokens, tokenBudgetFromEnv } from '@/lib/tokens';
+
+// Picks the facts worth injecting into the prompt: each fact is scored
+// against the current message and the recent turns, then the best ones are
+// packed into a token budget.
+
+export const MEMORY_TOKEN_BUDGET = tokenBudgetFromEnv('MEMORY_TOKEN_BUDGET', 800);
+
+// Turns before the current message that count towards relevance
+const RECENT_TURNS = 6;
+
+// Facts lose half their recency score every 90 days
+const RECENCY_HALF_LIFE_DAYS = 90;
+
+const WEIGHTS = {
+  overlap: 0.5,
+  importance: 0.2,
+  recency: 0.2,
+  confidence: 0.1,
+};
+
+// Who the user is matters in most conversations, whatever the topic
+const PREDICATE_IMPORTANCE: Record<string, number> = {
+  name: 1,
+  is_named: 1,
+  preferred_name: 1,
+  age: 0.7,
+  lives_in: 0.8,
+  works_as: 0.8,
+  works_at: 0.7,
+  language: 0.7,
+  speaks: 0.7,
+  pronouns: 0.9,
+  allergic_to: 0.9,
+  dietary_restriction: 0.8,
+};
+const DEFAULT_IMPORTANCE = 0.3;
+
+const STOP_WORDS = new Set([
+  'the', 'and', 'for', 'are', 'but', 'not', 'you', 'your', 'with', 'have', 'has', 'had', 'this', 'that',
+  'what', 'when', 'where', 'who', 'how', 'why', 'can', 'could', 'would', 'should', 'will', 'was', 'were',
+  'been', 'from', 'about', 'into', 'its', 'our', 'out', 'there', 'their', 'they', 'them', 'then', 'than',
+  'just', 'like', 'some', 'any', 'all', 'get', 'got', 'did', 'does', 'doing', 'user',
+]);
+
+export interface MemorySelection {
+  // Included facts, most relevant first
+  facts: Fact[];
+  scores: Record<string, number>;
+  // Facts left out because they did not fit in the budget
+  omitted: number;
+  tokens: number;
+  budget: number;
+}
+
+export interface MemoryQuery {
+  message: string;
+  recentMessages?: Message[];
+  budget?: number;
+  now?: Date;
+}
+
+// Lowercased words without stop words and a trailing plural "s"
+const terms = (text: string): string[] => text
+  .toLowerCase()
+  .split(/[^\p{L}\p{N}]+/u)
+  .filter(word => word.length > 2 && !STOP_WORDS.has(word))
+  .map(word => (word.length > 3 && word.endsWith('s') && !word.endsWith('ss') ? word.slice(0, -1) : word));
+
+// The line a fact takes up in the system prompt, also used for token costs
+export const formatFactLabel = (fact: Fact): string => {
+  let label = fact.object;
+  if (fact.validUntil) {
+    label += ` (until ${new Date(fact.validUntil).toLocaleDateString()})`;
+  }
+  if (fact.confidence !== undefined && fact.confidence < LOW_CONFIDENCE_THRESHOLD) {
+    label += ' (unconfirmed)';
+  }
+  return label;
+};
+
+export const formatPredicateLabel = (predicate: string): string =>
+  predicate.replace(/_/g, ' ').replace(/\b\w/g, l => l.toUpperCase());
+
+const factTokens = (fact: Fact) =>
+  estimateTokens(`• ${formatPredicateLabel(fact.predicate)}: ${formatFactLabel(fact)}\n`);
+
+export const scoreFact = (fact: Fact, queryWeights: Map<string, number>, now: Date): number => {
+  const factTerms = [...new Set(terms(`${fact.subject === 'user' ? '' : fact.subject} ${fact.predicate} ${fact.object}`))];
+  const overlap = factTerms.length === 0
+    ? 0
+    : Math.min(1, factTerms.reduce((sum, term) => sum + (queryWeights.get(term) || 0), 0) / Math.min(factTerms.length, 3));
+
+  const importance = PREDICATE_IMPORTANCE[fact.predicate] ?? DEFAULT_IMPORTANCE;
+
+  const ageDays = fact.timestamp
+    ? Math.max(0, (now.getTime() - new Date(fact.timestamp).getTime()) / (24 * 60 * 60 * 1000))
+    : RECENCY_HALF_LIFE_DAYS;
+  const recency = Math.pow(0.5, ageDays / RECENCY_HALF_LIFE_DAYS);
+
+  const confidence = fact.confidence ?? 1;
+
+  return WEIGHTS.overlap * overlap
+    + WEIGHTS.importance * importance
+    + WEIGHTS.recency * recency
+    + WEIGHTS.confidence * confidence;
+};
+
+export const buildMemoryContext = (facts: Fact[], query: MemoryQuery): MemorySelection => {
+  const budget = query.budget ?? MEMORY_TOKEN_BUDGET;
+  const now = query.now ?? new Date();
+
+  // Words of the current message count fully, those of recent turns half
+  const queryWeights = new Map<string, number>();
+  for (const message of (query.recentMessages || []).slice(-RECENT_TURNS)) {
+    for (const term of terms(message.content)) {
+      queryWeights.set(term, Math.max(queryWeights.get(term) || 0, 0.5));
+    }
+  }
+  for (const term of terms(query.message)) {
+    queryWeights.set(term, 1);
+  }
+
+  const scored = facts
+    .map(fact => ({ fact, score: scoreFact(fact, queryWeights, now), tokens: factTokens(fact) }))
+    .sort((a, b) => b.score - a.score);
+
+  // Greedy packing: a fact that does not fit leaves room for smaller ones
+  const selection: MemorySelection = { facts: [], scores: {}, omitted: 0, tokens: 0, budget };
+  for (const { fact, score, tokens } of scored) {
+    if (selection.tokens + tokens > budget) {
+      selection.omitted++;
+      continue;
+    }
+    selection.facts.push(fact);
+    selection.scores[fact.id] = Math.round(score * 1000) / 1000;
+    selection.tokens += tokens;
+  }
+
+  return selection;
+};
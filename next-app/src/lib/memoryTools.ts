@@ -0,0 +1,176 @@
+import { tool, StructuredToolInterface } from '@langchain/core/tools';
+import { z } from 'zod';
+import { pushFact, updateFact, deleteFact, getMemoryContext, searchFacts, getFactOwner, queryGraph } from '@/lib/mcp';
+import { Fact, GraphNode, GraphResult } from '@/types/fact';
+
+// The MCP server's fact tools, bound to the chat model so it can remember,
+// correct or forget things when the user asks it to. The user is fixed by
+// the session; the model never gets to pick whose facts it touches.
+
+interface MemoryToolOptions {
+  // The user message the reply answers, recorded as the source of new facts
+  sourceMessageId?: string;
+}
+
+const CHANGE_META = { actor: 'assistant', reason: 'Asked to during chat' };
+
+// Argument hints live in the tool descriptions: LangChain converts the
+// schemas with its own zod copy, which drops .describe() from ours
+
+// What the model sees of a fact: enough to refer back to it by ID
+const describeFact = (fact: Fact) => ({
+  id: fact.id,
+  subject: fact.subject,
+  predicate: fact.predicate,
+  object: fact.object,
+  ...(fact.validUntil && { validUntil: fact.validUntil }),
+});
+
+// What the model sees of a graph result: node names and the facts joining them
+const describeGraphResult = (result: GraphResult) => {
+  const nodeName = (node: GraphNode) => node.name;
+  return {
+    ...(result.nodes && { nodes: result.nodes.map(nodeName) }),
+    ...(result.facts && { facts: result.facts.map(describeFact) }),
+    ...(result.paths && {
+      paths: result.paths.map(path => ({ nodes: path.nodes.map(nodeName), facts: path.facts.map(describeFact) })),
+    }),
+    ...(result.matches && {
+      matches: result.matches.map(match => ({
+        bindings: Object.fromEntries(Object.entries(match.bindings).map(([variable, node]) => [variable, nodeName(node)])),
+        facts: match.facts.map(describeFact),
+      })),
+    }),
+    ...(result.truncated && { truncated: true }),
+  };
+};
+
+export const createMemoryTools = (userId: string, options: MemoryToolOptions = {}): StructuredToolInterface[] => {
+  // Updates and deletes only go through for the user's own facts
+  const ownsFact = async (factId: string) => (await getFactOwner(factId)) === userId;
+
+  const createFactTool = tool(
+    async ({ subject, predicate, object, validUntil }) => {
+      const result = await pushFact(
+        {
+          subject: subject || 'user',
+          predicate,
+          object,
+          userId,
+          source: 'extracted',
+          ...(options.sourceMessageId && { sourceMessageId: options.sourceMessageId }),
+          ...(validUntil && { validUntil }),
+        },
+        CHANGE_META
+      );
+      if (!result) {
+        return JSON.stringify({ error: 'Failed to save the fact' });
+      }
+      return JSON.stringify({
+        fact: describeFact(result.fact),
+        superseded: result.superseded.map(describeFact),
+      });
+    },
+    {
+      name: 'create-fact',
+      description: 'Remember a new fact about the user. Use when the user asks you to remember something or shares a lasting personal detail. '
+        + 'subject is who the fact is about (defaults to "user"), predicate a snake_case relationship such as lives_in, works_as or likes, '
+        + 'object the value such as "Berlin", and validUntil an optional ISO timestamp after which a temporary fact no longer holds.',
+      schema: z.object({
+        subject: z.string().optional(),
+        predicate: z.string(),
+        object: z.string(),
+        validUntil: z.string().optional(),
+      }),
+    }
+  );
+
+  const updateFactTool = tool(
+    async ({ id, subject, predicate, object }) => {
+      if (!(await ownsFact(id))) {
+        return JSON.stringify({ error: `No fact with ID ${id}` });
+      }
+      const success = await updateFact(
+        id,
+        { ...(subject && { subject }), ...(predicate && { predicate }), ...(object && { object }) },
+        CHANGE_META
+      );
+      return JSON.stringify(success ? { updated: id } : { error: 'Failed to update the fact' });
+    },
+    {
+      name: 'update-fact',
+      description: 'Correct a fact you remember about the user. Look up its id with get-facts first and pass only the fields that change.',
+      schema: z.object({
+        id: z.string(),
+        subject: z.string().optional(),
+        predicate: z.string().optional(),
+        object: z.string().optional(),
+      }),
+    }
+  );
+
+  const deleteFactTool = tool(
+    async ({ id }) => {
+      if (!(await ownsFact(id))) {
+        return JSON.stringify({ error: `No fact with ID ${id}` });
+      }
+      // Moves the fact to the trash, where the user can still restore it
+      const success = await deleteFact(id, CHANGE_META);
+      return JSON.stringify(success ? { deleted: id } : { error: 'Failed to forget the fact' });
+    },
+    {
+      name: 'delete-fact',
+      description: 'Forget a fact about the user, e.g. when they say "forget that I live in Berlin". Look up its id with get-facts first.',
+      schema: z.object({
+        id: z.string(),
+      }),
+    }
+  );
+
+  const getFactsTool = tool(
+    async ({ query }) => {
+      const context = query ? await searchFacts(userId, query) : await getMemoryContext(userId);
+      return JSON.stringify({ facts: context.facts.map(describeFact) });
+    },
+    {
+      name: 'get-facts',
+      description: 'List the facts you remember about the user, with their ids. Pass a query such as "Berlin" to search them instead.',
+      schema: z.object({
+        query: z.string().optional(),
+      }),
+    }
+  );
+
+  const queryGraphTool = tool(
+    async (query) => {
+      const result = await queryGraph(userId, query);
+      if (!result) {
+        return JSON.stringify({ error: 'The query failed; check the names and predicates with get-facts' });
+      }
+      return JSON.stringify(describeGraphResult(result));
+    },
+    {
+      name: 'query-graph',
+      description: 'Answer questions that connect several facts, such as "where does my sister\'s husband work?". '
+        + 'mode "path" follows predicates hop by hop from entity (default the user): predicates ["has_sibling", "married_to", "works_at"]; '
+        + 'prefix a predicate with ^ to follow it backwards ("^married_to" finds who is married to someone), or pass to instead to find how two entities are connected. '
+        + 'mode "neighborhood" returns everything within depth (1-4) hops of entity. '
+        + 'mode "pattern" matches patterns, triples of subject, predicate and object where terms starting with ? are variables, '
+        + 'e.g. [{"subject": "user", "predicate": "has_sibling", "object": "?s"}, {"subject": "?s", "predicate": "lives_in", "object": "?city"}].',
+      schema: z.object({
+        mode: z.enum(['neighborhood', 'path', 'pattern']),
+        entity: z.string().optional(),
+        predicates: z.array(z.string()).optional(),
+        to: z.string().optional(),
+        patterns: z.array(z.object({
+          subject: z.string(),
+          predicate: z.string(),
+          object: z.string(),
+        })).optional(),
+        depth: z.number().optional(),
+      }),
+    }
+  );
+
+  return [createFactTool, updateFactTool, deleteFactTool, getFactsTool, queryGraphTool];
+};
@@ -0,0 +1,17 @@
+import { ChatGoogleGenerativeAI } from '@langchain/google-genai';
+import { ModelSettings } from './types';
+
+const DEFAULT_GEMINI_MODEL = 'gemini-2.0-flash-exp';
+
+export const createGeminiModel = (settings: ModelSettings) => {
+  if (!process.env.GEMINI_API_KEY) {
+    throw new Error('GEMINI_API_KEY environment variable is not set');
+  }
+
+  return new ChatGoogleGenerativeAI({
+    model: settings.model || DEFAULT_GEMINI_MODEL,
+    apiKey: process.env.GEMINI_API_KEY,
+    temperature: settings.temperature,
+    streaming: settings.streaming,
+  });
+};
@@ -0,0 +1,55 @@
+import { afterEach, describe, expect, test } from 'bun:test';
+import { ChatOpenAI } from '@langchain/openai';
+import { createModel } from '@/lib/models';
+import { MockChatModel } from '@/lib/models/mock';
+
+const ENV_KEYS = [
+  'CHAT_MODEL_PROVIDER', 'EXTRACTION_MODEL_PROVIDER', 'OPENAI_API_KEY', 'OPENAI_BASE_URL',
+  'EXTRACTION_OPENAI_BASE_URL', 'EXTRACTION_OPENAI_API_KEY',
+];
+const savedEnv = Object.fromEntries(ENV_KEYS.map(key => [key, process.env[key]]));
+
+// The client options are protected on ChatOpenAI
+const baseURLOf = (model: ChatOpenAI) => (model as unknown as { clientConfig: { baseURL?: string } }).clientConfig.baseURL;
+
+afterEach(() => {
+  for (const key of ENV_KEYS) {
+    if (savedEnv[key] === undefined) delete process.env[key];
+    else process.env[key] = savedEnv[key];
+  }
+});
+
+describe('createModel', () => {
+  test('uses the provider configured for the use case', () => {
+    process.env.EXTRACTION_MODEL_PROVIDER = 'openai';
+    process.env.OPENAI_API_KEY = 'sk-test';
+
+    expect(createModel('chat')).toBeInstanceOf(MockChatModel);
+    expect(createModel('extraction')).toBeInstanceOf(ChatOpenAI);
+  });
+
+  test('gives a use case its own OpenAI-compatible server', () => {
+    process.env.CHAT_MODEL_PROVIDER = 'openai';
+    process.env.EXTRACTION_MODEL_PROVIDER = 'openai';
+    process.env.OPENAI_API_KEY = 'sk-hosted';
+    process.env.EXTRACTION_OPENAI_BASE_URL = 'http://localhost:8080/v1';
+
+    const chat = createModel('chat') as ChatOpenAI;
+    const extraction = createModel('extraction') as ChatOpenAI;
+
+    expect(baseURLOf(chat)).toBeUndefined();
+    expect(chat.apiKey).toBe('sk-hosted');
+    expect(baseURLOf(extraction)).toBe('http://localhost:8080/v1');
+    // The OpenAI key stays with OpenAI
+    expect(extraction.apiKey).toBe('not-needed');
+  });
+
+  test('sends a use case\'s own key to its own server', () => {
+    process.env.EXTRACTION_MODEL_PROVIDER = 'openai';
+    process.env.OPENAI_API_KEY = 'sk-hosted';
+    process.env.EXTRACTION_OPENAI_BASE_URL = 'https://llm.example.com/v1';
+    process.env.EXTRACTION_OPENAI_API_KEY = 'sk-example';
+
+    expect((createModel('extraction') as ChatOpenAI).apiKey).toBe('sk-example');
+  });
+});
@@ -0,0 +1,54 @@
+import { BaseChatModel } from '@langchain/core/language_models/chat_models';
+import { ModelProvider, ModelSettings, ModelUseCase, MODEL_PROVIDERS } from './types';
+import { createGeminiModel } from './gemini';
+import { createOpenAIModel } from './openai';
+import { createMockModel } from './mock';
+
+export type { ModelProvider, ModelUseCase } from './types';
+
+const ENV_PREFIXES: Record<ModelUseCase, string> = {
+  chat: 'CHAT',
+  extraction: 'EXTRACTION',
+  summary: 'SUMMARY',
+};
+
+const USE_CASE_DEFAULTS: Record<ModelUseCase, Omit<ModelSettings, 'useCase' | 'model'>> = {
+  chat: { temperature: 0.7, streaming: true },
+  extraction: { temperature: 0.1, streaming: false },
+  summary: { temperature: 0.2, streaming: false },
+};
+
+const PROVIDERS: Record<ModelProvider, (settings: ModelSettings) => BaseChatModel> = {
+  gemini: createGeminiModel,
+  openai: createOpenAIModel,
+  mock: createMockModel,
+};
+
+// CHAT_MODEL_PROVIDER, EXTRACTION_MODEL_PROVIDER and SUMMARY_MODEL_PROVIDER
+// pick the provider per use case, falling back to MODEL_PROVIDER and then
+// Gemini. CHAT_MODEL etc. name the model, or the provider's default is used.
+// CHAT_OPENAI_BASE_URL and CHAT_OPENAI_API_KEY etc. point one use case at its
+// own OpenAI-compatible server instead of OPENAI_BASE_URL and OPENAI_API_KEY.
+const resolveProvider = (useCase: ModelUseCase): ModelProvider => {
+  const configured = process.env[`${ENV_PREFIXES[useCase]}_MODEL_PROVIDER`] || process.env.MODEL_PROVIDER || 'gemini';
+  if (!MODEL_PROVIDERS.includes(configured as ModelProvider)) {
+    throw new Error(`Unknown model provider "${configured}", expected ${MODEL_PROVIDERS.join(', ')}`);
+  }
+  return configured as ModelProvider;
+};
+
+export const createModel = (useCase: ModelUseCase): BaseChatModel => {
+  const provider = resolveProvider(useCase);
+  const prefix = ENV_PREFIXES[useCase];
+  const model = process.env[`${prefix}_MODEL`];
+  const openAIBaseURL = process.env[`${prefix}_OPENAI_BASE_URL`];
+  const openAIApiKey = process.env[`${prefix}_OPENAI_API_KEY`];
+
+  return PROVIDERS[provider]({
+    useCase,
+    ...USE_CASE_DEFAULTS[useCase],
+    ...(model && { model }),
+    ...(openAIBaseURL && { openAIBaseURL }),
+    ...(openAIApiKey && { openAIApiKey }),
+  });
+};
@@ -0,0 +1,133 @@
+import { readFileSync } from 'fs';
+import { BaseChatModel } from '@langchain/core/language_models/chat_models';
+import { AIMessage, AIMessageChunk, BaseMessage } from '@langchain/core/messages';
+import { ChatGenerationChunk, ChatResult } from '@langchain/core/outputs';
+import { fillPrompt } from '@/lib/prompts';
+import { ModelSettings, ModelUseCase } from './types';
+
+// A scripted model that answers without any network, for running the app
+// offline and for tests. MOCK_MODEL_SCRIPT may point at a JSON file with
+// replies per use case:
+//
+//   {
+//     "chat": [
+//       { "match": "forget", "toolCalls": [{ "name": "get-facts", "args": {} }], "content": "Done, I forgot that." },
+//       { "content": "You said: {message}" }
+//     ],
+//     "extraction": [{ "content": "{\"operations\": []}" }]
+//   }
+//
+// The first reply whose `match` (a case-insensitive regex) fits the latest
+// user message is used; a reply without `match` fits every message.
+// `{message}` in the content is replaced with that message. A reply with
+// tool calls makes them first and answers with its content once the tool
+// results are in.
+
+interface MockToolCall {
+  name: string;
+  args: Record<string, unknown>;
+}
+
+interface MockReply {
+  match?: string;
+  content: string;
+  toolCalls?: MockToolCall[];
+}
+
+type MockScript = Partial<Record<ModelUseCase, MockReply[]>>;
+
+// Used when the script has nothing that fits
+const DEFAULT_REPLIES: Record<ModelUseCase, string> = {
+  chat: 'You said: {message}',
+  extraction: '{"operations": []}',
+  summary: 'The user and the assistant talked about: {message}',
+};
+
+let loadedScript: MockScript | null = null;
+
+const loadScript = (): MockScript => {
+  if (!loadedScript) {
+    const path = process.env.MOCK_MODEL_SCRIPT;
+    loadedScript = path ? JSON.parse(readFileSync(path, 'utf8')) as MockScript : {};
+  }
+  return loadedScript;
+};
+
+export class MockChatModel extends BaseChatModel {
+  private useCase: ModelUseCase;
+  private replies: MockReply[];
+  private toolCallCount = 0;
+
+  constructor(useCase: ModelUseCase, replies: MockReply[]) {
+    super({});
+    this.useCase = useCase;
+    this.replies = replies;
+  }
+
+  _llmType(): string {
+    return 'mock';
+  }
+
+  // Tool calls come from the script, so the tools themselves are not needed
+  bindTools() {
+    return this;
+  }
+
+  private reply(messages: BaseMessage[]): { content: string; toolCalls: MockToolCall[] } {
+    const lastUserMessage = [...messages].reverse().find(message => message.getType() === 'human');
+    const text = lastUserMessage?.text || '';
+
+    const reply = this.replies.find(candidate => !candidate.match || new RegExp(candidate.match, 'i').test(text));
+    const content = fillPrompt(reply?.content ?? DEFAULT_REPLIES[this.useCase], { message: text });
+
+    // Answer once the tool results of the previous round are in
+    const afterTools = messages[messages.length - 1]?.getType() === 'tool';
+    return { content, toolCalls: afterTools ? [] : reply?.toolCalls || [] };
+  }
+
+  private nextToolCallId(): string {
+    this.toolCallCount++;
+    return `mock-call-${this.toolCallCount}`;
+  }
+
+  async _generate(messages: BaseMessage[]): Promise<ChatResult> {
+    const { content, toolCalls } = this.reply(messages);
+    if (toolCalls.length > 0) {
+      const message = new AIMessage({
+        content: '',
+        tool_calls: toolCalls.map(call => ({ ...call, id: this.nextToolCallId(), type: 'tool_call' as const })),
+      });
+      return { generations: [{ text: '', message }] };
+    }
+
+    return { generations: [{ text: content, message: new AIMessage(content) }] };
+  }
+
+  async *_streamResponseChunks(messages: BaseMessage[]): AsyncGenerator<ChatGenerationChunk> {
+    const { content, toolCalls } = this.reply(messages);
+    if (toolCalls.length > 0) {
+      yield new ChatGenerationChunk({
+        text: '',
+        message: new AIMessageChunk({
+          content: '',
+          tool_call_chunks: toolCalls.map((call, index) => ({
+            name: call.name,
+            args: JSON.stringify(call.args),
+            id: this.nextToolCallId(),
+            index,
+            type: 'tool_call_chunk' as const,
+          })),
+        }),
+      });
+      return;
+    }
+
+    // Word by word, like a real model streaming tokens
+    for (const token of content.match(/\S+\s*|\s+/g) || []) {
+      yield new ChatGenerationChunk({ text: token, message: new AIMessageChunk(token) });
+    }
+  }
+}
+
+export const createMockModel = (settings: ModelSettings) =>
+  new MockChatModel(settings.useCase, loadScript()[settings.useCase] || []);
@@ -0,0 +1,28 @@
+import { ChatOpenAI } from '@langchain/openai';
+import { ModelSettings } from './types';
+
+const DEFAULT_OPENAI_MODEL = 'gpt-4o-mini';
+
+// Works with the OpenAI API and anything speaking its protocol, such as a
+// local llama.cpp or Ollama server (OPENAI_BASE_URL=http://localhost:11434/v1)
+export const createOpenAIModel = (settings: ModelSettings) => {
+  const baseURL = settings.openAIBaseURL || process.env.OPENAI_BASE_URL;
+
+  // A use case with its own server only gets its own key, so that the
+  // OpenAI key is never sent elsewhere. Local servers usually ignore the key
+  // but the client insists on one.
+  const apiKey = settings.openAIBaseURL
+    ? settings.openAIApiKey || 'not-needed'
+    : settings.openAIApiKey || process.env.OPENAI_API_KEY || (baseURL ? 'not-needed' : undefined);
+  if (!apiKey) {
+    throw new Error('OPENAI_API_KEY environment variable is not set');
+  }
+
+  return new ChatOpenAI({
+    model: settings.model || process.env.OPENAI_MODEL || DEFAULT_OPENAI_MODEL,
+    apiKey,
+    temperature: settings.temperature,
+    streaming: settings.streaming,
+    ...(baseURL && { configuration: { baseURL } }),
+  });
+};
@@ -0,0 +1,18 @@
+export type ModelProvider = 'gemini' | 'openai' | 'mock';
+
+export const MODEL_PROVIDERS: ModelProvider[] = ['gemini', 'openai', 'mock'];
+
+// Each use case picks its provider and model separately, so extraction can
+// run on a small local model while chat uses a hosted one
+export type ModelUseCase = 'chat' | 'extraction' | 'summary';
+
+export interface ModelSettings {
+  useCase: ModelUseCase;
+  model?: string;
+  temperature: number;
+  streaming: boolean;
+  // OpenAI-compatible endpoint and key for this use case, so chat can use
+  // the hosted API while extraction runs on a local server
+  openAIBaseURL?: string;
+  openAIApiKey?: string;
+}
@@ -0,0 +1,6 @@
+// Fill {name} placeholders in a prompt template in one pass with a replacer
+// function, so "$&" in a value is kept as written and a placeholder inside
+// one value (a "{turns}" in an earlier summary) is not filled in again.
+// Unknown placeholders are left alone.
+export const fillPrompt = (template: string, values: Record<string, string>): string =>
+  template.replace(/\{(\w+)\}/g, (placeholder, name: string) => values[name] ?? placeholder);
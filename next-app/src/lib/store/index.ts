@@ -0,0 +1,103 @@
+import { Message, CreateMessage } from '@/types/message';
+import { Conversation, UpdateConversation, ConversationSummary, DEFAULT_CONVERSATION_TITLE } from '@/types/conversation';
+import { ExtractionFailure } from '@/types/extraction';
+import { MessageStore } from './types';
+import { RedisMessageStore, upstashCommands, ioredisCommands } from './redis';
+import { memoryCommands } from './memory';
+import { SqliteMessageStore } from './sqlite';
+
+export { MESSAGES_PER_CONVERSATION, EXTRACTION_FAILURES_PER_USER } from './types';
+export type { MessageStore, StoredUser } from './types';
+
+type MessageStoreKind = 'upstash' | 'redis' | 'sqlite' | 'memory';
+
+const DEFAULT_SQLITE_PATH = './data/memory-mind.db';
+
+// MESSAGE_STORE picks the backend. Without it, Upstash is used when its
+// credentials are set, then REDIS_URL, and SQLite otherwise.
+const resolveStoreKind = (): MessageStoreKind => {
+  const configured = process.env.MESSAGE_STORE;
+  if (configured) {
+    if (!['upstash', 'redis', 'sqlite', 'memory'].includes(configured)) {
+      throw new Error(`Unknown MESSAGE_STORE "${configured}", expected upstash, redis, sqlite or memory`);
+    }
+    return configured as MessageStoreKind;
+  }
+
+  if (process.env.UPSTASH_REDIS_REST_URL && process.env.UPSTASH_REDIS_REST_TOKEN) return 'upstash';
+  if (process.env.REDIS_URL) return 'redis';
+  return 'sqlite';
+};
+
+const createMessageStore = (kind: MessageStoreKind): MessageStore => {
+  switch (kind) {
+    case 'upstash':
+      if (!process.env.UPSTASH_REDIS_REST_URL || !process.env.UPSTASH_REDIS_REST_TOKEN) {
+        throw new Error('Redis environment variables are not set');
+      }
+      return new RedisMessageStore(upstashCommands(process.env.UPSTASH_REDIS_REST_URL, process.env.UPSTASH_REDIS_REST_TOKEN));
+
+    case 'redis':
+      if (!process.env.REDIS_URL) {
+        throw new Error('REDIS_URL is not set');
+      }
+      return new RedisMessageStore(ioredisCommands(process.env.REDIS_URL));
+
+    case 'sqlite':
+      return new SqliteMessageStore(process.env.SQLITE_PATH || DEFAULT_SQLITE_PATH);
+
+    case 'memory':
+      return new RedisMessageStore(memoryCommands());
+  }
+};
+
+// Kept on globalThis so dev-server reloads reuse the same connection (and
+// the same data, for the in-memory store)
+const globalForStore = globalThis as { messageStore?: MessageStore };
+
+export const getMessageStore = (): MessageStore => {
+  if (!globalForStore.messageStore) {
+    const kind = resolveStoreKind();
+    globalForStore.messageStore = createMessageStore(kind);
+    console.log(`💾 Using ${kind} message store`);
+  }
+
+  return globalForStore.messageStore;
+};
+
+export const saveMessage = (userId: string, messageData: CreateMessage): Promise<Message> =>
+  getMessageStore().saveMessage(userId, messageData);
+
+export const getMessages = (conversationId: string, limit: number = 50): Promise<Message[]> =>
+  getMessageStore().getMessages(conversationId, limit);
+
+export const publishMessage = (userId: string, message: Message): Promise<void> =>
+  getMessageStore().publishMessage(userId, message);
+
+export const createConversation = (userId: string, title?: string): Promise<Conversation> =>
+  getMessageStore().createConversation(userId, title || DEFAULT_CONVERSATION_TITLE);
+
+export const getConversation = (userId: string, conversationId: string): Promise<Conversation | null> =>
+  getMessageStore().getConversation(userId, conversationId);
+
+export const listConversations = (userId: string, includeArchived: boolean = false): Promise<Conversation[]> =>
+  getMessageStore().listConversations(userId, includeArchived);
+
+export const updateConversation = (userId: string, conversationId: string, updates: UpdateConversation): Promise<Conversation | null> =>
+  getMessageStore().updateConversation(userId, conversationId, updates);
+
+// Removes the conversation and its messages; facts learned from it are kept
+export const deleteConversation = (userId: string, conversationId: string): Promise<boolean> =>
+  getMessageStore().deleteConversation(userId, conversationId);
+
+export const getConversationSummary = (conversationId: string): Promise<ConversationSummary | null> =>
+  getMessageStore().getSummary(conversationId);
+
+export const saveConversationSummary = (summary: ConversationSummary): Promise<void> =>
+  getMessageStore().saveSummary(summary);
+
+export const recordExtractionFailure = (failure: ExtractionFailure): Promise<void> =>
+  getMessageStore().recordExtractionFailure(failure);
+
+export const listExtractionFailures = (userId: string, limit: number = 50): Promise<ExtractionFailure[]> =>
+  getMessageStore().listExtractionFailures(userId, limit);
@@ -0,0 +1,78 @@
+import { EventEmitter } from 'events';
+import { RedisCommands } from './redis';
+
+// An in-process stand-in for Redis, so the Redis store runs without a
+// server. Data is lost when the process exits.
+
+type Value = string | Record<string, string> | string[] | Set<string>;
+
+export const memoryCommands = (): RedisCommands => {
+  const data = new Map<string, Value>();
+  const expiries = new Map<string, number>();
+  const channels = new EventEmitter();
+
+  const read = <T extends Value>(key: string): T | undefined => {
+    const expiresAt = expiries.get(key);
+    if (expiresAt !== undefined && expiresAt <= Date.now()) {
+      data.delete(key);
+      expiries.delete(key);
+    }
+    return data.get(key) as T | undefined;
+  };
+
+  // Redis ranges are inclusive and count negative indexes from the end
+  const range = (length: number, start: number, stop: number): [number, number] => [
+    start < 0 ? Math.max(length + start, 0) : start,
+    (stop < 0 ? length + stop : stop) + 1,
+  ];
+
+  return {
+    get: async (key) => read<string>(key) ?? null,
+    set: async (key, value, options = {}) => {
+      if (options.nx && read(key) !== undefined) {
+        return false;
+      }
+      data.set(key, value);
+      if (options.ex) {
+        expiries.set(key, Date.now() + options.ex * 1000);
+      } else {
+        expiries.delete(key);
+      }
+      return true;
+    },
+    del: async (...keys) => {
+      for (const key of keys) {
+        data.delete(key);
+        expiries.delete(key);
+      }
+    },
+    hset: async (key, fields) => {
+      data.set(key, { ...read<Record<string, string>>(key), ...fields });
+    },
+    hgetall: async (key) => {
+      const hash = read<Record<string, string>>(key);
+      return hash ? { ...hash } : null;
+    },
+    lpush: async (key, value) => {
+      data.set(key, [value, ...(read<string[]>(key) ?? [])]);
+    },
+    ltrim: async (key, start, stop) => {
+      const list = read<string[]>(key) ?? [];
+      data.set(key, list.slice(...range(list.length, start, stop)));
+    },
+    lrange: async (key, start, stop) => {
+      const list = read<string[]>(key) ?? [];
+      return list.slice(...range(list.length, start, stop));
+    },
+    sadd: async (key, member) => {
+      data.set(key, new Set(read<Set<string>>(key)).add(member));
+    },
+    srem: async (key, member) => {
+      read<Set<string>>(key)?.delete(member);
+    },
+    smembers: async (key) => [...(read<Set<string>>(key) ?? [])],
+    publish: async (channel, message) => {
+      channels.emit(channel, message);
+    },
+  };
+};
@@ -0,0 +1,377 @@
+import { Redis as UpstashRedis } from '@upstash/redis';
+import IORedis from 'ioredis';
+import { nanoid } from 'nanoid';
+import { Message, CreateMessage } from '@/types/message';
+import { Conversation, UpdateConversation, ConversationSummary } from '@/types/conversation';
+import { ExtractionFailure } from '@/types/extraction';
+import { MessageStore, StoredUser, MESSAGES_PER_CONVERSATION, EXTRACTION_FAILURES_PER_USER } from './types';
+
+// The handful of Redis commands the store needs, so that the Upstash REST
+// client, a Redis protocol client and the in-process store can share it
+export interface RedisCommands {
+  get(key: string): Promise<string | null>;
+  // Resolves to false when nx is set and the key already exists
+  set(key: string, value: string, options?: { nx?: boolean; ex?: number }): Promise<boolean>;
+  del(...keys: string[]): Promise<void>;
+  hset(key: string, fields: Record<string, string>): Promise<void>;
+  hgetall(key: string): Promise<Record<string, string> | null>;
+  lpush(key: string, value: string): Promise<void>;
+  ltrim(key: string, start: number, stop: number): Promise<void>;
+  lrange(key: string, start: number, stop: number): Promise<string[]>;
+  sadd(key: string, member: string): Promise<void>;
+  srem(key: string, member: string): Promise<void>;
+  smembers(key: string): Promise<string[]>;
+  publish(channel: string, message: string): Promise<void>;
+}
+
+// Upstash deserializes values that look like JSON, so a message "42" or a
+// title "2024" comes back as a number and a stored JSON record as an object;
+// everything is turned back into strings
+const asString = (value: unknown) => (typeof value === 'string' ? value : JSON.stringify(value));
+
+const asStrings = (data: Record<string, unknown>) =>
+  Object.fromEntries(Object.entries(data).map(([field, value]) => [field, asString(value)]));
+
+export const upstashCommands = (url: string, token: string): RedisCommands => {
+  const redis = new UpstashRedis({ url, token });
+
+  return {
+    get: async (key) => {
+      const value = await redis.get(key);
+      return value === null ? null : asString(value);
+    },
+    set: async (key, value, options = {}) => {
+      let result: unknown;
+      if (options.nx && options.ex) {
+        result = await redis.set(key, value, { nx: true, ex: options.ex });
+      } else if (options.nx) {
+        result = await redis.set(key, value, { nx: true });
+      } else if (options.ex) {
+        result = await redis.set(key, value, { ex: options.ex });
+      } else {
+        result = await redis.set(key, value);
+      }
+      return result !== null;
+    },
+    del: async (...keys) => {
+      if (keys.length > 0) await redis.del(...keys);
+    },
+    hset: async (key, fields) => {
+      await redis.hset(key, fields);
+    },
+    hgetall: async (key) => {
+      const data = await redis.hgetall(key);
+      return data && typeof data === 'object' && Object.keys(data).length > 0 ? asStrings(data) : null;
+    },
+    lpush: async (key, value) => {
+      await redis.lpush(key, value);
+    },
+    ltrim: async (key, start, stop) => {
+      await redis.ltrim(key, start, stop);
+    },
+    lrange: async (key, start, stop) => (await redis.lrange(key, start, stop)).map(asString),
+    sadd: async (key, member) => {
+      await redis.sadd(key, member);
+    },
+    srem: async (key, member) => {
+      await redis.srem(key, member);
+    },
+    smembers: async (key) => (await redis.smembers(key)).map(asString),
+    publish: async (channel, message) => {
+      await redis.publish(channel, message);
+    },
+  };
+};
+
+export const ioredisCommands = (url: string): RedisCommands => {
+  const redis = new IORedis(url, { maxRetriesPerRequest: 3 });
+
+  return {
+    get: (key) => redis.get(key),
+    set: async (key, value, options = {}) => {
+      let result: string | null;
+      if (options.nx && options.ex) {
+        result = await redis.set(key, value, 'EX', options.ex, 'NX');
+      } else if (options.nx) {
+        result = await redis.set(key, value, 'NX');
+      } else if (options.ex) {
+        result = await redis.set(key, value, 'EX', options.ex);
+      } else {
+        result = await redis.set(key, value);
+      }
+      return result !== null;
+    },
+    del: async (...keys) => {
+      if (keys.length > 0) await redis.del(...keys);
+    },
+    hset: async (key, fields) => {
+      await redis.hset(key, fields);
+    },
+    hgetall: async (key) => {
+      const data = await redis.hgetall(key);
+      return Object.keys(data).length > 0 ? data : null;
+    },
+    lpush: async (key, value) => {
+      await redis.lpush(key, value);
+    },
+    ltrim: async (key, start, stop) => {
+      await redis.ltrim(key, start, stop);
+    },
+    lrange: (key, start, stop) => redis.lrange(key, start, stop),
+    sadd: async (key, member) => {
+      await redis.sadd(key, member);
+    },
+    srem: async (key, member) => {
+      await redis.srem(key, member);
+    },
+    smembers: (key) => redis.smembers(key),
+    publish: async (channel, message) => {
+      await redis.publish(channel, message);
+    },
+  };
+};
+
+const MESSAGES_KEY_PREFIX = 'messages:';
+const CONVERSATION_KEY_PREFIX = 'conversation:';
+const CONVERSATIONS_KEY_PREFIX = 'conversations:';
+const CONVERSATION_MESSAGES_KEY_PREFIX = 'conversation_messages:';
+const CONVERSATION_SUMMARY_KEY_PREFIX = 'conversation_summary:';
+const USER_KEY_PREFIX = 'user:';
+const USER_EMAIL_KEY_PREFIX = 'user_email:';
+const SESSION_KEY_PREFIX = 'session:';
+const EXTRACTION_FAILURES_KEY_PREFIX = 'extraction_failures:';
+
+const toMessage = (data: Record<string, string>): Message => ({
+  id: data.id,
+  userId: data.userId,
+  conversationId: data.conversationId,
+  content: data.content,
+  role: data.role as 'user' | 'assistant',
+  timestamp: new Date(data.timestamp),
+  ...(data.memoryFactIds && { memoryFactIds: JSON.parse(data.memoryFactIds) }),
+});
+
+const toConversation = (data: Record<string, string>): Conversation => ({
+  id: data.id,
+  userId: data.userId,
+  title: data.title,
+  archived: data.archived === 'true',
+  createdAt: new Date(data.createdAt),
+  updatedAt: new Date(data.updatedAt),
+});
+
+const toSummary = (data: Record<string, string>): ConversationSummary => ({
+  conversationId: data.conversationId,
+  content: data.content,
+  lastMessageId: data.lastMessageId,
+  lastMessageAt: new Date(data.lastMessageAt),
+  updatedAt: new Date(data.updatedAt),
+});
+
+const toStoredUser = (data: Record<string, string>): StoredUser => ({
+  id: data.id,
+  email: data.email,
+  ...(data.name && { name: data.name }),
+  passwordHash: data.passwordHash,
+  createdAt: new Date(data.createdAt),
+});
+
+export class RedisMessageStore implements MessageStore {
+  constructor(private redis: RedisCommands) {}
+
+  async saveMessage(userId: string, messageData: CreateMessage): Promise<Message> {
+    const message: Message = {
+      id: nanoid(),
+      userId,
+      conversationId: messageData.conversationId,
+      content: messageData.content,
+      role: messageData.role,
+      timestamp: new Date(),
+      ...(messageData.memoryFactIds && { memoryFactIds: messageData.memoryFactIds }),
+    };
+
+    const listKey = `${CONVERSATION_MESSAGES_KEY_PREFIX}${message.conversationId}`;
+
+    // Save message data
+    await this.redis.hset(`${MESSAGES_KEY_PREFIX}${message.id}`, {
+      id: message.id,
+      userId: message.userId,
+      conversationId: message.conversationId,
+      content: message.content,
+      role: message.role,
+      timestamp: message.timestamp.toISOString(),
+      ...(message.memoryFactIds && { memoryFactIds: JSON.stringify(message.memoryFactIds) }),
+    });
+
+    // Add message ID to the conversation's message list, keeping only the latest
+    await this.redis.lpush(listKey, message.id);
+    await this.redis.ltrim(listKey, 0, MESSAGES_PER_CONVERSATION - 1);
+
+    // Move the conversation to the top of the list
+    await this.redis.hset(`${CONVERSATION_KEY_PREFIX}${message.conversationId}`, {
+      updatedAt: message.timestamp.toISOString(),
+    });
+
+    return message;
+  }
+
+  async getMessages(conversationId: string, limit: number): Promise<Message[]> {
+    const messageIds = await this.redis.lrange(`${CONVERSATION_MESSAGES_KEY_PREFIX}${conversationId}`, 0, limit - 1);
+
+    const messagesData = await Promise.all(
+      messageIds.map(id => this.redis.hgetall(`${MESSAGES_KEY_PREFIX}${id}`))
+    );
+
+    return messagesData
+      .filter((data): data is Record<string, string> => data !== null)
+      .map(toMessage)
+      .reverse(); // The list is newest first
+  }
+
+  async publishMessage(userId: string, message: Message): Promise<void> {
+    await this.redis.publish(`chat:${userId}`, JSON.stringify(message));
+  }
+
+  async createConversation(userId: string, title: string): Promise<Conversation> {
+    const now = new Date();
+    const conversation: Conversation = {
+      id: nanoid(),
+      userId,
+      title,
+      archived: false,
+      createdAt: now,
+      updatedAt: now,
+    };
+
+    await this.redis.hset(`${CONVERSATION_KEY_PREFIX}${conversation.id}`, {
+      id: conversation.id,
+      userId,
+      title,
+      archived: 'false',
+      createdAt: now.toISOString(),
+      updatedAt: now.toISOString(),
+    });
+    await this.redis.sadd(`${CONVERSATIONS_KEY_PREFIX}${userId}`, conversation.id);
+
+    return conversation;
+  }
+
+  async getConversation(userId: string, conversationId: string): Promise<Conversation | null> {
+    const data = await this.redis.hgetall(`${CONVERSATION_KEY_PREFIX}${conversationId}`);
+    return data && data.userId === userId ? toConversation(data) : null;
+  }
+
+  async listConversations(userId: string, includeArchived: boolean): Promise<Conversation[]> {
+    const conversationIds = await this.redis.smembers(`${CONVERSATIONS_KEY_PREFIX}${userId}`);
+
+    const conversations = await Promise.all(
+      conversationIds.map(id => this.getConversation(userId, id))
+    );
+
+    return conversations
+      .filter((conversation): conversation is Conversation => conversation !== null)
+      .filter(conversation => includeArchived || !conversation.archived)
+      .sort((a, b) => b.updatedAt.getTime() - a.updatedAt.getTime());
+  }
+
+  async updateConversation(userId: string, conversationId: string, updates: UpdateConversation): Promise<Conversation | null> {
+    const conversation = await this.getConversation(userId, conversationId);
+    if (!conversation) {
+      return null;
+    }
+
+    await this.redis.hset(`${CONVERSATION_KEY_PREFIX}${conversationId}`, {
+      ...(updates.title !== undefined && { title: updates.title }),
+      ...(updates.archived !== undefined && { archived: String(updates.archived) }),
+    });
+
+    return { ...conversation, ...updates };
+  }
+
+  async deleteConversation(userId: string, conversationId: string): Promise<boolean> {
+    if (!(await this.getConversation(userId, conversationId))) {
+      return false;
+    }
+
+    const listKey = `${CONVERSATION_MESSAGES_KEY_PREFIX}${conversationId}`;
+    const messageIds = await this.redis.lrange(listKey, 0, -1);
+
+    await this.redis.del(
+      ...messageIds.map(id => `${MESSAGES_KEY_PREFIX}${id}`),
+      listKey,
+      `${CONVERSATION_SUMMARY_KEY_PREFIX}${conversationId}`,
+      `${CONVERSATION_KEY_PREFIX}${conversationId}`
+    );
+    await this.redis.srem(`${CONVERSATIONS_KEY_PREFIX}${userId}`, conversationId);
+
+    return true;
+  }
+
+  async getSummary(conversationId: string): Promise<ConversationSummary | null> {
+    const data = await this.redis.hgetall(`${CONVERSATION_SUMMARY_KEY_PREFIX}${conversationId}`);
+    return data ? toSummary(data) : null;
+  }
+
+  async saveSummary(summary: ConversationSummary): Promise<void> {
+    await this.redis.hset(`${CONVERSATION_SUMMARY_KEY_PREFIX}${summary.conversationId}`, {
+      conversationId: summary.conversationId,
+      content: summary.content,
+      lastMessageId: summary.lastMessageId,
+      lastMessageAt: summary.lastMessageAt.toISOString(),
+      updatedAt: summary.updatedAt.toISOString(),
+    });
+  }
+
+  async recordExtractionFailure(failure: ExtractionFailure): Promise<void> {
+    const listKey = `${EXTRACTION_FAILURES_KEY_PREFIX}${failure.userId}`;
+    await this.redis.lpush(listKey, JSON.stringify(failure));
+    await this.redis.ltrim(listKey, 0, EXTRACTION_FAILURES_PER_USER - 1);
+  }
+
+  async listExtractionFailures(userId: string, limit: number): Promise<ExtractionFailure[]> {
+    const entries = await this.redis.lrange(`${EXTRACTION_FAILURES_KEY_PREFIX}${userId}`, 0, limit - 1);
+    return entries.map(entry => {
+      const failure = JSON.parse(entry);
+      return { ...failure, createdAt: new Date(failure.createdAt) };
+    });
+  }
+
+  async createUser(user: StoredUser): Promise<boolean> {
+    // Claim the email first so two sign-ups cannot race for it
+    const claimed = await this.redis.set(`${USER_EMAIL_KEY_PREFIX}${user.email}`, user.id, { nx: true });
+    if (!claimed) {
+      return false;
+    }
+
+    await this.redis.hset(`${USER_KEY_PREFIX}${user.id}`, {
+      id: user.id,
+      email: user.email,
+      ...(user.name && { name: user.name }),
+      passwordHash: user.passwordHash,
+      createdAt: user.createdAt.toISOString(),
+    });
+
+    return true;
+  }
+
+  async getUser(userId: string): Promise<StoredUser | null> {
+    const data = await this.redis.hgetall(`${USER_KEY_PREFIX}${userId}`);
+    return data && data.id ? toStoredUser(data) : null;
+  }
+
+  async getUserIdByEmail(email: string): Promise<string | null> {
+    return this.redis.get(`${USER_EMAIL_KEY_PREFIX}${email}`);
+  }
+
+  async saveSession(tokenHash: string, userId: string, ttlSeconds: number): Promise<void> {
+    await this.redis.set(`${SESSION_KEY_PREFIX}${tokenHash}`, userId, { ex: ttlSeconds });
+  }
+
+  async getSessionUserId(tokenHash: string): Promise<string | null> {
+    return this.redis.get(`${SESSION_KEY_PREFIX}${tokenHash}`);
+  }
+
+  async deleteSession(tokenHash: string): Promise<void> {
+    await this.redis.del(`${SESSION_KEY_PREFIX}${tokenHash}`);
+  }
+}
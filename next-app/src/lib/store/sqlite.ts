@@ -0,0 +1,387 @@
+import Database from 'better-sqlite3';
+import { EventEmitter } from 'events';
+import { mkdirSync } from 'fs';
+import { dirname } from 'path';
+import { nanoid } from 'nanoid';
+import { Message, CreateMessage } from '@/types/message';
+import { Conversation, UpdateConversation, ConversationSummary } from '@/types/conversation';
+import { ExtractionFailure, ExtractionFailureReason } from '@/types/extraction';
+import { MessageStore, StoredUser, MESSAGES_PER_CONVERSATION, EXTRACTION_FAILURES_PER_USER } from './types';
+
+// A single-file store for running the app on one machine
+
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS users (
+    id TEXT PRIMARY KEY,
+    email TEXT NOT NULL UNIQUE,
+    name TEXT,
+    password_hash TEXT NOT NULL,
+    created_at TEXT NOT NULL
+  );
+
+  CREATE TABLE IF NOT EXISTS sessions (
+    token_hash TEXT PRIMARY KEY,
+    user_id TEXT NOT NULL,
+    expires_at INTEGER NOT NULL
+  );
+
+  CREATE TABLE IF NOT EXISTS conversations (
+    id TEXT PRIMARY KEY,
+    user_id TEXT NOT NULL,
+    title TEXT NOT NULL,
+    archived INTEGER NOT NULL DEFAULT 0,
+    created_at TEXT NOT NULL,
+    updated_at TEXT NOT NULL
+  );
+
+  CREATE INDEX IF NOT EXISTS conversations_user_id_idx ON conversations (user_id);
+
+  CREATE TABLE IF NOT EXISTS messages (
+    seq INTEGER PRIMARY KEY AUTOINCREMENT,
+    id TEXT NOT NULL UNIQUE,
+    user_id TEXT NOT NULL,
+    conversation_id TEXT NOT NULL,
+    content TEXT NOT NULL,
+    role TEXT NOT NULL,
+    timestamp TEXT NOT NULL,
+    memory_fact_ids TEXT
+  );
+
+  CREATE INDEX IF NOT EXISTS messages_conversation_id_idx ON messages (conversation_id, seq);
+
+  CREATE TABLE IF NOT EXISTS conversation_summaries (
+    conversation_id TEXT PRIMARY KEY,
+    content TEXT NOT NULL,
+    last_message_id TEXT NOT NULL,
+    last_message_at TEXT NOT NULL,
+    updated_at TEXT NOT NULL
+  );
+
+  CREATE TABLE IF NOT EXISTS extraction_failures (
+    seq INTEGER PRIMARY KEY AUTOINCREMENT,
+    id TEXT NOT NULL UNIQUE,
+    user_id TEXT NOT NULL,
+    message_id TEXT,
+    reason TEXT NOT NULL,
+    error TEXT NOT NULL,
+    raw_response TEXT NOT NULL,
+    created_at TEXT NOT NULL
+  );
+
+  CREATE INDEX IF NOT EXISTS extraction_failures_user_id_idx ON extraction_failures (user_id, seq);
+`;
+
+// Columns added after a table was first created, for databases made before them
+const ADDED_COLUMNS: Array<{ table: string; column: string; definition: string }> = [
+  { table: 'messages', column: 'memory_fact_ids', definition: 'TEXT' },
+];
+
+interface MessageRow {
+  id: string;
+  user_id: string;
+  conversation_id: string;
+  content: string;
+  role: string;
+  timestamp: string;
+  memory_fact_ids: string | null;
+}
+
+interface ConversationRow {
+  id: string;
+  user_id: string;
+  title: string;
+  archived: number;
+  created_at: string;
+  updated_at: string;
+}
+
+interface SummaryRow {
+  conversation_id: string;
+  content: string;
+  last_message_id: string;
+  last_message_at: string;
+  updated_at: string;
+}
+
+interface ExtractionFailureRow {
+  id: string;
+  user_id: string;
+  message_id: string | null;
+  reason: string;
+  error: string;
+  raw_response: string;
+  created_at: string;
+}
+
+interface UserRow {
+  id: string;
+  email: string;
+  name: string | null;
+  password_hash: string;
+  created_at: string;
+}
+
+const toMessage = (row: MessageRow): Message => ({
+  id: row.id,
+  userId: row.user_id,
+  conversationId: row.conversation_id,
+  content: row.content,
+  role: row.role as 'user' | 'assistant',
+  timestamp: new Date(row.timestamp),
+  ...(row.memory_fact_ids && { memoryFactIds: JSON.parse(row.memory_fact_ids) }),
+});
+
+const toConversation = (row: ConversationRow): Conversation => ({
+  id: row.id,
+  userId: row.user_id,
+  title: row.title,
+  archived: row.archived === 1,
+  createdAt: new Date(row.created_at),
+  updatedAt: new Date(row.updated_at),
+});
+
+const toSummary = (row: SummaryRow): ConversationSummary => ({
+  conversationId: row.conversation_id,
+  content: row.content,
+  lastMessageId: row.last_message_id,
+  lastMessageAt: new Date(row.last_message_at),
+  updatedAt: new Date(row.updated_at),
+});
+
+const toExtractionFailure = (row: ExtractionFailureRow): ExtractionFailure => ({
+  id: row.id,
+  userId: row.user_id,
+  ...(row.message_id && { messageId: row.message_id }),
+  reason: row.reason as ExtractionFailureReason,
+  error: row.error,
+  rawResponse: row.raw_response,
+  createdAt: new Date(row.created_at),
+});
+
+const toStoredUser = (row: UserRow): StoredUser => ({
+  id: row.id,
+  email: row.email,
+  ...(row.name && { name: row.name }),
+  passwordHash: row.password_hash,
+  createdAt: new Date(row.created_at),
+});
+
+export class SqliteMessageStore implements MessageStore {
+  private db: Database.Database;
+  private channels = new EventEmitter();
+
+  constructor(path: string) {
+    if (path !== ':memory:') {
+      mkdirSync(dirname(path), { recursive: true });
+    }
+    this.db = new Database(path);
+    this.db.pragma('journal_mode = WAL');
+    this.db.exec(SCHEMA);
+
+    for (const { table, column, definition } of ADDED_COLUMNS) {
+      const columns = this.db.prepare(`PRAGMA table_info(${table})`).all() as Array<{ name: string }>;
+      if (!columns.some(existing => existing.name === column)) {
+        this.db.exec(`ALTER TABLE ${table} ADD COLUMN ${column} ${definition}`);
+      }
+    }
+  }
+
+  async saveMessage(userId: string, messageData: CreateMessage): Promise<Message> {
+    const message: Message = {
+      id: nanoid(),
+      userId,
+      conversationId: messageData.conversationId,
+      content: messageData.content,
+      role: messageData.role,
+      timestamp: new Date(),
+      ...(messageData.memoryFactIds && { memoryFactIds: messageData.memoryFactIds }),
+    };
+
+    this.db.transaction(() => {
+      this.db.prepare(`
+        INSERT INTO messages (id, user_id, conversation_id, content, role, timestamp, memory_fact_ids)
+        VALUES (?, ?, ?, ?, ?, ?, ?)
+      `).run(
+        message.id,
+        userId,
+        message.conversationId,
+        message.content,
+        message.role,
+        message.timestamp.toISOString(),
+        message.memoryFactIds ? JSON.stringify(message.memoryFactIds) : null
+      );
+
+      // Keep only the latest messages of the conversation
+      this.db.prepare(`
+        DELETE FROM messages WHERE conversation_id = ? AND seq NOT IN (
+          SELECT seq FROM messages WHERE conversation_id = ? ORDER BY seq DESC LIMIT ?
+        )
+      `).run(message.conversationId, message.conversationId, MESSAGES_PER_CONVERSATION);
+
+      this.db.prepare('UPDATE conversations SET updated_at = ? WHERE id = ?')
+        .run(message.timestamp.toISOString(), message.conversationId);
+    })();
+
+    return message;
+  }
+
+  async getMessages(conversationId: string, limit: number): Promise<Message[]> {
+    const rows = this.db.prepare(`
+      SELECT * FROM messages WHERE conversation_id = ? ORDER BY seq DESC LIMIT ?
+    `).all(conversationId, limit) as MessageRow[];
+
+    return rows.map(toMessage).reverse();
+  }
+
+  async publishMessage(userId: string, message: Message): Promise<void> {
+    this.channels.emit(`chat:${userId}`, JSON.stringify(message));
+  }
+
+  async createConversation(userId: string, title: string): Promise<Conversation> {
+    const now = new Date();
+    const conversation: Conversation = {
+      id: nanoid(),
+      userId,
+      title,
+      archived: false,
+      createdAt: now,
+      updatedAt: now,
+    };
+
+    this.db.prepare(`
+      INSERT INTO conversations (id, user_id, title, archived, created_at, updated_at)
+      VALUES (?, ?, ?, 0, ?, ?)
+    `).run(conversation.id, userId, title, now.toISOString(), now.toISOString());
+
+    return conversation;
+  }
+
+  async getConversation(userId: string, conversationId: string): Promise<Conversation | null> {
+    const row = this.db.prepare('SELECT * FROM conversations WHERE id = ? AND user_id = ?')
+      .get(conversationId, userId) as ConversationRow | undefined;
+    return row ? toConversation(row) : null;
+  }
+
+  async listConversations(userId: string, includeArchived: boolean): Promise<Conversation[]> {
+    const rows = this.db.prepare(`
+      SELECT * FROM conversations WHERE user_id = ? ${includeArchived ? '' : 'AND archived = 0'}
+      ORDER BY updated_at DESC
+    `).all(userId) as ConversationRow[];
+
+    return rows.map(toConversation);
+  }
+
+  async updateConversation(userId: string, conversationId: string, updates: UpdateConversation): Promise<Conversation | null> {
+    const conversation = await this.getConversation(userId, conversationId);
+    if (!conversation) {
+      return null;
+    }
+
+    this.db.prepare(`
+      UPDATE conversations SET title = COALESCE(?, title), archived = COALESCE(?, archived) WHERE id = ?
+    `).run(updates.title ?? null, updates.archived === undefined ? null : Number(updates.archived), conversationId);
+
+    return { ...conversation, ...updates };
+  }
+
+  async deleteConversation(userId: string, conversationId: string): Promise<boolean> {
+    return this.db.transaction(() => {
+      const result = this.db.prepare('DELETE FROM conversations WHERE id = ? AND user_id = ?')
+        .run(conversationId, userId);
+      if (result.changes === 0) {
+        return false;
+      }
+
+      this.db.prepare('DELETE FROM messages WHERE conversation_id = ?').run(conversationId);
+      this.db.prepare('DELETE FROM conversation_summaries WHERE conversation_id = ?').run(conversationId);
+      return true;
+    })();
+  }
+
+  async getSummary(conversationId: string): Promise<ConversationSummary | null> {
+    const row = this.db.prepare('SELECT * FROM conversation_summaries WHERE conversation_id = ?')
+      .get(conversationId) as SummaryRow | undefined;
+    return row ? toSummary(row) : null;
+  }
+
+  async saveSummary(summary: ConversationSummary): Promise<void> {
+    this.db.prepare(`
+      INSERT OR REPLACE INTO conversation_summaries (conversation_id, content, last_message_id, last_message_at, updated_at)
+      VALUES (?, ?, ?, ?, ?)
+    `).run(
+      summary.conversationId,
+      summary.content,
+      summary.lastMessageId,
+      summary.lastMessageAt.toISOString(),
+      summary.updatedAt.toISOString()
+    );
+  }
+
+  async recordExtractionFailure(failure: ExtractionFailure): Promise<void> {
+    this.db.transaction(() => {
+      this.db.prepare(`
+        INSERT INTO extraction_failures (id, user_id, message_id, reason, error, raw_response, created_at)
+        VALUES (?, ?, ?, ?, ?, ?, ?)
+      `).run(
+        failure.id,
+        failure.userId,
+        failure.messageId ?? null,
+        failure.reason,
+        failure.error,
+        failure.rawResponse,
+        failure.createdAt.toISOString()
+      );
+
+      this.db.prepare(`
+        DELETE FROM extraction_failures WHERE user_id = ? AND seq NOT IN (
+          SELECT seq FROM extraction_failures WHERE user_id = ? ORDER BY seq DESC LIMIT ?
+        )
+      `).run(failure.userId, failure.userId, EXTRACTION_FAILURES_PER_USER);
+    })();
+  }
+
+  async listExtractionFailures(userId: string, limit: number): Promise<ExtractionFailure[]> {
+    const rows = this.db.prepare(`
+      SELECT * FROM extraction_failures WHERE user_id = ? ORDER BY seq DESC LIMIT ?
+    `).all(userId, limit) as ExtractionFailureRow[];
+
+    return rows.map(toExtractionFailure);
+  }
+
+  async createUser(user: StoredUser): Promise<boolean> {
+    const result = this.db.prepare(`
+      INSERT INTO users (id, email, name, password_hash, created_at)
+      VALUES (?, ?, ?, ?, ?)
+      ON CONFLICT (email) DO NOTHING
+    `).run(user.id, user.email, user.name ?? null, user.passwordHash, user.createdAt.toISOString());
+
+    return result.changes > 0;
+  }
+
+  async getUser(userId: string): Promise<StoredUser | null> {
+    const row = this.db.prepare('SELECT * FROM users WHERE id = ?').get(userId) as UserRow | undefined;
+    return row ? toStoredUser(row) : null;
+  }
+
+  async getUserIdByEmail(email: string): Promise<string | null> {
+    const row = this.db.prepare('SELECT id FROM users WHERE email = ?').get(email) as { id: string } | undefined;
+    return row?.id ?? null;
+  }
+
+  async saveSession(tokenHash: string, userId: string, ttlSeconds: number): Promise<void> {
+    // Sweep expired sessions while we are here
+    this.db.prepare('DELETE FROM sessions WHERE expires_at <= ?').run(Date.now());
+    this.db.prepare('INSERT OR REPLACE INTO sessions (token_hash, user_id, expires_at) VALUES (?, ?, ?)')
+      .run(tokenHash, userId, Date.now() + ttlSeconds * 1000);
+  }
+
+  async getSessionUserId(tokenHash: string): Promise<string | null> {
+    const row = this.db.prepare('SELECT user_id FROM sessions WHERE token_hash = ? AND expires_at > ?')
+      .get(tokenHash, Date.now()) as { user_id: string } | undefined;
+    return row?.user_id ?? null;
+  }
+
+  async deleteSession(tokenHash: string): Promise<void> {
+    this.db.prepare('DELETE FROM sessions WHERE token_hash = ?').run(tokenHash);
+  }
+}
@@ -0,0 +1,49 @@
+import { Message, CreateMessage } from '@/types/message';
+import { Conversation, UpdateConversation, ConversationSummary } from '@/types/conversation';
+import { User } from '@/types/user';
+import { ExtractionFailure } from '@/types/extraction';
+
+// Messages kept per conversation; older ones are dropped
+export const MESSAGES_PER_CONVERSATION = 100;
+
+// Extraction failures kept per user; older ones are dropped
+export const EXTRACTION_FAILURES_PER_USER = 200;
+
+export interface StoredUser extends User {
+  passwordHash: string;
+}
+
+// Everything the app keeps outside the MCP server: accounts and sessions,
+// conversations and their messages, and extraction failures. Facts live in
+// the MCP server.
+export interface MessageStore {
+  saveMessage(userId: string, messageData: CreateMessage): Promise<Message>;
+  // The latest messages of a conversation, oldest first
+  getMessages(conversationId: string, limit: number): Promise<Message[]>;
+  publishMessage(userId: string, message: Message): Promise<void>;
+
+  createConversation(userId: string, title: string): Promise<Conversation>;
+  // Null when the conversation does not exist or belongs to someone else
+  getConversation(userId: string, conversationId: string): Promise<Conversation | null>;
+  // Most recently active first
+  listConversations(userId: string, includeArchived: boolean): Promise<Conversation[]>;
+  updateConversation(userId: string, conversationId: string, updates: UpdateConversation): Promise<Conversation | null>;
+  deleteConversation(userId: string, conversationId: string): Promise<boolean>;
+
+  getSummary(conversationId: string): Promise<ConversationSummary | null>;
+  saveSummary(summary: ConversationSummary): Promise<void>;
+
+  recordExtractionFailure(failure: ExtractionFailure): Promise<void>;
+  // Newest first
+  listExtractionFailures(userId: string, limit: number): Promise<ExtractionFailure[]>;
+
+  // False when the email is already registered
+  createUser(user: StoredUser): Promise<boolean>;
+  getUser(userId: string): Promise<StoredUser | null>;
+  getUserIdByEmail(email: string): Promise<string | null>;
+
+  // Sessions are keyed by a hash of the cookie token
+  saveSession(tokenHash: string, userId: string, ttlSeconds: number): Promise<void>;
+  getSessionUserId(tokenHash: string): Promise<string | null>;
+  deleteSession(tokenHash: string): Promise<void>;
+}
@@ -0,0 +1,37 @@
+import { describe, expect, test } from 'bun:test';
+import { getConversationSummary, saveConversationSummary, saveMessage } from '@/lib/store';
+import { summarizeConversation } from '@/lib/summarize';
+
+// The summary model is the scripted mock, whose default reply repeats the
+// prompt it was given
+
+describe('summarizeConversation', () => {
+  test('keeps the previous summary as written in the prompt', async () => {
+    const conversationId = 'conversation-summary';
+    const messages = [];
+    for (let turn = 0; turn < 8; turn++) {
+      messages.push(await saveMessage('user-1', {
+        userId: 'user-1',
+        conversationId,
+        role: turn % 2 === 0 ? 'user' : 'assistant',
+        content: `Turn ${turn} ${'about Python string formatting '.repeat(70)}`,
+      }));
+    }
+    await saveConversationSummary({
+      conversationId,
+      content: 'The user asked what {turns} and $& mean in a template.',
+      lastMessageId: 'before-these-turns',
+      lastMessageAt: new Date(0),
+      updatedAt: new Date(0),
+    });
+
+    await summarizeConversation(conversationId);
+
+    const summary = await getConversationSummary(conversationId);
+    expect(summary?.content).toContain('Current summary:\nThe user asked what {turns} and $& mean in a template.\n');
+    expect(summary?.content).toContain('User: Turn 0 ');
+    expect(summary?.content.match(/User: Turn 0 /g)).toHaveLength(1);
+    expect(summary?.lastMessageId).not.toBe('before-these-turns');
+    expect(messages.map(message => message.id)).toContain(summary!.lastMessageId);
+  });
+});
@@ -0,0 +1,123 @@
+import { Message } from '@/types/message';
+import { ConversationSummary } from '@/types/conversation';
+import { getMessages, getConversationSummary, saveConversationSummary, MESSAGES_PER_CONVERSATION } from '@/lib/store';
+import { estimateTokens, tokenBudgetFromEnv } from '@/lib/tokens';
+import { createModel } from '@/lib/models';
+import { fillPrompt } from '@/lib/prompts';
+
+// Tokens of raw conversation turns sent to the model. Older turns reach it
+// only through the running summary.
+export const HISTORY_TOKEN_BUDGET = tokenBudgetFromEnv('CHAT_HISTORY_TOKEN_BUDGET', 4000);
+
+// The summarizer keeps only half the budget raw and condenses the rest, so
+// turns are summarized before they stop fitting in the prompt
+const SUMMARY_WINDOW_BUDGET = HISTORY_TOKEN_BUDGET / 2;
+
+// Batch summarization instead of calling the model after every turn
+const MIN_MESSAGES_TO_SUMMARIZE = 4;
+
+const SUMMARY_PROMPT = `
+You maintain a running summary of a conversation between a user and an AI assistant.
+
+Current summary:
+{summary}
+
+New turns to fold into the summary:
+{turns}
+
+Write the updated summary:
+- Keep what matters for continuing the conversation: topics, questions asked, answers and advice given, decisions, open threads
+- Keep names, numbers and dates exactly
+- Drop small talk and repetition
+- Write in the third person ("The user asked...") in under 250 words
+
+Respond only with the updated summary:
+`;
+
+const messageTokens = (message: Message) => estimateTokens(message.content) + 4;
+
+// The messages a summary does not cover yet, oldest first
+export const messagesAfterSummary = (messages: Message[], summary: ConversationSummary | null): Message[] => {
+  if (!summary) {
+    return messages;
+  }
+
+  const index = messages.findIndex(message => message.id === summary.lastMessageId);
+  if (index !== -1) {
+    return messages.slice(index + 1);
+  }
+
+  // The covered message has been trimmed from the store
+  return messages.filter(message => message.timestamp > summary.lastMessageAt);
+};
+
+// The newest messages that fit in the budget, always at least the last one
+export const fitMessagesToBudget = (messages: Message[], budget: number): Message[] => {
+  let start = messages.length;
+  let used = 0;
+
+  while (start > 0) {
+    const cost = messageTokens(messages[start - 1]);
+    if (start < messages.length && used + cost > budget) break;
+    used += cost;
+    start--;
+  }
+
+  return messages.slice(start);
+};
+
+const formatTurns = (messages: Message[]) => messages
+  .map(message => `${message.role === 'user' ? 'User' : 'Assistant'}: ${message.content}`)
+  .join('\n');
+
+const summariesInProgress = new Set<string>();
+
+// Folds turns that fell out of the raw window into the conversation's
+// running summary. Runs in the background after each exchange.
+export const summarizeConversation = async (conversationId: string): Promise<void> => {
+  if (summariesInProgress.has(conversationId)) return;
+  summariesInProgress.add(conversationId);
+
+  try {
+    const [messages, summary] = await Promise.all([
+      getMessages(conversationId, MESSAGES_PER_CONVERSATION),
+      getConversationSummary(conversationId),
+    ]);
+
+    const pending = messagesAfterSummary(messages, summary);
+    const kept = fitMessagesToBudget(pending, SUMMARY_WINDOW_BUDGET);
+    const toSummarize = pending.slice(0, pending.length - kept.length);
+
+    if (toSummarize.length < MIN_MESSAGES_TO_SUMMARIZE) {
+      return;
+    }
+
+    const model = createModel('summary');
+    const prompt = fillPrompt(SUMMARY_PROMPT, {
+      summary: summary?.content || '(none yet)',
+      turns: formatTurns(toSummarize),
+    });
+    const response = await model.invoke(prompt);
+    const content = response.content.toString().trim();
+
+    if (!content) {
+      console.warn('Empty conversation summary response');
+      return;
+    }
+
+    const lastMessage = toSummarize[toSummarize.length - 1];
+    await saveConversationSummary({
+      conversationId,
+      content,
+      lastMessageId: lastMessage.id,
+      lastMessageAt: lastMessage.timestamp,
+      updatedAt: new Date(),
+    });
+
+    console.log(`📝 Summarized ${toSummarize.length} messages of conversation ${conversationId}`);
+  } catch (error) {
+    console.error('❌ Conversation summarization failed:', error instanceof Error ? error.message : 'Unknown error');
+  } finally {
+    summariesInProgress.delete(conversationId);
+  }
+};
@@ -0,0 +1,8 @@
+// Rough token count for budgeting prompts: about four characters per token
+// for English text. Good enough to decide what fits, not for billing.
+export const estimateTokens = (text: string): number => Math.ceil(text.length / 4);
+
+export const tokenBudgetFromEnv = (name: string, fallback: number): number => {
+  const value = Number(process.env[name]);
+  return Number.isFinite(value) && value > 0 ? value : fallback;
+};
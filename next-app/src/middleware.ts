@@ -0,0 +1,21 @@
+import { NextRequest, NextResponse } from 'next/server';
+
+// Keep signed-out visitors away from the chat. This only checks that a
+// session cookie is present; API routes validate the session itself.
+// Mirrors SESSION_COOKIE in lib/auth, which needs Node's crypto and cannot
+// be imported into the edge runtime.
+const SESSION_COOKIE = 'mm_session';
+
+export function middleware(request: NextRequest) {
+  if (!request.cookies.has(SESSION_COOKIE)) {
+    const loginUrl = new URL('/login', request.url);
+    loginUrl.searchParams.set('next', request.nextUrl.pathname);
+    return NextResponse.redirect(loginUrl);
+  }
+
+  return NextResponse.next();
+}
+
+export const config = {
+  matcher: ['/chat/:path*'],
+};
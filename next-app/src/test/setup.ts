@@ -0,0 +1,7 @@
+import { join } from 'path';
+
+// Tests run offline: every model is the scripted mock and messages live in
+// memory
+process.env.MODEL_PROVIDER = 'mock';
+process.env.MOCK_MODEL_SCRIPT = join(import.meta.dir, 'mock-model-script.json');
+process.env.MESSAGE_STORE = 'memory';
@@ -0,0 +1,40 @@
+import { z } from 'zod';
+
+export const DEFAULT_CONVERSATION_TITLE = 'New conversation';
+
+export const ConversationSchema = z.object({
+  id: z.string(),
+  userId: z.string(),
+  title: z.string(),
+  archived: z.boolean(),
+  createdAt: z.date(),
+  updatedAt: z.date(),
+});
+
+export type Conversation = z.infer<typeof ConversationSchema>;
+
+export const CreateConversationSchema = z.object({
+  title: z.string().trim().min(1).max(100).optional(),
+});
+
+export type CreateConversation = z.infer<typeof CreateConversationSchema>;
+
+// Rename and archive/unarchive
+export const UpdateConversationSchema = z.object({
+  title: z.string().trim().min(1).max(100).optional(),
+  archived: z.boolean().optional(),
+});
+
+export type UpdateConversation = z.infer<typeof UpdateConversationSchema>;
+
+// Running summary of the turns that no longer fit in the prompt
+export const ConversationSummarySchema = z.object({
+  conversationId: z.string(),
+  content: z.string(),
+  // The newest message the summary covers
+  lastMessageId: z.string(),
+  lastMessageAt: z.date(),
+  updatedAt: z.date(),
+});
+
+export type ConversationSummary = z.infer<typeof ConversationSummarySchema>;
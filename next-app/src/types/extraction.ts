@@ -0,0 +1,87 @@
+import { z } from 'zod';
+import { CreateFact, Fact } from './fact';
+
+// An operation as the extraction model returns it. The shape is flat so it
+// converts to every provider's structured output format; each operation is
+// then checked against ExtractedOperationSchema.
+export const ExtractionOutputSchema = z.object({
+  operations: z.array(z.object({
+    op: z.enum(['create', 'update', 'delete']),
+    // The existing fact an update or delete applies to
+    id: z.string().optional(),
+    subject: z.string().optional(),
+    predicate: z.string().optional(),
+    object: z.string().optional(),
+    // Known entities the subject and object of a new fact refer to
+    subjectEntityId: z.string().optional(),
+    objectEntityId: z.string().optional(),
+    confidence: z.number().optional(),
+    // YYYY-MM-DD or full ISO dates
+    validFrom: z.string().optional(),
+    validUntil: z.string().optional(),
+  })),
+});
+
+export type ExtractionOutput = z.infer<typeof ExtractionOutputSchema>;
+
+// A new fact as the extraction model returns it, before it is tied to a user
+export const ExtractedFactSchema = z.object({
+  subject: z.string().trim().min(1),
+  predicate: z.string().trim().min(1),
+  object: z.string().trim().min(1),
+  subjectEntityId: z.string().optional(),
+  objectEntityId: z.string().optional(),
+  confidence: z.number().optional(),
+  validFrom: z.string().optional(),
+  validUntil: z.string().optional(),
+});
+
+export type ExtractedFact = z.infer<typeof ExtractedFactSchema>;
+
+export const ExtractedOperationSchema = z.discriminatedUnion('op', [
+  ExtractedFactSchema.extend({ op: z.literal('create') }),
+  z.object({
+    op: z.literal('update'),
+    id: z.string().min(1),
+    subject: z.string().trim().min(1).optional(),
+    predicate: z.string().trim().min(1).optional(),
+    object: z.string().trim().min(1).optional(),
+    confidence: z.number().optional(),
+  }).refine(
+    update => update.subject !== undefined || update.predicate !== undefined || update.object !== undefined || update.confidence !== undefined,
+    { message: 'An update must change subject, predicate, object or confidence' }
+  ),
+  z.object({
+    op: z.literal('delete'),
+    id: z.string().min(1),
+  }),
+]);
+
+export type ExtractedOperation = z.infer<typeof ExtractedOperationSchema>;
+
+// What extraction asks to change in the user's memory
+export type FactOperation =
+  | { op: 'create'; fact: CreateFact }
+  | { op: 'update'; id: string; changes: Partial<Pick<Fact, 'subject' | 'predicate' | 'object' | 'confidence'>>; previous: Fact }
+  | { op: 'delete'; id: string; previous: Fact };
+
+// repaired: the output only parsed after the repair pass
+// invalid_output: the output was unusable even after the repair pass
+// invalid_facts: some operations failed validation and were dropped
+// model_error: the model call itself failed
+export const ExtractionFailureReasonSchema = z.enum(['repaired', 'invalid_output', 'invalid_facts', 'model_error']);
+
+export type ExtractionFailureReason = z.infer<typeof ExtractionFailureReasonSchema>;
+
+// Kept so extraction quality can be measured and the prompt improved
+export const ExtractionFailureSchema = z.object({
+  id: z.string(),
+  userId: z.string(),
+  messageId: z.string().optional(),
+  reason: ExtractionFailureReasonSchema,
+  error: z.string(),
+  rawResponse: z.string(),
+  createdAt: z.date(),
+});
+
+export type ExtractionFailure = z.infer<typeof ExtractionFailureSchema>;
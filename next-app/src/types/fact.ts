@@ -1,11 +1,26 @@
 import { z } from 'zod';
 
+export const FactSourceSchema = z.enum(['extracted', 'manual', 'imported']);
+
+export type FactSource = z.infer<typeof FactSourceSchema>;
+
+// Facts below this confidence are presented to the model as tentative
+export const LOW_CONFIDENCE_THRESHOLD = 0.6;
+
 export const FactSchema = z.object({
   id: z.string(),
   subject: z.string(),
   predicate: z.string(),
   object: z.string(),
   userId: z.string().optional(),
+  confidence: z.number().min(0).max(1).optional(),
+  source: FactSourceSchema.optional(),
+  sourceMessageId: z.string().optional(),
+  validFrom: z.string().optional(),
+  validUntil: z.string().optional(),
+  deletedAt: z.string().optional(),
+  subjectEntityId: z.string().optional(),
+  objectEntityId: z.string().optional(),
   timestamp: z.date().optional(),
 });
 
@@ -15,6 +30,17 @@ export interface Fact {
   predicate: string;
   object: string;
   userId?: string;
+  confidence?: number;
+  source?: FactSource;
+  sourceMessageId?: string;
+  // ISO timestamps bounding when a temporary fact holds
+  validFrom?: string;
+  validUntil?: string;
+  // ISO timestamp set while the fact is in the trash
+  deletedAt?: string;
+  // Entities the subject and object refer to; plain values have none
+  subjectEntityId?: string;
+  objectEntityId?: string;
   timestamp?: Date;
 }
 
@@ -23,10 +49,78 @@ export const CreateFactSchema = z.object({
   predicate: z.string(),
   object: z.string(),
   userId: z.string(),
+  confidence: z.number().min(0).max(1).optional(),
+  source: FactSourceSchema.optional(),
+  sourceMessageId: z.string().optional(),
+  validFrom: z.string().datetime().optional(),
+  validUntil: z.string().datetime().optional(),
+  subjectEntityId: z.string().optional(),
+  objectEntityId: z.string().optional(),
 });
 
 export type CreateFact = z.infer<typeof CreateFactSchema>;
 
+export interface PushFactResult {
+  fact: Fact;
+  // Previous values replaced because the predicate is single-valued
+  superseded: Fact[];
+}
+
+// An entry of the MCP server's predicate vocabulary
+export interface Predicate {
+  name: string;
+  // Other names that are stored under this one ("job" for works_as)
+  aliases: string[];
+  description?: string;
+  valueType: 'text' | 'number' | 'date' | 'entity';
+  // Single-valued predicates keep one current value per subject
+  cardinality: 'single' | 'multi';
+  custom: boolean;
+}
+
+// A person, place, organization or pet the user's facts are about, with
+// the other names it has been mentioned by
+export interface Entity {
+  id: string;
+  name: string;
+  type: 'person' | 'place' | 'organization' | 'pet' | 'other';
+  aliases: string[];
+}
+
+// A query for the MCP server's query-graph tool: the facts around an entity,
+// the paths along a chain of predicates (or to another entity), or the
+// matches of triple patterns with ?variables
+export interface GraphQuery {
+  mode: 'neighborhood' | 'path' | 'pattern';
+  entity?: string;
+  predicates?: string[];
+  to?: string;
+  patterns?: { subject: string; predicate: string; object: string }[];
+  depth?: number;
+  limit?: number;
+}
+
+// An entity, or a plain value such as an age, in a graph result
+export interface GraphNode {
+  id?: string;
+  name: string;
+  type?: Entity['type'];
+}
+
+export interface GraphResult {
+  nodes?: GraphNode[];
+  facts?: Fact[];
+  paths?: { nodes: GraphNode[]; facts: Fact[] }[];
+  matches?: { bindings: Record<string, GraphNode>; facts: Fact[] }[];
+  truncated: boolean;
+}
+
+// Recorded in the MCP server's fact history alongside each change
+export interface FactChangeMeta {
+  actor?: string;
+  reason?: string;
+}
+
 export const MemoryContextSchema = z.object({
   userId: z.string(),
   facts: z.array(FactSchema),
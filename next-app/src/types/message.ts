@@ -3,17 +3,37 @@ import { z } from 'zod';
 export const MessageSchema = z.object({
   id: z.string(),
   userId: z.string(),
+  conversationId: z.string(),
   content: z.string(),
   role: z.enum(['user', 'assistant']),
   timestamp: z.date(),
+  // Facts injected into the prompt that produced an assistant message
+  memoryFactIds: z.array(z.string()).optional(),
 });
 
 export type Message = z.infer<typeof MessageSchema>;
 
 export const CreateMessageSchema = z.object({
   userId: z.string(),
+  conversationId: z.string(),
   content: z.string(),
   role: z.enum(['user', 'assistant']),
+  memoryFactIds: z.array(z.string()).optional(),
 });
 
-export type CreateMessage = z.infer<typeof CreateMessageSchema>; 
\ No newline at end of file
+export type CreateMessage = z.infer<typeof CreateMessageSchema>;
+
+// Body of POST /api/chat; the user comes from the session. Without a
+// conversationId the message starts a new conversation.
+export const ChatRequestSchema = CreateMessageSchema.omit({ userId: true, memoryFactIds: true }).extend({
+  conversationId: z.string().optional(),
+}); 
+// Sent as `event: tool` in the /api/chat stream when the model reads or
+// changes memory during a reply: once when a call starts, once when it ends
+export interface ToolEvent {
+  id: string;
+  name: string;
+  args: Record<string, unknown>;
+  status: 'started' | 'done' | 'error';
+  result?: unknown;
+}
@@ -0,0 +1,25 @@
+import { z } from 'zod';
+
+export const UserSchema = z.object({
+  id: z.string(),
+  email: z.string(),
+  name: z.string().optional(),
+  createdAt: z.date(),
+});
+
+export type User = z.infer<typeof UserSchema>;
+
+export const SignUpSchema = z.object({
+  email: z.string().trim().toLowerCase().email(),
+  password: z.string().min(8, 'Password must be at least 8 characters').max(200),
+  name: z.string().trim().min(1).max(100).optional(),
+});
+
+export type SignUp = z.infer<typeof SignUpSchema>;
+
+export const SignInSchema = z.object({
+  email: z.string().trim().toLowerCase().email(),
+  password: z.string().min(1),
+});
+
+export type SignIn = z.infer<typeof SignInSchema>;